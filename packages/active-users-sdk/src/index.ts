@@ -0,0 +1,27 @@
+/**
+ * Active Users SDK (npm)
+ * Core client - init timing is up to the app (call init() after mount, not during SSR)
+ *
+ *   import { ActiveUsersClient } from '@universal-tracking/active-users-sdk';
+ *   import { createPassiveActiveManager } from '@universal-tracking/active-users-sdk/passive-active';
+ *
+ *   const client = new ActiveUsersClient({ customerId, apiUrl }, createPassiveActiveManager);
+ *   await client.init();
+ *
+ * Sources live in services/universal-tracking (shared with the /active-users-sdk.js bundle)
+ */
+export { ActiveUsersClient } from '../../../services/universal-tracking/src/modules/active_users/client/client.js';
+export type {
+  ClientConfig,
+  ActiveUserMetrics,
+  UniqueUsers,
+  PresenceBreakdown,
+  BreakdownDimension,
+  PagePresence,
+  ActiveUsersEvent,
+  ActiveUsersEventMap,
+  ActiveUsersEventHandler,
+  ClientConnectionMode,
+  ClientSessionMode,
+  RateLimitEvent,
+} from '../../../services/universal-tracking/src/modules/active_users/types/index.js';
@@ -0,0 +1,14 @@
+/**
+ * Passive Active (opt-in)
+ * Desktop idle detection: inactive tabs drop to passive_active, then leave presence
+ * Pass createPassiveActiveManager as the second ActiveUsersClient argument
+ */
+export {
+  PassiveActiveManager,
+  createPassiveActiveManager,
+} from '../../../services/universal-tracking/src/modules/active_users/client/passive_active/index.js';
+export type {
+  PassiveActiveConfig,
+  PassiveActiveFactory,
+  SessionMode,
+} from '../../../services/universal-tracking/src/modules/active_users/client/passive_active/index.js';
@@ -0,0 +1,19 @@
+/**
+ * <active-users-count> Widget (opt-in)
+ * defineActiveUsersCount(client) once on the client side, then use the element anywhere
+ */
+export {
+  defineActiveUsersCount,
+  mountActiveUsersCount,
+  setCounterClient,
+  COUNTER_TAG,
+} from '../../../services/universal-tracking/src/modules/active_users/client/widget/counter.js';
+export {
+  formatCounter,
+  resolveLocale,
+  COUNTER_MESSAGES,
+} from '../../../services/universal-tracking/src/modules/active_users/client/widget/format.js';
+export type {
+  CounterWidgetOptions,
+  CounterNumberFormat,
+} from '../../../services/universal-tracking/src/modules/active_users/client/widget/format.js';
@@ -0,0 +1,48 @@
+import { defineConfig } from 'tsup';
+
+/**
+ * npm Package Configuration
+ * Same client sources as tsup.config.browser.ts (services/universal-tracking), built as a library
+ */
+export default defineConfig({
+  // Entry points - optional parts are separate subpaths (not imported = not bundled)
+  entry: {
+    index: 'src/index.ts',
+    'passive-active': 'src/passive-active.ts',
+    widget: 'src/widget.ts',
+  },
+  
+  // Output formats - library için hem ESM hem CJS
+  format: ['esm', 'cjs'],
+  
+  // Output directory
+  outDir: 'dist',
+  
+  // TypeScript declarations
+  dts: true,
+  
+  // Sourcemaps
+  sourcemap: true,
+  
+  // Clean dist before build
+  clean: true,
+  
+  // Apps minify themselves
+  minify: false,
+  
+  // Tree shaking
+  treeshake: true,
+  
+  // Target modern browsers
+  target: 'es2020',
+  
+  // Platform: browser
+  platform: 'browser',
+  
+  // Shared client code goes to a common chunk (ESM) instead of being copied per entry
+  splitting: true,
+  
+  onSuccess: async () => {
+    console.log('✅ Active Users SDK package built successfully!');
+  },
+});
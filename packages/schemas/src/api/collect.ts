@@ -1,5 +1,6 @@
 export const collectSchema = {
   $schema: "http://json-schema.org/draft-07/schema#",
+  $id: "https://universal-tracking.local/schemas/api/collect.json",
   type: "object",
   title: "Collect API Request",
   description: "API request for collecting tracking events - Yeni modüller için hazır",
@@ -1,5 +1,6 @@
 export const placeholderSchema = {
   $schema: "http://json-schema.org/draft-07/schema#",
+  $id: "https://universal-tracking.local/schemas/events/placeholder.json",
   type: "object",
   title: "Placeholder Event",
   description: "Placeholder event schema - Yeni tracking modülleri için hazır",
@@ -10,6 +11,9 @@ export const placeholderSchema = {
     },
     timestamp: {
       type: "number",
+      // 1970-01-01 .. 2100-01-01 - stored as ClickHouse DateTime64(3), larger values cannot be written
+      minimum: 0,
+      maximum: 4102444800000,
       description: "Unix timestamp in milliseconds"
     },
     user_id: {
@@ -2,4 +2,26 @@
 export { placeholderSchema } from './events/placeholder';
 
 // API schemas
-export { collectSchema } from './api/collect';
\ No newline at end of file
+export { collectSchema } from './api/collect';
+
+// Presence schemas (zod) - REST payloads + WebSocket client messages
+export {
+  PRESENCE_LIMITS,
+  presenceIdSchema,
+  presenceTimestampSchema,
+  sessionModeSchema,
+  pageFieldsSchema,
+  userTraitsSchema,
+  userFieldsSchema,
+  joinPayloadSchema,
+  beatPayloadSchema,
+  leavePayloadSchema,
+} from './presence/payloads';
+export type { JoinPayload, BeatPayload, LeavePayload, UserTraits } from './presence/payloads';
+export {
+  authMessageSchema,
+  pingMessageSchema,
+  ttlRefreshMessageSchema,
+  clientMessageSchema,
+} from './presence/messages';
+export type { ClientMessage } from './presence/messages';
@@ -0,0 +1,50 @@
+/**
+ * Presence WebSocket Message Schemas
+ * Client → server frames on /ws/active-users (validated by the server on every message)
+ */
+import { z } from 'zod';
+import {
+  PRESENCE_LIMITS,
+  pageFieldsSchema,
+  presenceIdSchema,
+  presenceTimestampSchema,
+  sessionModeSchema,
+  userFieldsSchema,
+} from './payloads';
+
+export const authMessageSchema = z.object({
+  type: z.literal('auth'),
+  customerId: presenceIdSchema,
+  sessionId: presenceIdSchema,
+  tabId: presenceIdSchema,
+  token: z.string().max(PRESENCE_LIMITS.tokenLength).optional(),
+  // Protocol version (missing = v1) + capabilities; unknown capability names are
+  // allowed here and dropped by the server's negotiation
+  version: z.number().int().positive().optional(),
+  capabilities: z.array(z.string().max(PRESENCE_LIMITS.labelLength)).max(32).optional(),
+});
+
+export const pingMessageSchema = z.object({
+  type: z.literal('ping'),
+  timestamp: presenceTimestampSchema,
+});
+
+export const ttlRefreshMessageSchema = z
+  .object({
+    type: z.literal('ttl_refresh'),
+    customerId: presenceIdSchema,
+    sessionId: presenceIdSchema,
+    tabId: presenceIdSchema,
+    timestamp: presenceTimestampSchema,
+    session_mode: sessionModeSchema.optional(),
+  })
+  .merge(pageFieldsSchema)
+  .merge(userFieldsSchema);
+
+export const clientMessageSchema = z.discriminatedUnion('type', [
+  authMessageSchema,
+  pingMessageSchema,
+  ttlRefreshMessageSchema,
+]);
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
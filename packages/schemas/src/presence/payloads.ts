@@ -0,0 +1,105 @@
+/**
+ * Presence Payload Schemas
+ * REST bodies for /presence/join, /presence/beat and /presence/leave
+ *
+ * The server validates every body against these; client and server both use the
+ * inferred types, so a field added here reaches both sides at once.
+ * Unknown properties are stripped (older/newer SDKs may send extra fields).
+ */
+import { z } from 'zod';
+
+/**
+ * Size limits for presence traffic (REST bodies and WebSocket frames)
+ */
+export const PRESENCE_LIMITS = {
+  maxBodyBytes: 8 * 1024,
+  idLength: 128,          // customerId, sessionId, tabId
+  labelLength: 64,        // platform, browser, device
+  userAgentLength: 1024,
+  pagePathLength: 2048,   // raw path - the server keeps 512 chars after dropping query/hash
+  pageTitleLength: 1024,  // the server keeps 200
+  tokenLength: 2048,
+  maxTabs: 1000,
+  maxUserTraits: 20,      // keys per identify() call
+  traitValueLength: 256,
+} as const;
+
+export const presenceIdSchema = z.string().min(1).max(PRESENCE_LIMITS.idLength);
+export const presenceTimestampSchema = z.number().finite().nonnegative();
+export const sessionModeSchema = z.enum(['active', 'passive_active']);
+const label = z.string().max(PRESENCE_LIMITS.labelLength);
+const tabCount = z.number().int().nonnegative().max(PRESENCE_LIMITS.maxTabs);
+
+/**
+ * Current page (SPA route) - shared by join and ttl_refresh
+ */
+export const pageFieldsSchema = z.object({
+  page_path: z.string().max(PRESENCE_LIMITS.pagePathLength).optional(),
+  page_title: z.string().max(PRESENCE_LIMITS.pageTitleLength).optional(),
+});
+
+/**
+ * Identified user (identify() in the SDK) - shared by join and ttl_refresh
+ * Sessions with the same userId count once in the unique users metric
+ */
+export const userTraitsSchema = z
+  .record(
+    z.string().min(1).max(PRESENCE_LIMITS.labelLength),
+    z.union([z.string().max(PRESENCE_LIMITS.traitValueLength), z.number().finite(), z.boolean()])
+  )
+  .refine((traits) => Object.keys(traits).length <= PRESENCE_LIMITS.maxUserTraits, {
+    message: `At most ${PRESENCE_LIMITS.maxUserTraits} traits`,
+  });
+
+export const userFieldsSchema = z.object({
+  userId: presenceIdSchema.optional(),
+  userTraits: userTraitsSchema.optional(),
+});
+
+export const joinPayloadSchema = z
+  .object({
+    customerId: presenceIdSchema,
+    sessionId: presenceIdSchema,
+    tabId: presenceIdSchema,
+    timestamp: presenceTimestampSchema,
+    platform: label.optional(),
+    browser: label.optional(),
+    device: label.optional(),
+    userAgent: z.string().max(PRESENCE_LIMITS.userAgentLength).optional(),
+    desktop_mode: z.boolean().optional(),
+    total_tab_quantity: tabCount.optional(),
+    total_backgroundTab_quantity: tabCount.optional(),
+    session_mode: sessionModeSchema.optional(),
+  })
+  .merge(pageFieldsSchema)
+  .merge(userFieldsSchema);
+
+export const beatPayloadSchema = z.object({
+  customerId: presenceIdSchema,
+  sessionId: presenceIdSchema,
+  tabId: presenceIdSchema,
+  timestamp: presenceTimestampSchema,
+  userAgent: z.string().max(PRESENCE_LIMITS.userAgentLength).optional(),
+});
+
+export const leavePayloadSchema = z.object({
+  customerId: presenceIdSchema,
+  sessionId: presenceIdSchema,
+  tabId: presenceIdSchema,
+  timestamp: presenceTimestampSchema,
+  userAgent: z.string().max(PRESENCE_LIMITS.userAgentLength).optional(),
+  mode: z.enum(['final', 'pending']).optional(),
+  reason: z.enum(['external', 'tabclose', 'unknown']).optional(),
+  // Unload beacons cannot send signing headers - HMAC precomputed by the SDK on the last join
+  beaconSignature: z
+    .object({
+      signature: z.string().max(PRESENCE_LIMITS.idLength),
+      timestamp: presenceTimestampSchema,
+    })
+    .optional(),
+});
+
+export type JoinPayload = z.infer<typeof joinPayloadSchema>;
+export type BeatPayload = z.infer<typeof beatPayloadSchema>;
+export type LeavePayload = z.infer<typeof leavePayloadSchema>;
+export type UserTraits = z.infer<typeof userTraitsSchema>;
@@ -17,6 +17,14 @@ export interface HealthCheck {
     used: number;
     total: number;
   };
+  sdkBundleHash?: string | null;
+  wsConnections?: number;
+  eventLoop?: {
+    lagMs: number;
+    maxLagMs: number;
+    stalls: number;
+    lastStallAt: number | null;
+  };
 }
 
 export interface ReadinessCheck {
@@ -27,6 +35,16 @@ export interface ReadinessCheck {
     redis: boolean;
     clickhouse: boolean;
   };
+  // Graceful shutdown başladı - load balancer trafiği boşaltmalı
+  shuttingDown?: boolean;
+  details?: Partial<Record<keyof ReadinessCheck['checks'], DependencyStatus>>;
+}
+
+export interface DependencyStatus {
+  status: 'up' | 'down' | 'disabled';
+  required: boolean;
+  latencyMs?: number;
+  error?: string;
 }
 
 // Dashboard API Types - Yeni modüllerde genişletilecek
@@ -4,6 +4,8 @@ export default {
   extensionsToTreatAsEsm: ['.ts'],
   moduleNameMapper: {
     '^(\\.{1,2}/.*)\\.js$': '$1',
+    '^@universal-tracking/schemas$': '<rootDir>/../../packages/schemas/src/index.ts',
+    '^@universal-tracking/types$': '<rootDir>/../../packages/types-ts/src/index.ts',
   },
   transform: {
     '^.+\\.tsx?$': [
@@ -0,0 +1,19 @@
+/**
+ * Build check: tsup must inline __SERVICE_VERSION__ (see src/core/config/version.ts)
+ * A bundle that still references the identifier falls back to reading package.json
+ * relative to dist/ and reports the wrong version on /health
+ */
+import { readFileSync, readdirSync } from 'fs';
+
+const { version } = JSON.parse(readFileSync(new URL('../package.json', import.meta.url), 'utf-8'));
+const distDir = new URL('../dist/', import.meta.url);
+const bundle = readdirSync(distDir)
+  .filter((file) => file.endsWith('.js'))
+  .map((file) => readFileSync(new URL(file, distDir), 'utf-8'))
+  .join('\n');
+
+if (bundle.includes('__SERVICE_VERSION__') || !bundle.includes(JSON.stringify(version))) {
+  console.error(`❌ dist/ does not inline the service version (${version}) - check the define in tsup.config.ts`);
+  process.exit(1);
+}
+console.log(`✅ dist/ reports service version ${version}`);
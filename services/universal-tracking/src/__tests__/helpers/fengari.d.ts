@@ -0,0 +1,9 @@
+/**
+ * Minimal typings for fengari (Lua VM used by the test Redis)
+ */
+declare module 'fengari' {
+  export const lua: any;
+  export const lauxlib: any;
+  export const lualib: any;
+  export function to_luastring(value: string): Uint8Array;
+}
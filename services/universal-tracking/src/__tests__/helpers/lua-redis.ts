@@ -0,0 +1,237 @@
+/**
+ * In-memory Redis for adapter tests
+ * Runs the adapter's Lua scripts for real (fengari) against a keyspace whose TTLs follow
+ * Date.now(), so jest fake timers can move the clock past expiries
+ */
+import { lauxlib, lua, lualib, to_luastring } from 'fengari';
+
+type Value = string | Map<string, string>;
+
+interface Entry {
+  value: Value;
+  expiresAt: number | null; // ms
+}
+
+export class LuaRedis {
+  private data = new Map<string, Entry>();
+
+  /**
+   * EVAL - fresh Lua state per call, like Redis script isolation
+   */
+  async eval(script: string, options: { keys: string[]; arguments: string[] }): Promise<unknown> {
+    const L = lauxlib.luaL_newstate();
+    lualib.luaL_openlibs(L);
+    pushValue(L, options.keys);
+    lua.lua_setglobal(L, to_luastring('KEYS'));
+    pushValue(L, options.arguments);
+    lua.lua_setglobal(L, to_luastring('ARGV'));
+    lua.lua_createtable(L, 0, 1);
+    lua.lua_pushcfunction(L, (state: unknown) => {
+      const args: string[] = [];
+      for (let i = 1; i <= lua.lua_gettop(state); i++) {
+        args.push(lua.lua_tojsstring(state, i));
+      }
+      pushValue(state, this.call(args[0] ?? '', args.slice(1)));
+      return 1;
+    });
+    lua.lua_setfield(L, -2, to_luastring('call'));
+    lua.lua_setglobal(L, to_luastring('redis'));
+    if (lauxlib.luaL_loadstring(L, to_luastring(script)) !== lua.LUA_OK || lua.lua_pcall(L, 0, 1, 0) !== lua.LUA_OK) {
+      throw new Error(`LuaRedis: ${lua.lua_tojsstring(L, -1)}`);
+    }
+    return toValue(L, -1);
+  }
+
+  async get(key: string): Promise<string | null> {
+    const value = this.read(key);
+    return typeof value === 'string' ? value : null;
+  }
+
+  async mGet(keys: string[]): Promise<Array<string | null>> {
+    return Promise.all(keys.map((key) => this.get(key)));
+  }
+
+  async hGetAll(key: string): Promise<Record<string, string>> {
+    return Object.fromEntries(this.hash(key) ?? []);
+  }
+
+  async zCount(key: string, min: number, max: string): Promise<number> {
+    return this.call('ZCOUNT', [key, String(min), max]) as number;
+  }
+
+  async zRangeByScore(key: string, min: number | string, max: number | string): Promise<string[]> {
+    return this.range(key, String(min), String(max));
+  }
+
+  async zRemRangeByScore(key: string, min: string, max: string): Promise<number> {
+    return this.call('ZREMRANGEBYSCORE', [key, min, max]) as number;
+  }
+
+  async ttl(key: string): Promise<number> {
+    const entry = this.entry(key);
+    if (!entry) return -2;
+    return entry.expiresAt === null ? -1 : Math.ceil((entry.expiresAt - Date.now()) / 1000);
+  }
+
+  /**
+   * Keys that have not expired yet
+   */
+  keys(): string[] {
+    return [...this.data.keys()].filter((key) => this.entry(key));
+  }
+
+  /**
+   * redis.call - only the commands the adapter scripts use (nil → false, like Redis)
+   */
+  private call(command: string, args: string[]): unknown {
+    const [key = '', ...rest] = args;
+    switch (command.toUpperCase()) {
+      case 'SET': {
+        const keepTTL = rest.includes('KEEPTTL');
+        const ex = rest.indexOf('EX');
+        const expiresAt = ex >= 0 ? Date.now() + Number(rest[ex + 1]) * 1000 : keepTTL ? this.entry(key)?.expiresAt ?? null : null;
+        this.data.set(key, { value: rest[0] ?? '', expiresAt });
+        return 'OK';
+      }
+      case 'EXISTS':
+        return this.entry(key) ? 1 : 0;
+      case 'DEL':
+        return this.data.delete(key) ? 1 : 0;
+      case 'EXPIRE': {
+        const entry = this.entry(key);
+        if (!entry) return 0;
+        entry.expiresAt = Date.now() + Number(rest[0]) * 1000;
+        return 1;
+      }
+      case 'HGET':
+        return this.hash(key)?.get(rest[0] ?? '') ?? false;
+      case 'HSET':
+        this.hash(key, true)!.set(rest[0] ?? '', rest[1] ?? '');
+        return 1;
+      case 'HDEL':
+        return this.dropEmpty(key, this.hash(key)?.delete(rest[0] ?? '') ? 1 : 0);
+      case 'HINCRBY': {
+        const hash = this.hash(key, true)!;
+        const value = Number(hash.get(rest[0] ?? '') ?? 0) + Number(rest[1]);
+        hash.set(rest[0] ?? '', String(value));
+        return value;
+      }
+      case 'HLEN':
+        return this.hash(key)?.size ?? 0;
+      case 'ZADD': {
+        const gt = rest[0] === 'GT';
+        const [score, member] = gt ? rest.slice(1) : rest;
+        const zset = this.hash(key, true)!;
+        const current = zset.get(member ?? '');
+        if (!gt || current === undefined || Number(score) > Number(current)) {
+          zset.set(member ?? '', score ?? '0');
+        }
+        return current === undefined ? 1 : 0;
+      }
+      case 'ZREM':
+        return this.dropEmpty(key, this.hash(key)?.delete(rest[0] ?? '') ? 1 : 0);
+      case 'ZRANGEBYSCORE':
+        return this.range(key, rest[0] ?? '-inf', rest[1] ?? '+inf');
+      case 'ZCOUNT':
+        return this.range(key, rest[0] ?? '-inf', rest[1] ?? '+inf').length;
+      case 'ZREMRANGEBYSCORE': {
+        const members = this.range(key, rest[0] ?? '-inf', rest[1] ?? '+inf');
+        members.forEach((member) => this.hash(key)!.delete(member));
+        return this.dropEmpty(key, members.length);
+      }
+      default:
+        throw new Error(`LuaRedis: unsupported command ${command}`);
+    }
+  }
+
+  private entry(key: string): Entry | undefined {
+    const entry = this.data.get(key);
+    if (entry && entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.data.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private read(key: string): Value | undefined {
+    return this.entry(key)?.value;
+  }
+
+  /**
+   * Hashes and sorted sets (member → score) share the Map representation
+   */
+  private hash(key: string, create = false): Map<string, string> | undefined {
+    const value = this.read(key);
+    if (value instanceof Map) return value;
+    if (!create) return undefined;
+    const hash = new Map<string, string>();
+    this.data.set(key, { value: hash, expiresAt: null });
+    return hash;
+  }
+
+  private dropEmpty(key: string, result: number): number {
+    if (this.hash(key)?.size === 0) this.data.delete(key);
+    return result;
+  }
+
+  private range(key: string, min: string, max: string): string[] {
+    const bound = (value: string, fallback: number) => {
+      if (value === '-inf') return { score: -Infinity, exclusive: false };
+      if (value === '+inf') return { score: Infinity, exclusive: false };
+      const exclusive = value.startsWith('(');
+      const score = Number(exclusive ? value.slice(1) : value);
+      return { score: Number.isNaN(score) ? fallback : score, exclusive };
+    };
+    const lo = bound(min, -Infinity);
+    const hi = bound(max, Infinity);
+    return [...(this.hash(key) ?? [])]
+      .filter(([, score]) => {
+        const value = Number(score);
+        return (lo.exclusive ? value > lo.score : value >= lo.score) && (hi.exclusive ? value < hi.score : value <= hi.score);
+      })
+      .sort(([, a], [, b]) => Number(a) - Number(b))
+      .map(([member]) => member);
+  }
+}
+
+function pushValue(L: unknown, value: unknown): void {
+  if (Array.isArray(value)) {
+    lua.lua_createtable(L, value.length, 0);
+    value.forEach((item, i) => {
+      pushValue(L, item);
+      lua.lua_rawseti(L, -2, i + 1);
+    });
+  } else if (typeof value === 'number') {
+    lua.lua_pushinteger(L, value);
+  } else if (typeof value === 'string') {
+    lua.lua_pushstring(L, to_luastring(value));
+  } else {
+    lua.lua_pushboolean(L, false);
+  }
+}
+
+/**
+ * Lua → reply conversion (numbers are integers, false is nil)
+ */
+function toValue(L: unknown, index: number): unknown {
+  switch (lua.lua_type(L, index)) {
+    case lua.LUA_TNUMBER:
+      return Math.trunc(lua.lua_tonumber(L, index));
+    case lua.LUA_TSTRING:
+      return lua.lua_tojsstring(L, index);
+    case lua.LUA_TTABLE: {
+      const items: unknown[] = [];
+      const table = lua.lua_absindex(L, index);
+      for (let i = 1; i <= lua.lua_rawlen(L, table); i++) {
+        lua.lua_rawgeti(L, table, i);
+        items.push(toValue(L, -1));
+        lua.lua_pop(L, 1);
+      }
+      return items;
+    }
+    case lua.LUA_TBOOLEAN:
+      return lua.lua_toboolean(L, index) ? 1 : null;
+    default:
+      return null;
+  }
+}
@@ -10,19 +10,28 @@ describe('Redis Persistence Integration', () => {
   let setMock: jest.Mock;
   let getMock: jest.Mock;
   let delMock: jest.Mock;
-  let scanMock: jest.Mock;
+  let evalMock: jest.Mock;
+  let zCountMock: jest.Mock;
+  let zRangeByScoreMock: jest.Mock;
+  let keysMock: jest.Mock;
 
   beforeEach(() => {
     setMock = jest.fn().mockResolvedValue('OK');
     getMock = jest.fn().mockResolvedValue(null);
     delMock = jest.fn().mockResolvedValue(1);
-    scanMock = jest.fn().mockResolvedValue(['0', []]);
+    evalMock = jest.fn().mockResolvedValue(1);
+    zCountMock = jest.fn().mockResolvedValue(0);
+    zRangeByScoreMock = jest.fn().mockResolvedValue([]);
+    keysMock = jest.fn().mockResolvedValue([]);
 
     mockRedisClient = {
       set: setMock,
       get: getMock,
       del: delMock,
-      scan: scanMock,
+      eval: evalMock,
+      zCount: zCountMock,
+      zRangeByScore: zRangeByScoreMock,
+      keys: keysMock,
     };
 
     redisAdapter = new RedisAdapter(mockRedisClient, 180);
@@ -43,12 +52,16 @@ describe('Redis Persistence Integration', () => {
 
       await redisAdapter.setPresence(presenceData);
 
-      expect(setMock).toHaveBeenCalledWith(
+      // Presence key + customer index are written atomically in one script
+      const [, options] = evalMock.mock.calls[0];
+      expect(options.keys).toEqual([
         'presence:customer-1:sess-123',
-        expect.stringContaining('sess-123'),
-        'EX',
-        180
-      );
+        'presence_idx:customer-1',
+        'presence_customers',
+      ]);
+      expect(options.arguments[0]).toContain('sess-123');
+      expect(options.arguments[1]).toBe('180');
+      expect(options.arguments[2]).toBe('sess-123');
     });
 
     it('should include updatedAt timestamp', async () => {
@@ -64,9 +77,8 @@ describe('Redis Persistence Integration', () => {
 
       await redisAdapter.setPresence(presenceData);
 
-      const storedData = JSON.parse(setMock.mock.calls[0][1]);
+      const storedData = JSON.parse(evalMock.mock.calls[0][1].arguments[0]);
       expect(storedData.updatedAt).toBeDefined();
-      expect(storedData.updatedAt).toBe(presenceData.updatedAt);
     });
   });
 
@@ -113,11 +125,9 @@ describe('Redis Persistence Integration', () => {
 
       await redisAdapter.updatePresence(presenceData);
 
-      expect(setMock).toHaveBeenCalledWith(
-        'presence:customer-1:sess-123',
-        expect.any(String),
-        'KEEPTTL'
-      );
+      const [script, options] = evalMock.mock.calls[0];
+      expect(script).toContain('KEEPTTL');
+      expect(options.keys).toEqual(['presence:customer-1:sess-123']);
     });
 
     it('should not reset TTL on update', async () => {
@@ -134,9 +144,9 @@ describe('Redis Persistence Integration', () => {
       await redisAdapter.updatePresence(presenceData);
 
       // KEEPTTL means no EX or EXAT parameter
-      const setCall = setMock.mock.calls[0];
-      expect(setCall[2]).toBe('KEEPTTL');
-      expect(setCall[3]).toBeUndefined();
+      const [script] = evalMock.mock.calls[0];
+      expect(script).not.toMatch(/'EX'|'EXAT'/);
+      expect(setMock).not.toHaveBeenCalled();
     });
   });
 
@@ -144,11 +154,16 @@ describe('Redis Persistence Integration', () => {
     it('should delete presence key', async () => {
       await redisAdapter.removePresence('customer-1', 'sess-123');
 
-      expect(delMock).toHaveBeenCalledWith('presence:customer-1:sess-123');
+      // Key and index entry are removed together
+      const [script, options] = evalMock.mock.calls[0];
+      expect(script).toContain('DEL');
+      expect(script).toContain('ZREM');
+      expect(options.keys).toEqual(['presence:customer-1:sess-123', 'presence_idx:customer-1']);
+      expect(options.arguments).toEqual(['sess-123']);
     });
 
     it('should handle deletion of non-existent key', async () => {
-      delMock.mockResolvedValue(0); // Key didn't exist
+      evalMock.mockResolvedValue(0); // Key didn't exist
 
       await expect(
         redisAdapter.removePresence('customer-1', 'sess-999')
@@ -158,13 +173,7 @@ describe('Redis Persistence Integration', () => {
 
   describe('getActiveSessions()', () => {
     it('should retrieve all active sessions for customer', async () => {
-      const sessions = [
-        'presence:customer-1:sess-1',
-        'presence:customer-1:sess-2',
-        'presence:customer-1:sess-3',
-      ];
-
-      scanMock.mockResolvedValue(['0', sessions]);
+      zRangeByScoreMock.mockResolvedValue(['sess-1', 'sess-2', 'sess-3']);
 
       const result = await redisAdapter.getActiveSessions('customer-1');
 
@@ -174,22 +183,20 @@ describe('Redis Persistence Integration', () => {
       expect(result[2]).toBe('sess-3');
     });
 
-    it('should use SCAN instead of KEYS', async () => {
-      scanMock.mockResolvedValue(['0', []]);
+    it('should read the customer index instead of scanning keys', async () => {
+      const before = Date.now();
 
       await redisAdapter.getActiveSessions('customer-1');
 
-      expect(scanMock).toHaveBeenCalledWith(
-        '0',
-        'MATCH',
-        'presence:customer-1:*',
-        'COUNT',
-        100
-      );
+      const [key, min, max] = zRangeByScoreMock.mock.calls[0];
+      expect(key).toBe('presence_idx:customer-1');
+      expect(min).toBeGreaterThanOrEqual(before); // Expired entries are skipped
+      expect(max).toBe('+inf');
+      expect(keysMock).not.toHaveBeenCalled();
     });
 
     it('should handle empty results', async () => {
-      scanMock.mockResolvedValue(['0', []]);
+      zRangeByScoreMock.mockResolvedValue([]);
 
       const result = await redisAdapter.getActiveSessions('customer-1');
 
@@ -199,19 +206,16 @@ describe('Redis Persistence Integration', () => {
 
   describe('getActiveCount()', () => {
     it('should count active sessions', async () => {
-      scanMock.mockResolvedValue(['0', [
-        'presence:customer-1:sess-1',
-        'presence:customer-1:sess-2',
-        'presence:customer-1:sess-3',
-      ]]);
+      zCountMock.mockResolvedValue(3);
 
       const count = await redisAdapter.getActiveCount('customer-1');
 
+      expect(zCountMock).toHaveBeenCalledWith('presence_idx:customer-1', expect.any(Number), '+inf');
       expect(count).toBe(3);
     });
 
     it('should return 0 for no sessions', async () => {
-      scanMock.mockResolvedValue(['0', []]);
+      zCountMock.mockResolvedValue(0);
 
       const count = await redisAdapter.getActiveCount('customer-1');
 
@@ -233,9 +237,9 @@ describe('Redis Persistence Integration', () => {
 
       await redisAdapter.setPresence(presenceData);
 
-      const setCall = setMock.mock.calls[0];
-      expect(setCall[2]).toBe('EX');
-      expect(setCall[3]).toBe(180); // 3 minutes
+      const [script, options] = evalMock.mock.calls[0];
+      expect(script).toContain("'EX'");
+      expect(options.arguments[1]).toBe('180'); // 3 minutes
     });
 
     it('should keep TTL on heartbeat updates', async () => {
@@ -251,14 +255,14 @@ describe('Redis Persistence Integration', () => {
 
       await redisAdapter.updatePresence(presenceData);
 
-      const setCall = setMock.mock.calls[0];
-      expect(setCall[2]).toBe('KEEPTTL');
+      const [script] = evalMock.mock.calls[0];
+      expect(script).toContain('KEEPTTL');
     });
   });
 
   describe('Error Handling', () => {
     it('should handle Redis connection errors on set', async () => {
-      setMock.mockRejectedValue(new Error('Connection refused'));
+      evalMock.mockRejectedValue(new Error('Connection refused'));
 
       const presenceData = {
         customerId: 'customer-1',
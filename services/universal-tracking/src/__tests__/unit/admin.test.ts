@@ -0,0 +1,139 @@
+/**
+ * Unit Tests for the admin sessions API (auth, inspection, eviction, audit trail)
+ */
+
+import Fastify, { type FastifyInstance } from 'fastify';
+import { setupAdminEndpoints } from '../../modules/active_users/server/transports/admin.js';
+import { AuditLog, MemoryAuditStore } from '../../modules/audit/index.js';
+
+const ADMIN_KEY = 'admin-key-with-at-least-32-characters!!';
+const auth = { authorization: `Bearer ${ADMIN_KEY}` };
+
+const session = (sessionId: string) => ({
+  customerId: 'shop-1',
+  sessionId,
+  tabId: `tab-${sessionId}`,
+  isLeader: true,
+  platform: 'desktop',
+  createdAt: '2025-10-19 12:00:00',
+  updatedAt: '2025-10-19 12:05:00',
+  lastActivity: 'just now',
+});
+
+describe('Admin sessions API', () => {
+  let fastify: FastifyInstance;
+  let presence: any;
+  let auditStore: MemoryAuditStore;
+
+  beforeEach(async () => {
+    const sessions = new Map([
+      ['s1', session('s1')],
+      ['s2', session('s2')],
+    ]);
+    presence = {
+      listSessions: jest.fn(async (_customerId: string, limit: number) => ({
+        total: sessions.size,
+        sessions: Array.from(sessions.values()).slice(0, limit),
+      })),
+      getPresence: jest.fn(async (_customerId: string, sessionId: string) => sessions.get(sessionId) ?? null),
+      getKeyTTL: jest.fn().mockResolvedValue(420),
+      removePresence: jest.fn(async (_customerId: string, sessionId: string) => {
+        sessions.delete(sessionId);
+      }),
+      flushCustomer: jest.fn(async () => {
+        const removed = sessions.size;
+        sessions.clear();
+        return removed;
+      }),
+    };
+    auditStore = new MemoryAuditStore();
+    fastify = Fastify();
+    setupAdminEndpoints(fastify, presence, new AuditLog(auditStore), { apiKey: ADMIN_KEY });
+    await fastify.ready();
+  });
+
+  afterEach(async () => {
+    await fastify.close();
+  });
+
+  it('should require the admin key', async () => {
+    const missing = await fastify.inject({ method: 'GET', url: '/admin/active-users/shop-1/sessions' });
+    expect(missing.statusCode).toBe(401);
+    expect(missing.json().code).toBe('ADMIN_KEY_REQUIRED');
+
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const wrong = await fastify.inject({
+      method: 'DELETE',
+      url: '/admin/active-users/shop-1/sessions',
+      headers: { authorization: 'Bearer nope' },
+    });
+    expect(wrong.statusCode).toBe(403);
+    expect(presence.flushCustomer).not.toHaveBeenCalled();
+    expect(auditStore.getEntries()).toHaveLength(0);
+  });
+
+  it('should list sessions with their presence data', async () => {
+    const response = await fastify.inject({ method: 'GET', url: '/admin/active-users/shop-1/sessions?limit=1', headers: auth });
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toMatchObject({ customerId: 'shop-1', total: 2, sessions: [{ sessionId: 's1' }] });
+    expect(presence.listSessions).toHaveBeenCalledWith('shop-1', 1);
+
+    const invalid = await fastify.inject({ method: 'GET', url: '/admin/active-users/shop-1/sessions?limit=0', headers: auth });
+    expect(invalid.statusCode).toBe(400);
+  });
+
+  it('should return one session with its remaining TTL', async () => {
+    const response = await fastify.inject({ method: 'GET', url: '/admin/active-users/shop-1/sessions/s2', headers: auth });
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toMatchObject({ sessionId: 's2', ttl: 420, presence: { platform: 'desktop' } });
+
+    const missing = await fastify.inject({ method: 'GET', url: '/admin/active-users/shop-1/sessions/nope', headers: auth });
+    expect(missing.statusCode).toBe(404);
+  });
+
+  it('should remove a session and audit it', async () => {
+    const response = await fastify.inject({
+      method: 'DELETE',
+      url: '/admin/active-users/shop-1/sessions/s1',
+      headers: { ...auth, 'x-admin-actor': 'alice' },
+    });
+    expect(response.statusCode).toBe(200);
+    expect(presence.removePresence).toHaveBeenCalledWith('shop-1', 's1');
+
+    const again = await fastify.inject({ method: 'DELETE', url: '/admin/active-users/shop-1/sessions/s1', headers: auth });
+    expect(again.statusCode).toBe(404);
+
+    const entries = auditStore.getEntries();
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({
+      action: 'presence.session.remove',
+      actor: 'alice',
+      customerId: 'shop-1',
+      target: 's1',
+      outcome: 'success',
+    });
+    expect(entries[1]).toMatchObject({ actor: 'admin', outcome: 'not_found' });
+  });
+
+  it('should flush a customer and audit the removed count', async () => {
+    const response = await fastify.inject({ method: 'DELETE', url: '/admin/active-users/shop-1/sessions', headers: auth });
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toMatchObject({ success: true, removed: 2 });
+    expect(auditStore.getEntries()[0]).toMatchObject({
+      action: 'presence.customer.flush',
+      target: null,
+      outcome: 'success',
+      details: { removed: 2 },
+    });
+  });
+
+  it('should keep serving when the audit store fails', async () => {
+    const failing = { name: 'broken', append: jest.fn().mockRejectedValue(new Error('db down')) };
+    const app = Fastify();
+    setupAdminEndpoints(app, presence, new AuditLog(failing), { apiKey: ADMIN_KEY });
+    const response = await app.inject({ method: 'DELETE', url: '/admin/active-users/shop-1/sessions/s2', headers: auth });
+    expect(response.statusCode).toBe(200);
+    expect(failing.append).toHaveBeenCalledTimes(1);
+    await app.close();
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Unit Tests for live breakdown counters (platform / browser / device / session mode)
+ */
+
+import { RedisAdapter } from '../../modules/active_users/server/adapters/redis.js';
+import { BroadcastService } from '../../modules/active_users/server/services/broadcast.service.js';
+import { getBreakdownTags, parseBreakdown } from '../../modules/active_users/server/utils/breakdown.js';
+import type { PresenceData } from '../../modules/active_users/types/ActiveUser.js';
+import { LuaRedis } from '../helpers/lua-redis.js';
+
+const presence = (overrides: Partial<PresenceData> = {}): PresenceData => ({
+  customerId: 'shop-1',
+  sessionId: 'sess-1',
+  tabId: 'tab-1',
+  isLeader: true,
+  createdAt: '2025-10-19 12:00:00',
+  updatedAt: '2025-10-19 12:00:00',
+  lastActivity: 'just now',
+  ...overrides,
+});
+
+describe('Breakdown tags', () => {
+  it('should tag every dimension of a session', () => {
+    const tags = getBreakdownTags(
+      presence({ platform: 'desktop', browser: 'Chrome', device: 'macbook', session_mode: 'passive_active', desktop_mode: true })
+    );
+    expect(tags).toEqual([
+      'platform:desktop',
+      'browser:chrome',
+      'device:macbook',
+      'session_mode:passive_active',
+      'desktop_mode:1',
+    ]);
+  });
+
+  it('should fall back to unknown / active and bound client values', () => {
+    const tags = getBreakdownTags(presence({ browser: 'Evil|Browser:' + 'x'.repeat(100) }));
+    expect(tags[0]).toBe('platform:unknown');
+    expect(tags[1]).toMatch(/^browser:evil_browser_x+$/);
+    expect(tags[1]!.length).toBe('browser:'.length + 32);
+    expect(tags[3]).toBe('session_mode:active');
+    expect(tags).not.toContain('desktop_mode:1');
+  });
+
+  it('should parse counters into a breakdown', () => {
+    expect(
+      parseBreakdown({
+        'platform:desktop': '3',
+        'platform:mobile': '2',
+        'browser:safari': '5',
+        'session_mode:active': '4',
+        'session_mode:passive_active': '0',
+        'desktop_mode:1': '1',
+        'bogus:value': '9',
+      })
+    ).toEqual({
+      platform: { desktop: 3, mobile: 2 },
+      browser: { safari: 5 },
+      device: {},
+      session_mode: { active: 4 },
+      desktop_mode: 1,
+    });
+  });
+});
+
+describe('RedisAdapter breakdown counters', () => {
+  let client: any;
+  let adapter: RedisAdapter;
+
+  beforeEach(() => {
+    client = {
+      eval: jest.fn().mockResolvedValue(1),
+      get: jest.fn().mockResolvedValue(null),
+      hGetAll: jest.fn().mockResolvedValue({ 'platform:tablet': '2', 'session_mode:active': '2' }),
+    };
+    adapter = new RedisAdapter(client, 600);
+  });
+
+  it('should move the session counters on join and update', async () => {
+    await adapter.setPresence(presence({ platform: 'mobile', browser: 'safari', device: 'iphone' }));
+    const [, sync] = client.eval.mock.calls[1];
+    expect(sync.keys).toEqual(['presence:shop-1:sess-1', 'presence_breakdown:shop-1', 'presence_breakdown_sessions:shop-1']);
+    expect(sync.arguments[0]).toBe('sess-1');
+    expect(sync.arguments[1]).toBe('platform:mobile|browser:safari|device:iphone|session_mode:active');
+
+    await adapter.updatePresence(presence({ platform: 'mobile', browser: 'safari', device: 'iphone', session_mode: 'passive_active' }));
+    const [, update] = client.eval.mock.calls[4]; // set, breakdown, user → update, breakdown
+    expect(update.arguments[1]).toContain('session_mode:passive_active');
+  });
+
+  it('should release the session counters on leave', async () => {
+    await adapter.removePresence('shop-1', 'sess-1');
+    const [, sync] = client.eval.mock.calls[1];
+    expect(sync.keys[1]).toBe('presence_breakdown:shop-1');
+    expect(sync.arguments[1]).toBe('');
+  });
+
+  it('should prune expired sessions before reading the counters', async () => {
+    const breakdown = await adapter.getBreakdown('shop-1');
+    const [script, prune] = client.eval.mock.calls[0];
+    expect(script).toContain('ZREMRANGEBYSCORE');
+    expect(prune.keys).toEqual([
+      'presence_idx:shop-1',
+      'presence_breakdown:shop-1',
+      'presence_breakdown_sessions:shop-1',
+      'presence_users:shop-1',
+      'presence_user_sessions:shop-1',
+    ]);
+    expect(client.hGetAll).toHaveBeenCalledWith('presence_breakdown:shop-1');
+    expect(breakdown.platform).toEqual({ tablet: 2 });
+    expect(breakdown.session_mode).toEqual({ active: 2 });
+  });
+});
+
+describe('Breakdown counter TTL', () => {
+  let client: LuaRedis;
+  let adapter: RedisAdapter;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-10-19T12:00:00Z') });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    client = new LuaRedis();
+    adapter = new RedisAdapter(client, 600);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should keep the counters of a session kept alive by TTL refreshes only', async () => {
+    await adapter.setPresence(presence({ platform: 'desktop' }));
+    // 20 minutes of heartbeats - well past the 600s index TTL
+    for (let i = 0; i < 20; i++) {
+      jest.advanceTimersByTime(60_000);
+      await adapter.refreshTTL('shop-1', 'sess-1');
+    }
+
+    expect(await adapter.getActiveCount('shop-1')).toBe(1);
+    expect((await adapter.getBreakdown('shop-1')).platform).toEqual({ desktop: 1 });
+  });
+
+  it('should extend the counters when a rejoin does not change the tags', async () => {
+    await adapter.setPresence(presence({ platform: 'desktop' }));
+    jest.advanceTimersByTime(500_000);
+    await adapter.setPresence(presence({ platform: 'desktop' }));
+    jest.advanceTimersByTime(400_000);
+
+    expect((await adapter.getBreakdown('shop-1')).platform).toEqual({ desktop: 1 });
+  });
+
+  it('should release the counters once the session expires', async () => {
+    await adapter.setPresence(presence({ platform: 'desktop' }));
+    jest.advanceTimersByTime(601_000);
+
+    expect((await adapter.getBreakdown('shop-1')).platform).toEqual({});
+    // Only the customers index is left (pruned by cleanupExpiredSessions)
+    expect(client.keys()).toEqual(['presence_customers']);
+  });
+});
+
+describe('BroadcastService breakdown', () => {
+  it('should only include the breakdown when provided', async () => {
+    const subscriber = {
+      on: jest.fn(),
+      connect: jest.fn().mockResolvedValue(undefined),
+      subscribe: jest.fn().mockResolvedValue(undefined),
+      unsubscribe: jest.fn().mockResolvedValue(undefined),
+    };
+    const client = { publish: jest.fn().mockResolvedValue(0), duplicate: jest.fn(() => subscriber) };
+    const broadcast = new BroadcastService(new RedisAdapter(client));
+    const updates: any[] = [];
+    const unsubscribe = broadcast.addListener('shop-1', (update) => updates.push(update));
+
+    await broadcast.broadcastMetrics('shop-1', 3, 2.5);
+    await broadcast.broadcastMetrics('shop-1', 3, 2.6, {
+      platform: { desktop: 3 },
+      browser: {},
+      device: {},
+      session_mode: { active: 3 },
+      desktop_mode: 0,
+    });
+
+    expect(updates[0]).not.toHaveProperty('breakdown');
+    expect(updates[1].breakdown.platform).toEqual({ desktop: 3 });
+    unsubscribe();
+  });
+});
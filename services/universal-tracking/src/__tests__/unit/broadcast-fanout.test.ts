@@ -0,0 +1,116 @@
+/**
+ * Unit Tests for cross-instance metrics fan-out (Redis pub/sub)
+ */
+
+import { RedisAdapter } from '../../modules/active_users/server/adapters/redis.js';
+import { BroadcastService } from '../../modules/active_users/server/services/broadcast.service.js';
+
+/**
+ * In-memory pub/sub shared by every "node" (stands in for one Redis server)
+ */
+function createBus() {
+  const channels = new Map<string, Set<(message: string) => void>>();
+  const createClient = (): any => ({
+    publish: jest.fn(async (channel: string, message: string) => {
+      channels.get(channel)?.forEach((listener) => listener(message));
+      return channels.get(channel)?.size ?? 0;
+    }),
+    duplicate: jest.fn(() => {
+      const own = new Map<string, (message: string) => void>();
+      return {
+        on: jest.fn(),
+        connect: jest.fn().mockResolvedValue(undefined),
+        subscribe: jest.fn(async (channel: string, listener: (message: string) => void) => {
+          own.set(channel, listener);
+          if (!channels.has(channel)) channels.set(channel, new Set());
+          channels.get(channel)!.add(listener);
+        }),
+        unsubscribe: jest.fn(async (channel: string) => {
+          const listener = own.get(channel);
+          if (listener) channels.get(channel)?.delete(listener);
+          own.delete(channel);
+        }),
+        quit: jest.fn().mockResolvedValue(undefined),
+      };
+    }),
+  });
+  return { channels, createClient };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const createSocket = () => ({ readyState: 1, send: jest.fn() });
+
+describe('BroadcastService fan-out', () => {
+  let bus: ReturnType<typeof createBus>;
+  let nodeA: BroadcastService;
+  let nodeB: BroadcastService;
+  let redisB: RedisAdapter;
+
+  beforeEach(() => {
+    bus = createBus();
+    nodeA = new BroadcastService(new RedisAdapter(bus.createClient()));
+    redisB = new RedisAdapter(bus.createClient());
+    nodeB = new BroadcastService(redisB);
+  });
+
+  it('should deliver updates computed on one node to sockets on another', async () => {
+    const remote = createSocket();
+    const local = createSocket();
+    nodeB.registerClient('shop-1', remote);
+    nodeA.registerClient('shop-1', local);
+    await flush();
+
+    await nodeA.broadcastMetrics('shop-1', 12, 10.5);
+
+    expect(remote.send).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(remote.send.mock.calls[0][0])).toMatchObject({
+      type: 'metrics:update',
+      data: { customerId: 'shop-1', count: 12, ema: 10.5 },
+    });
+    // Publishing node delivers once (locally), not again from its own pub/sub message
+    expect(local.send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reach stream listeners on other nodes', async () => {
+    const received: number[] = [];
+    nodeB.addListener('shop-1', (metrics) => received.push(metrics.count));
+    await flush();
+
+    await nodeA.broadcastMetrics('shop-1', 7, 7);
+
+    expect(received).toEqual([7]);
+    expect(nodeB.getMetricsSince('shop-1', 0).updates).toHaveLength(1);
+  });
+
+  it('should tie channel subscriptions to local subscribers', async () => {
+    const first = createSocket();
+    const second = createSocket();
+    nodeB.registerClient('shop-1', first);
+    nodeB.registerClient('shop-1', second);
+    await flush();
+
+    expect(redisB.getSubscriberCount()).toBe(1);
+    expect(bus.channels.get('metrics:shop-1')?.size).toBe(1);
+
+    nodeB.unregisterClient('shop-1', first);
+    await flush();
+    expect(redisB.getSubscriberCount()).toBe(1);
+
+    nodeB.unregisterClient('shop-1', second);
+    await flush();
+    expect(redisB.getSubscriberCount()).toBe(0);
+    expect(bus.channels.get('metrics:shop-1')?.size).toBe(0);
+  });
+
+  it('should share one subscriber connection across customers', async () => {
+    const client = bus.createClient();
+    const node = new BroadcastService(new RedisAdapter(client));
+
+    node.registerClient('shop-1', createSocket());
+    node.registerClient('shop-2', createSocket());
+    await flush();
+
+    expect(client.duplicate).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,26 @@
+/**
+ * Unit Tests for the service version reported on /health
+ * (the tsup define itself is checked after `build` by scripts/check-build-version.mjs)
+ */
+
+jest.mock('../../core/config/package-version.js', () => ({ readPackageVersion: () => '1.2.3' }));
+
+type VersionGlobal = { __SERVICE_VERSION__?: string };
+
+describe('BUILD_VERSION', () => {
+  const loadVersion = async () => (await import('../../core/config/version.js')).BUILD_VERSION;
+
+  afterEach(() => {
+    delete (globalThis as VersionGlobal).__SERVICE_VERSION__;
+    jest.resetModules();
+  });
+
+  it('should use the version injected by the bundler', async () => {
+    (globalThis as VersionGlobal).__SERVICE_VERSION__ = '9.9.9';
+    await expect(loadVersion()).resolves.toBe('9.9.9');
+  });
+
+  it('should fall back to the package.json version when nothing is injected', async () => {
+    await expect(loadVersion()).resolves.toBe('1.2.3');
+  });
+});
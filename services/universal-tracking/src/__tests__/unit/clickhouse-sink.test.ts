@@ -0,0 +1,118 @@
+/**
+ * Unit Tests for ClickHouse Event Sink (batching + backpressure)
+ */
+
+import { ClickHouseEventSink, SinkBackpressureError } from '../../modules/events/index.js';
+import { logger } from '../../core/observability/logger.js';
+
+describe('ClickHouseEventSink', () => {
+  let mockClient: any;
+  let sink: ClickHouseEventSink;
+
+  const batch = (count: number) => ({
+    siteId: 'site-1',
+    receivedAt: Date.UTC(2024, 0, 1, 12, 0, 0),
+    events: Array.from({ length: count }, (_, i) => ({
+      event_type: 'placeholder' as const,
+      timestamp: Date.UTC(2024, 0, 1, 12, 0, 0, i),
+      session_id: 'sess_1',
+      data: { index: i },
+    })),
+  });
+
+  beforeEach(() => {
+    mockClient = {
+      insert: jest.fn().mockResolvedValue({}),
+    };
+  });
+
+  afterEach(async () => {
+    mockClient.insert.mockResolvedValue({});
+    await sink.close();
+    jest.restoreAllMocks();
+  });
+
+  it('should buffer events until the batch size is reached', async () => {
+    sink = new ClickHouseEventSink(mockClient, { maxBatchSize: 5, flushIntervalMs: 60000 });
+
+    await sink.write(batch(3));
+    expect(mockClient.insert).not.toHaveBeenCalled();
+    expect(sink.getStats().buffered).toBe(3);
+
+    await sink.write(batch(2));
+    await sink.flush();
+
+    expect(mockClient.insert).toHaveBeenCalledTimes(1);
+    const insert = mockClient.insert.mock.calls[0][0];
+    expect(insert.table).toBe('events');
+    expect(insert.format).toBe('JSONEachRow');
+    expect(insert.clickhouse_settings).toMatchObject({ async_insert: 1 });
+    expect(insert.values).toHaveLength(5);
+    expect(insert.values[0]).toEqual({
+      site_id: 'site-1',
+      event_type: 'placeholder',
+      event_time: '2024-01-01 12:00:00.000',
+      received_at: '2024-01-01 12:00:00.000',
+      user_id: '',
+      session_id: 'sess_1',
+      data: '{"index":0}',
+    });
+    expect(sink.getStats()).toMatchObject({ buffered: 0, inserted: 5 });
+  });
+
+  it('should store only the event payload in the data column', async () => {
+    sink = new ClickHouseEventSink(mockClient, { maxBatchSize: 100, flushIntervalMs: 60000 });
+
+    await sink.write({
+      siteId: 'site-1',
+      receivedAt: Date.UTC(2024, 0, 1),
+      events: [
+        { event_type: 'placeholder', timestamp: Date.UTC(2024, 0, 1), user_id: 'u1', site_id: 'site-1', data: { a: 1 } },
+        { event_type: 'placeholder', timestamp: Date.UTC(2024, 0, 1) },
+      ],
+    });
+    await sink.flush();
+
+    const values = mockClient.insert.mock.calls[0][0].values;
+    expect(values.map((row: { data: string }) => row.data)).toEqual(['{"a":1}', '{}']);
+    expect(values[0].user_id).toBe('u1');
+  });
+
+  it('should keep rows buffered when an insert fails', async () => {
+    sink = new ClickHouseEventSink(mockClient, { maxBatchSize: 100, flushIntervalMs: 60000 });
+    mockClient.insert.mockRejectedValueOnce(new Error('ClickHouse down'));
+    const logError = jest.spyOn(logger, 'error').mockImplementation(() => undefined as any);
+
+    await sink.write(batch(3));
+    await expect(sink.flush()).rejects.toThrow('ClickHouse down');
+    expect(sink.getStats()).toMatchObject({ buffered: 3, failedFlushes: 1 });
+    expect(logError).toHaveBeenCalledWith(expect.objectContaining({ rows: 3 }), '[ClickHouse] Event insert failed');
+
+    await sink.flush();
+    expect(sink.getStats()).toMatchObject({ buffered: 0, inserted: 3 });
+  });
+
+  it('should reject writes with backpressure when the buffer is full', async () => {
+    sink = new ClickHouseEventSink(mockClient, {
+      maxBatchSize: 100,
+      maxBufferSize: 4,
+      flushIntervalMs: 60000,
+    });
+    mockClient.insert.mockRejectedValue(new Error('timeout'));
+    jest.spyOn(logger, 'error').mockImplementation(() => undefined as any);
+
+    await sink.write(batch(3));
+    await expect(sink.write(batch(2))).rejects.toBeInstanceOf(SinkBackpressureError);
+    expect(sink.getStats()).toMatchObject({ buffered: 3, rejected: 2 });
+  });
+
+  it('should flush remaining rows on close', async () => {
+    sink = new ClickHouseEventSink(mockClient, { maxBatchSize: 100, flushIntervalMs: 60000 });
+
+    await sink.write(batch(2));
+    await sink.close();
+
+    expect(mockClient.insert).toHaveBeenCalledTimes(1);
+    await expect(sink.write(batch(1))).rejects.toThrow('closed');
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Unit Tests for the SDK's public event API (typed emitter + rate limit events from the transports)
+ */
+
+import { TypedEmitter } from '../../modules/active_users/client/utils/emitter.js';
+import { HttpClient } from '../../modules/active_users/client/transport/http.js';
+import { PollingClient } from '../../modules/active_users/client/transport/polling.js';
+import type { ActiveUsersEventMap, RateLimitEvent } from '../../modules/active_users/types/Events.js';
+
+const payload = { customerId: 'shop-1', sessionId: 'sess-1', tabId: 'tab-1', timestamp: 1 };
+
+const throttled = (retryAfter: string, scope = 'session') =>
+  new Response(JSON.stringify({ error: 'Too Many Requests' }), {
+    status: 429,
+    headers: { 'Retry-After': retryAfter, 'X-RateLimit-Scope': scope },
+  });
+
+describe('TypedEmitter', () => {
+  it('should deliver payloads until unsubscribed', () => {
+    const events = new TypedEmitter<ActiveUsersEventMap>();
+    const handler = jest.fn();
+    const unsubscribe = events.on('leader:change', handler);
+
+    events.emit('leader:change', { isLeader: true });
+    unsubscribe();
+    events.emit('leader:change', { isLeader: false });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith({ isLeader: true });
+  });
+
+  it('should keep other handlers running when one throws', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const events = new TypedEmitter<ActiveUsersEventMap>();
+    const second = jest.fn();
+    events.on('connection:change', () => {
+      throw new Error('host page bug');
+    });
+    events.on('connection:change', second);
+
+    expect(() => events.emit('connection:change', { mode: 'websocket', previous: 'disconnected' })).not.toThrow();
+    expect(second).toHaveBeenCalledTimes(1);
+    jest.restoreAllMocks();
+  });
+
+  it('should allow off() and clear()', () => {
+    const events = new TypedEmitter<ActiveUsersEventMap>();
+    const handler = jest.fn();
+    events.on('rate_limit', handler);
+    events.off('rate_limit', handler);
+    events.emit('rate_limit', { endpoint: 'join', retryAfterMs: 1000, scope: null });
+
+    events.on('rate_limit', handler);
+    events.clear();
+    events.emit('rate_limit', { endpoint: 'join', retryAfterMs: 1000, scope: null });
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+describe('Rate limit events', () => {
+  let fetchMock: jest.Mock;
+  let rateLimits: RateLimitEvent[];
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    fetchMock = jest.fn();
+    (globalThis as any).fetch = fetchMock;
+    rateLimits = [];
+  });
+
+  afterEach(() => {
+    delete (globalThis as any).fetch;
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should report a throttled leave', async () => {
+    fetchMock.mockResolvedValue(throttled('30'));
+    const http = new HttpClient('https://api.test', null, (event) => rateLimits.push(event));
+
+    await expect(http.leave(payload)).rejects.toThrow('Rate limited');
+    expect(rateLimits).toHaveLength(1);
+    expect(rateLimits[0]).toMatchObject({ endpoint: 'leave', scope: 'session' });
+    expect(rateLimits[0]!.retryAfterMs).toBeGreaterThanOrEqual(30000);
+  });
+
+  it('should report every throttled join attempt', async () => {
+    fetchMock.mockResolvedValue(throttled('0', 'ip'));
+    const http = new HttpClient('https://api.test', null, (event) => rateLimits.push(event));
+
+    await expect(http.join(payload)).rejects.toThrow('Rate limited');
+    expect(rateLimits.map((event) => event.endpoint)).toEqual(['join', 'join', 'join']);
+    expect(rateLimits[0]!.scope).toBe('ip');
+  });
+
+  it('should report throttled metrics polling', async () => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+    fetchMock.mockResolvedValue(throttled('60', 'customer'));
+    const polling = new PollingClient('https://api.test', 'shop-1', (event) => rateLimits.push(event));
+
+    polling.start(30000, jest.fn());
+    await new Promise((resolve) => setImmediate(resolve));
+    polling.stop();
+
+    expect(rateLimits).toEqual([expect.objectContaining({ endpoint: 'metrics', scope: 'customer' })]);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Unit Tests for the <active-users-count> widget (formatting, thresholds, localization)
+ */
+
+import { formatCounter, resolveLocale } from '../../modules/active_users/client/widget/format.js';
+import {
+  COUNTER_TAG,
+  defineActiveUsersCount,
+  mountActiveUsersCount,
+  setCounterClient,
+} from '../../modules/active_users/client/widget/counter.js';
+
+describe('formatCounter', () => {
+  it('should pick the plural form of the locale', () => {
+    expect(formatCounter(1, { locale: 'en' })).toBe('1 person online');
+    expect(formatCounter(12, { locale: 'en' })).toBe('12 people online');
+    expect(formatCounter(1, { locale: 'de' })).toBe('1 Person online');
+    expect(formatCounter(3, { locale: 'tr' })).toBe('3 kişi çevrimiçi');
+  });
+
+  it('should hide counts below the threshold', () => {
+    expect(formatCounter(0)).toBeNull();
+    expect(formatCounter(4, { minCount: 5 })).toBeNull();
+    expect(formatCounter(5, { minCount: 5, locale: 'en' })).toBe('5 people online');
+    // minCount 0 still hides an empty page
+    expect(formatCounter(0, { minCount: 0 })).toBeNull();
+  });
+
+  it('should format numbers for the locale', () => {
+    expect(formatCounter(1234, { locale: 'en' })).toBe('1,234 people online');
+    expect(formatCounter(1234, { locale: 'de' })).toBe('1.234 Personen online');
+    expect(formatCounter(1234, { locale: 'en', format: 'compact' })).toBe('1.2K people online');
+  });
+
+  it('should use a custom text with the {count} placeholder', () => {
+    expect(formatCounter(7, { locale: 'en', text: '{count} shoppers viewing' })).toBe('7 shoppers viewing');
+  });
+
+  it('should fall back to English messages', () => {
+    expect(formatCounter(2, { locale: 'ja' })).toBe('2 people online');
+    expect(formatCounter(2, { locale: 'not a locale!' })).toBe('2 people online');
+  });
+});
+
+describe('resolveLocale', () => {
+  it('should canonicalize valid tags and reject invalid ones', () => {
+    expect(resolveLocale('pt-br')).toBe('pt-BR');
+    expect(resolveLocale(undefined)).toBe('en');
+    expect(resolveLocale('??')).toBe('en');
+  });
+});
+
+describe('defineActiveUsersCount', () => {
+  it('should be a no-op outside the browser', () => {
+    const client = { on: jest.fn(), getActiveUserCount: jest.fn() };
+    expect(defineActiveUsersCount(client as any)).toBe(false);
+    expect(setCounterClient(client as any)).toBe(false);
+    expect(mountActiveUsersCount()).toBeNull();
+    expect(client.on).not.toHaveBeenCalled();
+  });
+});
+
+describe('Counter client swap', () => {
+  // Just enough of the DOM for one custom element
+  const registry = new Map<string, any>();
+  const fakeClient = (count: number) => {
+    const listeners = new Set<() => void>();
+    return {
+      count,
+      on: jest.fn((_event: string, listener: () => void) => {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      }),
+      getActiveUserCount: jest.fn(function (this: { count: number }) {
+        return this.count;
+      }),
+      emit: () => listeners.forEach((listener) => listener()),
+      listeners,
+    };
+  };
+
+  beforeAll(() => {
+    Object.assign(globalThis, {
+      window: globalThis,
+      document: { documentElement: { lang: 'en' } },
+      customElements: { get: (tag: string) => registry.get(tag), define: (tag: string, element: any) => registry.set(tag, element) },
+      HTMLElement: class {
+        hidden = false;
+        textContent = '';
+        isConnected = true;
+        getAttribute(): null {
+          return null;
+        }
+        hasAttribute(): boolean {
+          return false;
+        }
+      },
+    });
+  });
+
+  afterAll(() => {
+    for (const key of ['window', 'document', 'customElements', 'HTMLElement']) {
+      delete (globalThis as any)[key];
+    }
+  });
+
+  it('should rebind mounted counters when the client is replaced', () => {
+    const first = fakeClient(3);
+    expect(defineActiveUsersCount(first as any, { locale: 'en' })).toBe(true);
+    const element = new (registry.get(COUNTER_TAG))();
+    element.connectedCallback();
+    expect(element.textContent).toBe('3 people online');
+
+    // SDK reload: old client destroyed, the new bundle defines the widget again
+    const second = fakeClient(7);
+    expect(defineActiveUsersCount(second as any, { locale: 'en' })).toBe(true);
+    expect(first.listeners.size).toBe(0);
+    expect(element.textContent).toBe('7 people online');
+
+    second.count = 9;
+    second.emit();
+    expect(element.textContent).toBe('9 people online');
+
+    const third = fakeClient(2);
+    expect(setCounterClient(third as any)).toBe(true);
+    expect(second.listeners.size).toBe(0);
+    expect(element.textContent).toBe('2 people online');
+    element.disconnectedCallback();
+    expect(third.listeners.size).toBe(0);
+  });
+
+  it('should leave a foreign element with the same tag alone', () => {
+    registry.set(COUNTER_TAG, class {});
+    expect(defineActiveUsersCount(fakeClient(1) as any)).toBe(false);
+    registry.clear();
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Unit Tests for Customer Registry
+ */
+
+import {
+  CustomerRegistry,
+  MemoryCustomerStore,
+  hashApiKey,
+  type Customer,
+} from '../../modules/customers/index.js';
+
+describe('CustomerRegistry', () => {
+  let store: MemoryCustomerStore;
+  let registry: CustomerRegistry;
+
+  const customer = (overrides: Partial<Customer> = {}): Customer => ({
+    id: 'shop-1',
+    name: 'Shop 1',
+    status: 'active',
+    allowedOrigins: [],
+    apiKeyHash: null,
+    plan: 'free',
+    limits: { maxActiveUsers: null, maxRequestsPerMinute: null },
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    store = new MemoryCustomerStore([customer()]);
+    registry = new CustomerRegistry(store, 60000, 10000);
+  });
+
+  it('should allow an active customer', async () => {
+    const access = await registry.authorize('shop-1');
+
+    expect(access.allowed).toBe(true);
+  });
+
+  it('should reject unknown and disabled customers', async () => {
+    store.upsert(customer({ id: 'shop-2', status: 'disabled' }));
+
+    expect(await registry.authorize('nope')).toMatchObject({ allowed: false, code: 'UNKNOWN_CUSTOMER', statusCode: 403 });
+    expect(await registry.authorize('shop-2')).toMatchObject({ allowed: false, code: 'CUSTOMER_DISABLED' });
+    expect(await registry.authorize(undefined)).toMatchObject({ allowed: false, code: 'MISSING_CUSTOMER_ID', statusCode: 400 });
+  });
+
+  it('should enforce allowed origins (exact and wildcard)', async () => {
+    store.upsert(customer({ allowedOrigins: ['https://shop.com', 'https://*.shop.com'] }));
+
+    expect((await registry.authorize('shop-1', 'https://shop.com')).allowed).toBe(true);
+    expect((await registry.authorize('shop-1', 'https://www.shop.com')).allowed).toBe(true);
+    expect((await registry.authorize('shop-1', 'https://evilshop.com'))).toMatchObject({ allowed: false, code: 'ORIGIN_NOT_ALLOWED' });
+    expect((await registry.authorize('shop-1', 'http://www.shop.com')).allowed).toBe(false);
+    // No Origin header - origin check skipped
+    expect((await registry.authorize('shop-1')).allowed).toBe(true);
+  });
+
+  it('should cache lookups and serve stale entries when the store fails', async () => {
+    const spy = jest.spyOn(store, 'findById');
+    registry = new CustomerRegistry(store, 0, 0);
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await registry.authorize('shop-1');
+    spy.mockRejectedValue(new Error('connection refused'));
+
+    expect((await registry.authorize('shop-1')).allowed).toBe(true);
+    expect(await registry.authorize('shop-9')).toMatchObject({ allowed: false, code: 'REGISTRY_UNAVAILABLE', statusCode: 503 });
+  });
+
+  it('should not hit the store again within the cache TTL', async () => {
+    const spy = jest.spyOn(store, 'findById');
+
+    await registry.authorize('shop-1');
+    await registry.authorize('shop-1');
+    expect(spy).toHaveBeenCalledTimes(1);
+
+    registry.invalidate('shop-1');
+    await registry.authorize('shop-1');
+    expect(spy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should bound the cache and keep unknown ids from evicting customers', async () => {
+    registry = new CustomerRegistry(store, 60000, 10000, 2, 3);
+    store.upsert(customer({ id: 'shop-2' }));
+    store.upsert(customer({ id: 'shop-3' }));
+
+    await registry.authorize('shop-1');
+    await registry.authorize('shop-2');
+    for (let i = 0; i < 50; i++) {
+      await registry.authorize(`random-${i}`);
+    }
+    expect(registry.getCacheSize()).toEqual({ customers: 2, misses: 3 });
+
+    // LRU: shop-1 was used last, so shop-2 is evicted by shop-3
+    const spy = jest.spyOn(store, 'findById');
+    await registry.authorize('shop-1');
+    await registry.authorize('shop-3');
+    await registry.authorize('shop-1');
+    expect(spy).toHaveBeenCalledTimes(1);
+    await registry.authorize('shop-2');
+    expect(spy).toHaveBeenCalledTimes(2);
+    expect(registry.getCacheSize().customers).toBe(2);
+  });
+
+  it('should expire unknown-customer entries after the negative TTL', async () => {
+    const spy = jest.spyOn(store, 'findById');
+    registry = new CustomerRegistry(store, 60000, 0);
+
+    await registry.authorize('shop-9');
+    store.upsert(customer({ id: 'shop-9' }));
+
+    expect((await registry.authorize('shop-9')).allowed).toBe(true);
+    expect(spy).toHaveBeenCalledTimes(2);
+    expect(registry.getCacheSize()).toEqual({ customers: 1, misses: 0 });
+  });
+
+  it('should resolve customers by API key hash', async () => {
+    store.upsert(customer({ apiKeyHash: hashApiKey('secret-key') }));
+
+    expect((await registry.findByApiKey('secret-key'))?.id).toBe('shop-1');
+    expect(await registry.findByApiKey('wrong-key')).toBeNull();
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Unit Tests for EMA Scheduler (customer discovery + cross-instance locks)
+ */
+
+import { EMAScheduler } from '../../modules/active_users/server/services/ema-scheduler.service.js';
+
+describe('EMAScheduler', () => {
+  let locks: Map<string, string>;
+  let activeCustomers: string[];
+  let mockAdapter: any;
+  let started: string[];
+  let stopped: string[];
+
+  const createScheduler = (idleTimeout: number = 300000) =>
+    new EMAScheduler(
+      mockAdapter,
+      { discoveryInterval: 30000, idleTimeout },
+      {
+        start: (customerId) => started.push(customerId),
+        stop: (customerId) => stopped.push(customerId),
+      }
+    );
+
+  beforeEach(() => {
+    locks = new Map();
+    activeCustomers = [];
+    started = [];
+    stopped = [];
+    // In-memory stand-in for the Redis lock primitives
+    mockAdapter = {
+      getActiveCustomerIds: jest.fn(async () => activeCustomers),
+      acquireLock: jest.fn(async (key: string, owner: string) => {
+        const holder = locks.get(key);
+        if (!holder || holder === owner) {
+          locks.set(key, owner);
+          return true;
+        }
+        return false;
+      }),
+      releaseLock: jest.fn(async (key: string, owner: string) => {
+        if (locks.get(key) === owner) locks.delete(key);
+      }),
+    };
+  });
+
+  it('should start EMA for customers with live sessions', async () => {
+    const scheduler = createScheduler();
+    activeCustomers = ['shop-1', 'shop-2'];
+
+    await scheduler.tick();
+    await scheduler.tick();
+
+    expect(started).toEqual(['shop-1', 'shop-2']);
+    expect(scheduler.getOwnedCustomers()).toEqual(['shop-1', 'shop-2']);
+  });
+
+  it('should compute each customer on only one instance', async () => {
+    const nodeA = createScheduler();
+    const nodeB = createScheduler();
+    activeCustomers = ['shop-1'];
+
+    await nodeA.tick();
+    await nodeB.tick();
+
+    expect(started).toEqual(['shop-1']);
+    expect(nodeA.getOwnedCustomers()).toEqual(['shop-1']);
+    expect(nodeB.getOwnedCustomers()).toEqual([]);
+
+    // Node A shuts down - node B takes over on its next tick
+    await nodeA.stop();
+    await nodeB.tick();
+
+    expect(nodeB.getOwnedCustomers()).toEqual(['shop-1']);
+    expect(locks.get('ema_lock:shop-1')).toBe(nodeB.getInstanceId());
+  });
+
+  it('should stop EMA and release the lock after the idle timeout', async () => {
+    const scheduler = createScheduler(0);
+    activeCustomers = ['shop-1'];
+    await scheduler.tick();
+
+    activeCustomers = [];
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await scheduler.tick();
+
+    expect(stopped).toEqual(['shop-1']);
+    expect(locks.has('ema_lock:shop-1')).toBe(false);
+    expect(scheduler.getOwnedCustomers()).toEqual([]);
+  });
+
+  it('should stop local EMA when another instance holds the lock', async () => {
+    const scheduler = createScheduler();
+    activeCustomers = ['shop-1'];
+    await scheduler.tick();
+
+    locks.set('ema_lock:shop-1', 'other-instance');
+    await scheduler.tick();
+
+    expect(stopped).toEqual(['shop-1']);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Unit Tests for Event Ingestion (POST /api/events)
+ */
+
+import { EventIngestService, MemoryEventSink } from '../../modules/events/index.js';
+import { logger } from '../../core/observability/logger.js';
+
+describe('EventIngestService', () => {
+  let sink: MemoryEventSink;
+  let service: EventIngestService;
+
+  const event = (overrides: Record<string, unknown> = {}) => ({
+    event_type: 'placeholder',
+    timestamp: Date.now(),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    sink = new MemoryEventSink();
+    service = new EventIngestService(sink);
+  });
+
+  it('should accept a valid request and write events to the sink', async () => {
+    const result = await service.ingest({
+      site_id: 'site-1',
+      timestamp: Date.now(),
+      events: [event(), event({ session_id: 'sess_1' })],
+    });
+
+    expect(result.statusCode).toBe(200);
+    expect(result.response).toEqual({ success: true, processed: 2 });
+    expect(sink.getEvents()).toHaveLength(2);
+    expect(sink.getBatches()[0]!.siteId).toBe('site-1');
+  });
+
+  it('should reject an invalid envelope with 400', async () => {
+    const result = await service.ingest({ events: [event()], timestamp: Date.now() });
+
+    expect(result.statusCode).toBe(400);
+    expect(result.response.processed).toBe(0);
+    expect(result.response.errors).toEqual([expect.stringContaining('site_id')]);
+    expect(sink.getEvents()).toHaveLength(0);
+  });
+
+  it('should report invalid events individually and keep the valid ones', async () => {
+    const result = await service.ingest({
+      site_id: 'site-1',
+      timestamp: Date.now(),
+      events: [event(), { timestamp: Date.now() }, event({ unknown_field: true })],
+    });
+
+    expect(result.statusCode).toBe(200);
+    expect(result.response.success).toBe(false);
+    expect(result.response.processed).toBe(1);
+    expect(result.response.errors).toHaveLength(2);
+    expect(result.response.errors![0]).toMatch(/^events\[1\]: .*event_type/);
+    expect(result.response.errors![1]).toMatch(/^events\[2\]: .*unknown_field/);
+  });
+
+  it('should reject event timestamps outside the storable range', async () => {
+    const result = await service.ingest({
+      site_id: 'site-1',
+      timestamp: Date.now(),
+      events: [event({ timestamp: 1e20 }), event({ timestamp: -1 }), event()],
+    });
+
+    // Rejected per event (not a sink failure / 503 the client would retry forever)
+    expect(result.statusCode).toBe(200);
+    expect(result.response.processed).toBe(1);
+    expect(result.response.errors).toEqual([
+      expect.stringMatching(/^events\[0\]: \/timestamp must be <= /),
+      expect.stringMatching(/^events\[1\]: \/timestamp must be >= 0/),
+    ]);
+    expect(sink.getEvents()).toHaveLength(1);
+  });
+
+  it('should reject requests above the schema batch limit', async () => {
+    const events = Array.from({ length: 101 }, () => event());
+    const result = await service.ingest({ site_id: 'site-1', timestamp: Date.now(), events });
+
+    expect(result.statusCode).toBe(400);
+    expect(sink.getEvents()).toHaveLength(0);
+  });
+
+  it('should split accepted events into sink batches', async () => {
+    service = new EventIngestService(sink, 2);
+    const events = Array.from({ length: 5 }, () => event());
+    const result = await service.ingest({ site_id: 'site-1', timestamp: Date.now(), events });
+
+    expect(result.response.processed).toBe(5);
+    expect(sink.getBatches().map((batch) => batch.events.length)).toEqual([2, 2, 1]);
+  });
+
+  it('should return 503 when the sink fails', async () => {
+    const logError = jest.spyOn(logger, 'error').mockImplementation(() => undefined as any);
+    sink.write = jest.fn().mockRejectedValue(new Error('down'));
+    const result = await service.ingest({ site_id: 'site-1', timestamp: Date.now(), events: [event()] });
+
+    expect(result.statusCode).toBe(503);
+    expect(result.response.success).toBe(false);
+    // Reported through the structured logger, like the sinks
+    expect(logError).toHaveBeenCalledWith(
+      expect.objectContaining({ sink: 'memory', siteId: 'site-1', processed: 0, count: 1 }),
+      '[Events] Sink write failed'
+    );
+    logError.mockRestore();
+  });
+});
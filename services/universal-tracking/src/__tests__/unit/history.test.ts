@@ -0,0 +1,76 @@
+/**
+ * Unit Tests for Active User History (time series + downsampling)
+ */
+
+import { RedisAdapter } from '../../modules/active_users/server/adapters/redis.js';
+import {
+  HistoryService,
+  downsample,
+} from '../../modules/active_users/server/services/history.service.js';
+
+describe('HistoryService', () => {
+  let mockRedisClient: any;
+  let service: HistoryService;
+  const base = Date.UTC(2024, 0, 1, 12, 0, 0);
+
+  beforeEach(() => {
+    mockRedisClient = {
+      zAdd: jest.fn().mockResolvedValue(1),
+      zRemRangeByScore: jest.fn().mockResolvedValue(0),
+      zRangeByScore: jest.fn().mockResolvedValue([]),
+      expire: jest.fn().mockResolvedValue(1),
+    };
+    service = new HistoryService(new RedisAdapter(mockRedisClient), 7);
+  });
+
+  it('should append ticks to a sorted set and trim by retention', async () => {
+    await service.record('shop-1', 12, 10.456, base);
+
+    expect(mockRedisClient.zAdd).toHaveBeenCalledWith('history:shop-1', {
+      score: base,
+      value: `${base}:12:10.46`,
+    });
+    expect(mockRedisClient.zRemRangeByScore).toHaveBeenCalledWith(
+      'history:shop-1',
+      '-inf',
+      `(${base - 7 * 24 * 60 * 60 * 1000}`
+    );
+    expect(mockRedisClient.expire).toHaveBeenCalledWith('history:shop-1', 7 * 24 * 60 * 60);
+  });
+
+  it('should return raw points parsed from the sorted set', async () => {
+    mockRedisClient.zRangeByScore.mockResolvedValue([`${base}:5:4.5`, `${base + 30000}:7:5.1`]);
+
+    const points = await service.getHistory('shop-1', base, base + 60000, 'raw');
+
+    expect(mockRedisClient.zRangeByScore).toHaveBeenCalledWith('history:shop-1', base, base + 60000);
+    expect(points).toEqual([
+      { timestamp: base, count: 5, minCount: 5, maxCount: 5, ema: 4.5, samples: 1 },
+      { timestamp: base + 30000, count: 7, minCount: 7, maxCount: 7, ema: 5.1, samples: 1 },
+    ]);
+  });
+
+  it('should downsample points into minute buckets', () => {
+    const buckets = downsample(
+      [
+        { timestamp: base, count: 4, ema: 4 },
+        { timestamp: base + 30000, count: 6, ema: 5 },
+        { timestamp: base + 60000, count: 10, ema: 6 },
+      ],
+      60000
+    );
+
+    expect(buckets).toEqual([
+      { timestamp: base, count: 5, minCount: 4, maxCount: 6, ema: 4.5, samples: 2 },
+      { timestamp: base + 60000, count: 10, minCount: 10, maxCount: 10, ema: 6, samples: 1 },
+    ]);
+  });
+
+  it('should pick a default resolution from the range', () => {
+    const hour = 60 * 60 * 1000;
+
+    expect(HistoryService.defaultResolution(0, hour)).toBe('minute');
+    expect(HistoryService.defaultResolution(0, 48 * hour)).toBe('hour');
+    expect(HistoryService.defaultResolution(0, 30 * 24 * hour)).toBe('day');
+  });
+});
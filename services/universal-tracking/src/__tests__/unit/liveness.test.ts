@@ -0,0 +1,76 @@
+/**
+ * Unit Tests for Liveness (/health contract + event-loop stall detection)
+ */
+
+import Fastify from 'fastify';
+import { healthRoutes } from '../../core/http/routes/health.js';
+import { EventLoopMonitor, eventLoopMonitor } from '../../core/observability/liveness.js';
+import { setWebSocketClientCountSource } from '../../core/observability/metrics.js';
+
+describe('EventLoopMonitor', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should flag a stall when the sampler fires late', () => {
+    const monitor = new EventLoopMonitor(1000, 500, 30000);
+    const start = Date.now();
+
+    monitor.sample(start + 500);
+    expect(monitor.isHealthy(start + 500)).toBe(true);
+
+    monitor.sample(start + 500 + 500 + 1500); // 1.5s late
+    expect(monitor.getStats()).toMatchObject({ lagMs: 1500, stalls: 1 });
+    expect(monitor.isHealthy(start + 3000)).toBe(false);
+  });
+
+  it('should recover after the unhealthy window', () => {
+    const monitor = new EventLoopMonitor(1000, 500, 30000);
+    const stallAt = Date.now() + 2000;
+    monitor.sample(stallAt);
+
+    expect(monitor.isHealthy(stallAt + 29000)).toBe(false);
+    expect(monitor.isHealthy(stallAt + 31000)).toBe(true);
+  });
+});
+
+describe('GET /health', () => {
+  afterEach(() => {
+    setWebSocketClientCountSource(null);
+    jest.restoreAllMocks();
+  });
+
+  it('should report the full HealthCheck contract', async () => {
+    const fastify = Fastify();
+    await fastify.register(healthRoutes, { version: '2.3.4', getSdkBundleHash: () => 'abc123' });
+    setWebSocketClientCountSource(() => 3);
+
+    const response = await fastify.inject({ method: 'GET', url: '/health' });
+    const body = response.json();
+
+    expect(response.statusCode).toBe(200);
+    expect(body).toMatchObject({
+      status: 'healthy',
+      service: 'universal-tracking',
+      version: '2.3.4',
+      sdkBundleHash: 'abc123',
+      wsConnections: 3,
+    });
+    expect(body.uptime).toEqual(expect.any(Number));
+    expect(body.memory.used).toBeGreaterThan(0);
+    expect(body.eventLoop).toEqual(expect.objectContaining({ stalls: expect.any(Number) }));
+    await fastify.close();
+  });
+
+  it('should return 503 after an event-loop stall', async () => {
+    const fastify = Fastify();
+    await fastify.register(healthRoutes);
+    jest.spyOn(eventLoopMonitor, 'isHealthy').mockReturnValue(false);
+
+    const response = await fastify.inject({ method: 'GET', url: '/health' });
+
+    expect(response.statusCode).toBe(503);
+    expect(response.json().status).toBe('unhealthy');
+    await fastify.close();
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Unit Tests for Prometheus Metrics (/metrics exposition + HTTP histograms)
+ */
+
+import Fastify from 'fastify';
+import { healthRoutes } from '../../core/http/routes/health.js';
+import {
+  metrics,
+  metricsRegistry,
+  registerHttpMetrics,
+  setWebSocketClientCountSource,
+} from '../../core/observability/metrics.js';
+import { MultiTierRateLimiter } from '../../modules/active_users/server/utils/rate-limit.js';
+import { EMAService } from '../../modules/active_users/server/services/ema.service.js';
+
+describe('Prometheus metrics', () => {
+  beforeEach(() => {
+    metricsRegistry.resetMetrics();
+  });
+
+  afterEach(() => {
+    setWebSocketClientCountSource(null);
+  });
+
+  it('should serve the registry in Prometheus text format', async () => {
+    const fastify = Fastify();
+    await fastify.register(healthRoutes);
+    metrics.presenceEvents.inc({ event: 'join' });
+
+    const response = await fastify.inject({ method: 'GET', url: '/metrics' });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['content-type']).toContain('text/plain');
+    expect(response.body).toContain('presence_events_total{event="join",service="universal-tracking"} 1');
+    await fastify.close();
+  });
+
+  it('should label request durations with the route pattern', async () => {
+    const fastify = Fastify();
+    registerHttpMetrics(fastify);
+    fastify.get('/items/:id', async () => ({ ok: true }));
+
+    await fastify.inject({ method: 'GET', url: '/items/42' });
+    const output = await metricsRegistry.getSingleMetricAsString('http_request_duration_seconds');
+
+    expect(output).toContain('route="/items/:id"');
+    expect(output).not.toContain('/items/42');
+    await fastify.close();
+  });
+
+  it('should read WebSocket connections from the registered source on scrape', async () => {
+    setWebSocketClientCountSource(() => 7);
+
+    const output = await metricsRegistry.getSingleMetricAsString('ws_connections');
+
+    expect(output).toContain('ws_connections{service="universal-tracking"} 7');
+  });
+
+  it('should count rate limit rejections per tier', async () => {
+    const limiter = new MultiTierRateLimiter();
+    limiter.addLimiter('ip', { windowMs: 60000, maxRequests: 1, keyGenerator: (req) => req.ip });
+
+    await limiter.checkAll({ ip: '1.2.3.4' });
+    await limiter.checkAll({ ip: '1.2.3.4' });
+    const output = await metricsRegistry.getSingleMetricAsString('rate_limit_rejections_total');
+
+    expect(output).toContain('rate_limit_rejections_total{tier="ip",service="universal-tracking"} 1');
+    limiter.destroy();
+  });
+
+  it('should observe EMA duration when Redis fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const redis = { getActiveCount: jest.fn().mockRejectedValue(new Error('redis down')) };
+    const service = new EMAService(redis as any);
+    const onUpdate = jest.fn();
+
+    await (service as any).calculateAndUpdate('shop-1', onUpdate);
+    const output = await metricsRegistry.getSingleMetricAsString('ema_computation_duration_seconds');
+
+    expect(onUpdate).not.toHaveBeenCalled();
+    expect(output).toContain('ema_computation_duration_seconds_count{service="universal-tracking"} 1');
+    jest.restoreAllMocks();
+  });
+});
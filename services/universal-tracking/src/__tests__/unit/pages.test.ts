@@ -0,0 +1,130 @@
+/**
+ * Unit Tests for per-page presence (join/ttl_refresh page fields + top pages)
+ */
+
+import { PresenceService } from '../../modules/active_users/server/services/presence.service.js';
+import { sanitizePagePath, sanitizePageTitle } from '../../modules/active_users/server/utils/page.js';
+import type { PresenceData } from '../../modules/active_users/types/ActiveUser.js';
+
+/**
+ * In-memory stand-in for the RedisAdapter calls PresenceService makes
+ */
+function createRedis() {
+  const store = new Map<string, PresenceData>();
+  const key = (customerId: string, sessionId: string) => `${customerId}:${sessionId}`;
+  return {
+    store,
+    getPresence: jest.fn(async (customerId: string, sessionId: string) => store.get(key(customerId, sessionId)) ?? null),
+    setPresence: jest.fn(async (data: PresenceData) => {
+      store.set(key(data.customerId, data.sessionId), data);
+    }),
+    updatePresence: jest.fn(async (data: PresenceData) => {
+      store.set(key(data.customerId, data.sessionId), data);
+    }),
+    refreshTTL: jest.fn(async () => undefined),
+    getActiveSessions: jest.fn(async (customerId: string) =>
+      Array.from(store.values()).filter((p) => p.customerId === customerId).map((p) => p.sessionId)
+    ),
+    getPresenceMany: jest.fn(async (customerId: string, sessionIds: string[]) =>
+      sessionIds.map((id) => store.get(key(customerId, id))).filter((p): p is PresenceData => !!p)
+    ),
+    cleanupExpiredSessions: jest.fn(async () => 0),
+    getAllPresenceKeys: jest.fn(async () => []),
+  };
+}
+
+const join = (sessionId: string, page?: { path?: string; title?: string }) => ({
+  customerId: 'shop-1',
+  sessionId,
+  tabId: `tab-${sessionId}`,
+  timestamp: Date.now(),
+  ...(page?.path !== undefined && { page_path: page.path }),
+  ...(page?.title !== undefined && { page_title: page.title }),
+});
+
+describe('Page sanitizing', () => {
+  it('should keep only the path', () => {
+    expect(sanitizePagePath('/checkout?token=secret#step-2')).toBe('/checkout');
+    expect(sanitizePagePath('pricing/')).toBe('/pricing');
+    expect(sanitizePagePath('/')).toBe('/');
+  });
+
+  it('should reject empty or non-string input', () => {
+    expect(sanitizePagePath('')).toBeUndefined();
+    expect(sanitizePagePath('?q=1')).toBeUndefined();
+    expect(sanitizePagePath(42)).toBeUndefined();
+    expect(sanitizePageTitle('   ')).toBeUndefined();
+  });
+
+  it('should cap lengths', () => {
+    expect(sanitizePagePath(`/${'a'.repeat(1000)}`)).toHaveLength(512);
+    expect(sanitizePageTitle('t'.repeat(500))).toHaveLength(200);
+    expect(sanitizePageTitle('  Pricing \n | Shop ')).toBe('Pricing | Shop');
+  });
+});
+
+describe('PresenceService pages', () => {
+  let redis: ReturnType<typeof createRedis>;
+  let presence: PresenceService;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    redis = createRedis();
+    presence = new PresenceService(redis as any);
+  });
+
+  afterEach(() => {
+    presence.stopStaleSessionCleanup();
+    jest.restoreAllMocks();
+  });
+
+  it('should store the page on join and keep it when a join omits it', async () => {
+    await presence.handleJoin(join('s1', { path: '/pricing?plan=pro', title: 'Pricing' }));
+    expect(redis.store.get('shop-1:s1')).toMatchObject({ page_path: '/pricing', page_title: 'Pricing' });
+
+    await presence.handleJoin(join('s1'));
+    expect(redis.store.get('shop-1:s1')).toMatchObject({ page_path: '/pricing', page_title: 'Pricing' });
+  });
+
+  it('should drop the old title when a join reports a new path without one', async () => {
+    await presence.handleJoin(join('s1', { path: '/pricing', title: 'Pricing' }));
+    await presence.handleJoin(join('s1', { path: '/docs' }));
+    expect(redis.store.get('shop-1:s1')?.page_path).toBe('/docs');
+    expect(redis.store.get('shop-1:s1')?.page_title).toBeUndefined();
+  });
+
+  it('should update the page on TTL refresh only when it changed', async () => {
+    await presence.handleJoin(join('s1', { path: '/', title: 'Home' }));
+    redis.updatePresence.mockClear();
+
+    await presence.refreshTTL('shop-1', 's1', 'tab-s1', undefined, { path: '/', title: 'Home' });
+    expect(redis.updatePresence).not.toHaveBeenCalled();
+
+    await presence.refreshTTL('shop-1', 's1', 'tab-s1', undefined, { path: '/blog/post-1', title: 'Post 1' });
+    expect(redis.updatePresence).toHaveBeenCalledTimes(1);
+    expect(redis.store.get('shop-1:s1')).toMatchObject({ page_path: '/blog/post-1', page_title: 'Post 1' });
+    expect(redis.refreshTTL).toHaveBeenCalledTimes(2);
+  });
+
+  it('should rank pages by live visitors', async () => {
+    await presence.handleJoin(join('s1', { path: '/pricing', title: 'Pricing' }));
+    await presence.handleJoin(join('s2', { path: '/pricing' }));
+    await presence.handleJoin(join('s3', { path: '/' }));
+    await presence.handleJoin(join('s4', { path: '/docs', title: 'Docs' }));
+    await presence.handleJoin(join('s5', { path: '/docs' }));
+    await presence.handleJoin(join('s6', { path: '/docs' }));
+    await presence.handleJoin(join('s7')); // no page reported yet
+
+    const { total, pages } = await presence.getTopPages('shop-1', 2);
+    expect(total).toBe(7);
+    expect(pages).toEqual([
+      { path: '/docs', title: 'Docs', visitors: 3 },
+      { path: '/pricing', title: 'Pricing', visitors: 2 },
+    ]);
+  });
+
+  it('should return no pages for a customer without sessions', async () => {
+    await presence.handleJoin(join('s1', { path: '/' }));
+    await expect(presence.getTopPages('shop-2')).resolves.toEqual({ total: 0, pages: [] });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Unit Tests for the SDK's offline presence queue (outbox storage, retry, coalescing, TTL)
+ */
+
+import { PresenceQueue } from '../../modules/active_users/client/transport/queue.js';
+import { HttpError } from '../../modules/active_users/client/transport/http.js';
+import { RateLimitError } from '../../modules/active_users/client/transport/backoff.js';
+import {
+  LocalStorageOutboxStorage,
+  MemoryOutboxStorage,
+} from '../../modules/active_users/client/state/outbox.js';
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+const join = (sessionId = 'sess-1') => ({ customerId: 'shop-1', sessionId, tabId: 'tab-1', timestamp: Date.now() });
+
+const networkError = () => new TypeError('Failed to fetch');
+
+describe('PresenceQueue', () => {
+  let http: any;
+  let storage: MemoryOutboxStorage;
+  let onJoinDelivered: jest.Mock;
+  let queue: PresenceQueue;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    http = {
+      join: jest.fn().mockResolvedValue({ success: true, wsToken: 't', wsTokenExpiresAt: 1 }),
+      leave: jest.fn().mockResolvedValue(undefined),
+    };
+    storage = new MemoryOutboxStorage();
+    onJoinDelivered = jest.fn();
+    queue = new PresenceQueue(http, storage, 600000, onJoinDelivered);
+  });
+
+  afterEach(() => {
+    queue.stop();
+    delete (globalThis as any).navigator;
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should send right away when the network works', async () => {
+    await expect(queue.join(join())).resolves.toMatchObject({ wsToken: 't' });
+    expect(onJoinDelivered).toHaveBeenCalledTimes(1);
+    expect(await queue.size()).toBe(0);
+  });
+
+  it('should queue retryable failures and deliver them with backoff', async () => {
+    queue.start();
+    http.join.mockRejectedValueOnce(networkError());
+    await expect(queue.join(join())).resolves.toBeNull();
+    expect(await queue.size()).toBe(1);
+
+    jest.advanceTimersByTime(120000);
+    await flush();
+    await flush();
+    expect(http.join).toHaveBeenCalledTimes(2);
+    expect(onJoinDelivered).toHaveBeenCalledTimes(1);
+    expect(await queue.size()).toBe(0);
+  });
+
+  it('should wait for the Retry-After of a throttled request', async () => {
+    queue.start();
+    http.leave.mockRejectedValueOnce(new RateLimitError(30000));
+    await queue.leave(join());
+    jest.advanceTimersByTime(29000);
+    await flush();
+    expect(http.leave).toHaveBeenCalledTimes(1);
+    jest.advanceTimersByTime(10000); // Retry-After + up to 30% jitter
+    await flush();
+    await flush();
+    expect(http.leave).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry rejected messages', async () => {
+    http.join.mockRejectedValueOnce(new HttpError(400));
+    await expect(queue.join(join())).rejects.toBeInstanceOf(HttpError);
+    expect(await queue.size()).toBe(0);
+  });
+
+  it('should keep only the latest message per session', async () => {
+    (globalThis as any).navigator = { onLine: false };
+    await queue.join(join('sess-1'));
+    await queue.leave(join('sess-1'));
+    await queue.join(join('sess-2'));
+    const entries = await storage.getAll();
+    expect(entries.map((entry) => `${entry.kind}:${entry.sessionId}`).sort()).toEqual(['join:sess-2', 'leave:sess-1']);
+    expect(http.join).not.toHaveBeenCalled();
+  });
+
+  it('should skip entries superseded while the queue drains', async () => {
+    (globalThis as any).navigator = { onLine: false };
+    await queue.leave(join('sess-1'));
+    jest.advanceTimersByTime(1);
+    await queue.leave(join('sess-2'));
+    (globalThis as any).navigator = { onLine: true };
+
+    let releaseFirstLeave!: () => void;
+    http.leave.mockImplementationOnce(() => new Promise<void>((resolve) => (releaseFirstLeave = resolve)));
+    const draining = queue.flush();
+    await flush();
+    expect(http.leave).toHaveBeenCalledTimes(1);
+
+    // sess-2 comes back mid-drain - its pending leave must not follow the join
+    await queue.join(join('sess-2'));
+    releaseFirstLeave();
+    await draining;
+
+    expect(http.leave.mock.calls.map(([payload]: any[]) => payload.sessionId)).toEqual(['sess-1']);
+    expect(http.join).toHaveBeenCalledTimes(1);
+    expect(await queue.size()).toBe(0);
+  });
+
+  it('should flush when the browser comes back online', async () => {
+    const listeners: Record<string, () => void> = {};
+    (globalThis as any).window = {
+      addEventListener: jest.fn((event: string, listener: () => void) => (listeners[event] = listener)),
+      removeEventListener: jest.fn(),
+    };
+    try {
+      (globalThis as any).navigator = { onLine: false };
+      queue.start();
+      await queue.leave(join());
+      expect(http.leave).not.toHaveBeenCalled();
+
+      (globalThis as any).navigator = { onLine: true };
+      listeners.online!();
+      await flush();
+      await flush();
+      expect(http.leave).toHaveBeenCalledTimes(1);
+      expect(await queue.size()).toBe(0);
+    } finally {
+      queue.stop();
+      delete (globalThis as any).window;
+    }
+  });
+
+  it('should drop entries older than the presence TTL', async () => {
+    await storage.put({ id: 'old', kind: 'join', sessionId: 'sess-9', createdAt: Date.now() - 700000, payload: join('sess-9') });
+    await queue.flush();
+    expect(http.join).not.toHaveBeenCalled();
+    expect(await storage.getAll()).toEqual([]);
+  });
+});
+
+describe('LocalStorageOutboxStorage', () => {
+  beforeEach(() => {
+    const data = new Map<string, string>();
+    (globalThis as any).localStorage = {
+      getItem: (key: string) => data.get(key) ?? null,
+      setItem: (key: string, value: string) => data.set(key, value),
+      removeItem: (key: string) => data.delete(key),
+    };
+  });
+
+  afterEach(() => {
+    delete (globalThis as any).localStorage;
+  });
+
+  it('should persist entries across instances (page loads, tabs)', async () => {
+    const entry = { id: 'e1', kind: 'leave' as const, sessionId: 'sess-1', createdAt: 1, payload: join() };
+    await new LocalStorageOutboxStorage('outbox').put(entry);
+    const other = new LocalStorageOutboxStorage('outbox');
+    expect(await other.getAll()).toEqual([entry]);
+    await other.delete('e1');
+    expect(localStorage.getItem('outbox')).toBeNull();
+  });
+});
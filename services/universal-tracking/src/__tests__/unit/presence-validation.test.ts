@@ -0,0 +1,202 @@
+/**
+ * Unit Tests for presence payload validation (shared schemas at the REST / WebSocket boundaries)
+ */
+
+import { EventEmitter } from 'events';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { PRESENCE_LIMITS, clientMessageSchema, joinPayloadSchema } from '@universal-tracking/schemas';
+import { setupRESTEndpoints } from '../../modules/active_users/server/transports/rest.js';
+import { WebSocketServer } from '../../modules/active_users/server/transports/websocket.js';
+import { CustomerRegistry, MemoryCustomerStore } from '../../modules/customers/index.js';
+
+const join = (overrides: Record<string, unknown> = {}) => ({
+  customerId: 'shop-1',
+  sessionId: 'sess-1',
+  tabId: 'tab-1',
+  timestamp: Date.now(),
+  ...overrides,
+});
+
+describe('Presence schemas', () => {
+  it('should accept a join and strip unknown fields', () => {
+    const result = joinPayloadSchema.safeParse(join({ platform: 'ios', legacyField: true }));
+    expect(result.success).toBe(true);
+    expect(result.success && result.data).not.toHaveProperty('legacyField');
+  });
+
+  it('should reject missing, oversized and mistyped fields', () => {
+    expect(joinPayloadSchema.safeParse(join({ sessionId: '' })).success).toBe(false);
+    expect(joinPayloadSchema.safeParse(join({ tabId: 'x'.repeat(PRESENCE_LIMITS.idLength + 1) })).success).toBe(false);
+    expect(joinPayloadSchema.safeParse(join({ session_mode: 'sleeping' })).success).toBe(false);
+    expect(joinPayloadSchema.safeParse(join({ timestamp: '123' })).success).toBe(false);
+  });
+
+  it('should discriminate WebSocket messages by type', () => {
+    expect(clientMessageSchema.safeParse({ type: 'ping', timestamp: 1 }).success).toBe(true);
+    expect(clientMessageSchema.safeParse({ type: 'teleport' }).success).toBe(false);
+    expect(clientMessageSchema.safeParse({ type: 'auth', customerId: 'shop-1' }).success).toBe(false);
+  });
+});
+
+describe('REST boundary', () => {
+  let fastify: FastifyInstance;
+  let presence: any;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    presence = {
+      handleJoin: jest.fn().mockResolvedValue(undefined),
+      handleLeave: jest.fn().mockResolvedValue(true),
+      getRedisClient: jest.fn(),
+    };
+    const rateLimiter: any = { checkAll: jest.fn().mockResolvedValue({ allowed: true, limits: {} }) };
+    fastify = Fastify();
+    setupRESTEndpoints(fastify, presence, {} as any, rateLimiter);
+    await fastify.ready();
+  });
+
+  afterEach(async () => {
+    await fastify.close();
+    jest.restoreAllMocks();
+  });
+
+  it('should pass a valid join to the presence service', async () => {
+    const response = await fastify.inject({ method: 'POST', url: '/presence/join', payload: join({ extra: 1 }) });
+    expect(response.statusCode).toBe(200);
+    expect(presence.handleJoin).toHaveBeenCalledWith(join({ timestamp: expect.any(Number) }));
+  });
+
+  it('should reject malformed joins with INVALID_PAYLOAD', async () => {
+    const response = await fastify.inject({ method: 'POST', url: '/presence/join', payload: join({ customerId: 42 }) });
+    expect(response.statusCode).toBe(400);
+    expect(response.json()).toMatchObject({ code: 'INVALID_PAYLOAD', details: [expect.stringContaining('customerId')] });
+    expect(presence.handleJoin).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid JSON and oversized bodies with typed errors', async () => {
+    const invalid = await fastify.inject({
+      method: 'POST',
+      url: '/presence/join',
+      headers: { 'content-type': 'application/json' },
+      payload: '{"customerId":',
+    });
+    expect(invalid.statusCode).toBe(400);
+    expect(invalid.json().code).toBe('INVALID_JSON');
+
+    const oversized = await fastify.inject({
+      method: 'POST',
+      url: '/presence/join',
+      payload: join({ userAgent: 'x'.repeat(PRESENCE_LIMITS.maxBodyBytes) }),
+    });
+    expect(oversized.statusCode).toBe(413);
+    expect(oversized.json().code).toBe('PAYLOAD_TOO_LARGE');
+  });
+
+  it('should validate text/plain leave beacons', async () => {
+    const valid = await fastify.inject({
+      method: 'POST',
+      url: '/presence/leave',
+      headers: { 'content-type': 'text/plain' },
+      payload: JSON.stringify(join({ reason: 'tabclose' })),
+    });
+    expect(valid.statusCode).toBe(200);
+    expect(presence.handleLeave).toHaveBeenCalledWith(expect.objectContaining({ sessionId: 'sess-1', reason: 'tabclose' }));
+
+    const malformed = await fastify.inject({
+      method: 'POST',
+      url: '/presence/leave',
+      headers: { 'content-type': 'text/plain' },
+      payload: 'not json',
+    });
+    expect(malformed.statusCode).toBe(400);
+    expect(malformed.json().code).toBe('INVALID_JSON');
+
+    const empty = await fastify.inject({ method: 'POST', url: '/presence/leave', headers: { 'content-type': 'text/plain' }, payload: '' });
+    expect(empty.statusCode).toBe(204);
+  });
+});
+
+describe('REST plan limits', () => {
+  let fastify: FastifyInstance;
+  let presence: any;
+
+  beforeEach(async () => {
+    presence = {
+      handleJoin: jest.fn().mockResolvedValue(undefined),
+      getPresence: jest.fn(async (_customerId: string, sessionId: string) => (sessionId === 'sess-live' ? {} : null)),
+      getActiveCount: jest.fn().mockResolvedValue(2),
+    };
+    const rateLimiter: any = { checkAll: jest.fn().mockResolvedValue({ allowed: true, limits: {} }) };
+    const registry = new CustomerRegistry(
+      new MemoryCustomerStore([
+        {
+          id: 'shop-1',
+          name: 'Shop 1',
+          status: 'active',
+          allowedOrigins: [],
+          apiKeyHash: null,
+          plan: 'free',
+          limits: { maxActiveUsers: 2, maxRequestsPerMinute: null },
+        },
+      ])
+    );
+    fastify = Fastify();
+    setupRESTEndpoints(fastify, presence, {} as any, rateLimiter, registry);
+    await fastify.ready();
+  });
+
+  afterEach(async () => {
+    await fastify.close();
+  });
+
+  it('should reject new sessions once maxActiveUsers is reached', async () => {
+    const response = await fastify.inject({ method: 'POST', url: '/presence/join', payload: join() });
+    expect(response.statusCode).toBe(429);
+    expect(response.headers['retry-after']).toBe('60');
+    expect(response.json().code).toBe('ACTIVE_USERS_LIMIT');
+    expect(presence.handleJoin).not.toHaveBeenCalled();
+  });
+
+  it('should let live sessions re-join at the limit', async () => {
+    const response = await fastify.inject({ method: 'POST', url: '/presence/join', payload: join({ sessionId: 'sess-live' }) });
+    expect(response.statusCode).toBe(200);
+  });
+});
+
+describe('WebSocket boundary', () => {
+  class FakeSocket extends EventEmitter {
+    readyState = 1;
+    sent: any[] = [];
+    send(data: string) {
+      this.sent.push(JSON.parse(data));
+    }
+    ping() {}
+    close() {}
+  }
+
+  it('should answer invalid frames with typed errors and keep the socket', async () => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const wss = new EventEmitter();
+    const presence: any = { getPresence: jest.fn(), cancelDisconnectTimer: jest.fn(), refreshTTL: jest.fn() };
+    new WebSocketServer(wss as any, { registerClient: jest.fn(), unregisterClient: jest.fn() } as any, presence);
+    const ws = new FakeSocket();
+    wss.emit('connection', ws, { url: '/ws/active-users', headers: {} });
+
+    const send = async (frame: string) => {
+      ws.emit('message', Buffer.from(frame));
+      await new Promise((resolve) => setImmediate(resolve));
+      return ws.sent.at(-1);
+    };
+    expect(await send('{oops')).toMatchObject({ type: 'error', code: 'INVALID_JSON' });
+    expect(await send(JSON.stringify({ type: 'auth', customerId: 'shop-1' }))).toMatchObject({ type: 'error', code: 'INVALID_PAYLOAD' });
+    expect(await send(JSON.stringify({ type: 'ping', timestamp: 1, pad: 'x'.repeat(PRESENCE_LIMITS.maxBodyBytes) }))).toMatchObject({
+      type: 'error',
+      code: 'PAYLOAD_TOO_LARGE',
+    });
+    expect(await send(JSON.stringify({ type: 'ping', timestamp: 1 }))).toMatchObject({ type: 'pong' });
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Unit Tests for WebSocket protocol versioning and capability negotiation
+ */
+
+import { EventEmitter } from 'events';
+import { negotiateProtocol } from '../../modules/active_users/server/utils/protocol.js';
+import {
+  WebSocketServer,
+  WS_CLOSE_PROTOCOL_UNSUPPORTED,
+} from '../../modules/active_users/server/transports/websocket.js';
+import { BroadcastService } from '../../modules/active_users/server/services/broadcast.service.js';
+import { PROTOCOL_VERSION } from '../../modules/active_users/types/Protocol.js';
+
+class FakeSocket extends EventEmitter {
+  readyState = 1;
+  sent: any[] = [];
+  closed: { code?: number; reason?: string } | null = null;
+  send = jest.fn((data: string) => {
+    this.sent.push(JSON.parse(data));
+  });
+  ping() {}
+  close(code?: number, reason?: string) {
+    this.closed = { ...(code !== undefined && { code }), ...(reason !== undefined && { reason }) };
+    this.readyState = 3;
+  }
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('negotiateProtocol', () => {
+  it('should treat a missing version as legacy v1 without capabilities', () => {
+    expect(negotiateProtocol(undefined, undefined, 1)).toEqual({ version: 1, capabilities: [] });
+  });
+
+  it('should keep only capabilities known to the server', () => {
+    expect(negotiateProtocol(2, ['page_presence', 'teleport'], 1)).toEqual({
+      version: 2,
+      capabilities: ['page_presence'],
+    });
+  });
+
+  it('should serve newer clients at the server version', () => {
+    expect(negotiateProtocol(PROTOCOL_VERSION + 3, [], 1)).toMatchObject({ version: PROTOCOL_VERSION });
+  });
+
+  it('should reject clients older than the minimum version', () => {
+    expect(negotiateProtocol(undefined, [], 2)).toMatchObject({
+      code: 'PROTOCOL_UNSUPPORTED',
+      minVersion: 2,
+      maxVersion: PROTOCOL_VERSION,
+    });
+  });
+});
+
+describe('WebSocket protocol negotiation', () => {
+  let wss: EventEmitter;
+  let presence: any;
+  let broadcast: any;
+
+  const setup = (minProtocolVersion: number) => {
+    new WebSocketServer(wss as any, broadcast, presence, null, null, 10000, minProtocolVersion);
+  };
+  const authenticate = async (message: Record<string, unknown>) => {
+    const ws = new FakeSocket();
+    wss.emit('connection', ws, { url: '/ws/active-users', headers: {} });
+    ws.emit('message', Buffer.from(JSON.stringify({ type: 'auth', customerId: 'shop-1', sessionId: 'sess-1', tabId: 'tab-1', ...message })));
+    await flush();
+    return ws;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    wss = new EventEmitter();
+    presence = {
+      getPresence: jest.fn().mockResolvedValue(null),
+      cancelDisconnectTimer: jest.fn(),
+      refreshTTL: jest.fn().mockResolvedValue(undefined),
+    };
+    broadcast = { registerClient: jest.fn(), unregisterClient: jest.fn() };
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should echo the negotiated protocol in hello', async () => {
+    setup(1);
+    const ws = await authenticate({ version: PROTOCOL_VERSION, capabilities: ['metrics_breakdown'] });
+    expect(ws.sent.at(-1)).toEqual(
+      expect.objectContaining({ type: 'hello', version: PROTOCOL_VERSION, capabilities: ['metrics_breakdown'] })
+    );
+    expect(broadcast.registerClient).toHaveBeenCalledWith('shop-1', ws, ['metrics_breakdown']);
+  });
+
+  it('should serve legacy clients the v1 hello', async () => {
+    setup(1);
+    const ws = await authenticate({});
+    const hello = ws.sent.at(-1);
+    expect(hello.type).toBe('hello');
+    expect(hello).not.toHaveProperty('version');
+    expect(broadcast.registerClient).toHaveBeenCalledWith('shop-1', ws, []);
+  });
+
+  it('should reject outdated clients with a structured error', async () => {
+    setup(2);
+    const ws = await authenticate({});
+    expect(ws.sent.at(-1)).toEqual({
+      type: 'error',
+      code: 'PROTOCOL_UNSUPPORTED',
+      message: expect.any(String),
+      minVersion: 2,
+      maxVersion: PROTOCOL_VERSION,
+    });
+    expect(ws.closed).toEqual({ code: WS_CLOSE_PROTOCOL_UNSUPPORTED, reason: 'PROTOCOL_UNSUPPORTED' });
+    expect(broadcast.registerClient).not.toHaveBeenCalled();
+  });
+
+  it('should ignore page fields from clients without page_presence', async () => {
+    setup(1);
+    const refresh = (ws: FakeSocket) =>
+      ws.emit('message', Buffer.from(JSON.stringify({
+        type: 'ttl_refresh', customerId: 'shop-1', sessionId: 'sess-1', tabId: 'tab-1', timestamp: Date.now(), page_path: '/pricing',
+      })));
+    refresh(await authenticate({}));
+    refresh(await authenticate({ version: PROTOCOL_VERSION, capabilities: ['page_presence'] }));
+    await flush();
+    expect(presence.refreshTTL.mock.calls[0][4]).toBeUndefined();
+    expect(presence.refreshTTL.mock.calls[1][4]).toEqual({ path: '/pricing', title: undefined });
+  });
+});
+
+describe('BroadcastService capability downgrade', () => {
+  it('should only send the breakdown to clients that announced metrics_breakdown', async () => {
+    const redis: any = {
+      publishMetrics: jest.fn().mockResolvedValue(undefined),
+      subscribeToMetrics: jest.fn().mockResolvedValue(undefined),
+      unsubscribeFromMetrics: jest.fn().mockResolvedValue(undefined),
+    };
+    const service = new BroadcastService(redis);
+    const modern = new FakeSocket();
+    const legacy = new FakeSocket();
+    service.registerClient('shop-1', modern, ['metrics_breakdown']);
+    service.registerClient('shop-1', legacy);
+    const breakdown = { platform: { ios: 1 }, browser: {}, device: {}, session_mode: {}, desktop_mode: 0 };
+    await service.broadcastMetrics('shop-1', 1, 1, breakdown);
+    expect(modern.sent[0].data.breakdown).toEqual(breakdown);
+    expect(legacy.sent[0].data).not.toHaveProperty('breakdown');
+    expect(legacy.sent[0].data.count).toBe(1);
+  });
+});
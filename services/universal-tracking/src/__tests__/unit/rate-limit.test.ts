@@ -0,0 +1,252 @@
+/**
+ * Unit Tests for Rate Limiting (in-memory + Redis sliding window, headers, client backoff)
+ */
+
+import {
+  MultiTierRateLimiter,
+  RateLimiter,
+  RedisRateLimiter,
+  mostRestrictiveTier,
+  setRateLimitHeaders,
+} from '../../modules/active_users/server/utils/rate-limit.js';
+import {
+  BackoffState,
+  parseRetryAfter,
+} from '../../modules/active_users/client/transport/backoff.js';
+import { PollingClient } from '../../modules/active_users/client/transport/polling.js';
+
+describe('RedisRateLimiter', () => {
+  let mockRedisClient: any;
+
+  beforeEach(() => {
+    mockRedisClient = {
+      eval: jest.fn().mockResolvedValue([1, 1, Date.now() + 60000]),
+      del: jest.fn().mockResolvedValue(1),
+    };
+  });
+
+  it('should run the sliding window atomically in one script', async () => {
+    const limiter = new RedisRateLimiter(mockRedisClient, {
+      windowMs: 60000,
+      maxRequests: 100,
+      keyPrefix: 'ip',
+    });
+
+    const result = await limiter.check({ ip: '1.2.3.4' });
+
+    expect(mockRedisClient.eval).toHaveBeenCalledTimes(1);
+    const [script, options] = mockRedisClient.eval.mock.calls[0];
+    expect(script).toContain('ZREMRANGEBYSCORE');
+    expect(options.keys).toEqual(['ratelimit:ip:1.2.3.4']);
+    expect(options.arguments.slice(0, 2)).toEqual(['60000', '100']);
+    expect(result).toMatchObject({ allowed: true, limit: 100, remaining: 99 });
+  });
+
+  it('should report blocked requests with remaining 0', async () => {
+    const resetTime = Date.now() + 42000;
+    mockRedisClient.eval.mockResolvedValue([0, 100, resetTime]);
+    const limiter = new RedisRateLimiter(mockRedisClient, { windowMs: 60000, maxRequests: 100 });
+
+    const result = await limiter.check({ ip: '1.2.3.4' });
+
+    expect(result).toEqual({ allowed: false, limit: 100, remaining: 0, resetTime });
+  });
+
+  it('should fail open when Redis is unavailable', async () => {
+    mockRedisClient.eval.mockRejectedValue(new Error('Connection refused'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const limiter = new RedisRateLimiter(mockRedisClient, { windowMs: 60000, maxRequests: 100 });
+
+    const result = await limiter.check({ ip: '1.2.3.4' });
+
+    expect(result.allowed).toBe(true);
+    expect(result.remaining).toBe(100);
+  });
+});
+
+describe('MultiTierRateLimiter', () => {
+  it('should build Redis limiters per tier when the redis backend is selected', async () => {
+    const mockRedisClient = { eval: jest.fn().mockResolvedValue([1, 1, Date.now() + 60000]) };
+    const limiter = new MultiTierRateLimiter({ backend: 'redis', redis: mockRedisClient });
+    limiter.addLimiter('ip', { windowMs: 60000, maxRequests: 100, keyGenerator: (req) => req.ip });
+    limiter.addLimiter('customer', {
+      windowMs: 60000,
+      maxRequests: 5000,
+      keyGenerator: (req) => req.body?.customerId,
+    });
+
+    const result = await limiter.checkAll({ ip: '1.2.3.4', body: { customerId: 'shop-1' } });
+
+    expect(result.allowed).toBe(true);
+    expect(Object.keys(result.limits)).toEqual(['ip', 'customer']);
+    expect(limiter.getLimiter('ip')).toBeInstanceOf(RedisRateLimiter);
+    const keys = mockRedisClient.eval.mock.calls.map(([, options]: any) => options.keys[0]);
+    expect(keys).toEqual(['ratelimit:ip:1.2.3.4', 'ratelimit:customer:shop-1']);
+  });
+
+  it('should stop at the first blocking tier', async () => {
+    const limiter = new MultiTierRateLimiter();
+    limiter.addLimiter('ip', { windowMs: 60000, maxRequests: 1, keyGenerator: (req) => req.ip });
+
+    await limiter.checkAll({ ip: '1.2.3.4' });
+    const result = await limiter.checkAll({ ip: '1.2.3.4' });
+
+    expect(limiter.getLimiter('ip')).toBeInstanceOf(RateLimiter);
+    expect(result.allowed).toBe(false);
+    expect(result.blockedBy).toBe('ip');
+    limiter.destroy();
+  });
+
+  it('should apply per-key limits (plan) and fall back to maxRequests', async () => {
+    const plans: Record<string, number | null> = { 'shop-pro': 3, 'shop-free': null };
+    const limiter = new MultiTierRateLimiter();
+    limiter.addLimiter('customer', {
+      windowMs: 60000,
+      maxRequests: 1,
+      keyGenerator: (req) => req.body.customerId,
+      maxRequestsFor: async (req) => plans[req.body.customerId] ?? null,
+    });
+    const check = (customerId: string) => limiter.checkAll({ body: { customerId } });
+
+    for (let i = 0; i < 3; i++) {
+      expect((await check('shop-pro')).allowed).toBe(true);
+    }
+    const blocked = await check('shop-pro');
+    expect(blocked.allowed).toBe(false);
+    expect(blocked.limits.customer!.limit).toBe(3);
+
+    expect((await check('shop-free')).allowed).toBe(true);
+    expect((await check('shop-free')).allowed).toBe(false);
+    limiter.destroy();
+  });
+
+  it('should require a Redis client for the redis backend', () => {
+    expect(() => new MultiTierRateLimiter({ backend: 'redis' })).toThrow('Redis client');
+  });
+});
+
+describe('setRateLimitHeaders', () => {
+  const createReply = () => {
+    const headers: Record<string, string> = {};
+    return { headers, header: jest.fn((name: string, value: string) => (headers[name] = value)) };
+  };
+
+  it('should emit standard and legacy headers for allowed requests', () => {
+    const reply = createReply();
+    setRateLimitHeaders(
+      reply,
+      { allowed: true, limit: 100, remaining: 40, resetTime: Date.now() + 30000 },
+      'customer'
+    );
+
+    expect(reply.headers).toMatchObject({
+      'RateLimit-Limit': '100',
+      'RateLimit-Remaining': '40',
+      'RateLimit-Reset': '30',
+      'X-RateLimit-Limit': '100',
+      'X-RateLimit-Scope': 'customer',
+    });
+    expect(reply.headers['Retry-After']).toBeUndefined();
+  });
+
+  it('should add Retry-After (at least 1s) when blocked', () => {
+    const reply = createReply();
+    setRateLimitHeaders(reply, { allowed: false, limit: 100, remaining: 0, resetTime: Date.now() }, 'ip');
+
+    expect(reply.headers['Retry-After']).toBe('1');
+  });
+
+  it('should pick the tier with the fewest remaining requests', () => {
+    const resetTime = Date.now() + 60000;
+    expect(
+      mostRestrictiveTier({
+        ip: { allowed: true, limit: 100, remaining: 90, resetTime },
+        customer: { allowed: true, limit: 5000, remaining: 12, resetTime },
+      })
+    ).toBe('customer');
+  });
+});
+
+describe('Client backoff', () => {
+  it('should parse Retry-After as seconds or HTTP date', () => {
+    expect(parseRetryAfter('45')).toBe(45000);
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+    const date = parseRetryAfter(new Date(Date.now() + 10000).toUTCString());
+    expect(date).toBeGreaterThan(8000);
+    expect(date).toBeLessThanOrEqual(10000);
+  });
+
+  it('should wait at least Retry-After plus bounded jitter', () => {
+    const state = new BackoffState();
+    const delay = state.backoff(10000);
+
+    expect(delay).toBeGreaterThanOrEqual(10000);
+    expect(delay).toBeLessThanOrEqual(13000);
+    expect(state.isBlocked()).toBe(true);
+
+    state.reset();
+    expect(state.isBlocked()).toBe(false);
+    expect(state.getAttempt()).toBe(0);
+  });
+});
+
+describe('PollingClient', () => {
+  let fetchMock: jest.Mock;
+  const response = (status: number, headers: Record<string, string> = {}) => ({
+    status,
+    ok: status < 400,
+    headers: new Headers(headers),
+    json: async () => ({ count: 1 }),
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(Math, 'random').mockReturnValue(0); // No jitter
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    fetchMock = jest.fn().mockResolvedValue(response(200));
+    global.fetch = fetchMock as any;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should keep a rate limit pause when the interval changes', async () => {
+    const onMetrics = jest.fn();
+    const client = new PollingClient('https://api.example', 'shop-1');
+    fetchMock.mockResolvedValueOnce(response(429, { 'Retry-After': '30' }));
+
+    client.start(10000, onMetrics);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    client.updateInterval(5000);
+    await jest.advanceTimersByTimeAsync(29000);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(client.isPolling()).toBe(true);
+
+    // Pause over - resumes with the new interval
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(onMetrics).toHaveBeenCalledTimes(2);
+    client.stop();
+  });
+
+  it('should not resume after stop() during a pause', async () => {
+    const client = new PollingClient('https://api.example', 'shop-1');
+    fetchMock.mockResolvedValueOnce(response(429, { 'Retry-After': '30' }));
+
+    client.start(10000, jest.fn());
+    await jest.advanceTimersByTimeAsync(0);
+    client.stop();
+    expect(client.isPolling()).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Unit Tests for Readiness Probe (dependency checks + shutdown drain)
+ */
+
+import { ReadinessProbe } from '../../core/observability/readiness.js';
+
+describe('ReadinessProbe', () => {
+  it('should be ready when all required dependencies are up', async () => {
+    const probe = new ReadinessProbe(100);
+    probe.register('redis', async () => true);
+    probe.register('database', async () => true);
+
+    const result = await probe.check();
+
+    expect(result.status).toBe('ready');
+    expect(result.checks).toEqual({ database: true, redis: true, clickhouse: false });
+    expect(result.details?.clickhouse).toEqual({ status: 'disabled', required: false });
+  });
+
+  it('should be not ready when a required dependency is down', async () => {
+    const probe = new ReadinessProbe(100);
+    probe.register('redis', async () => true);
+    probe.register('database', async () => {
+      throw new Error('ECONNREFUSED');
+    });
+
+    const result = await probe.check();
+
+    expect(result.status).toBe('not_ready');
+    expect(result.details?.database).toMatchObject({ status: 'down', error: 'ECONNREFUSED' });
+  });
+
+  it('should ignore optional dependencies that are down', async () => {
+    const probe = new ReadinessProbe(100);
+    probe.register('redis', async () => true);
+    probe.register('clickhouse', async () => false, false);
+
+    const result = await probe.check();
+
+    expect(result.status).toBe('ready');
+    expect(result.checks.clickhouse).toBe(false);
+  });
+
+  it('should time out hanging checks', async () => {
+    const probe = new ReadinessProbe(20);
+    probe.register('redis', () => new Promise<boolean>(() => {}));
+
+    const result = await probe.check();
+
+    expect(result.status).toBe('not_ready');
+    expect(result.details?.redis?.error).toContain('Timed out');
+  });
+
+  it('should report not ready once shutdown starts', async () => {
+    const probe = new ReadinessProbe(100);
+    probe.register('redis', async () => true);
+
+    probe.markShuttingDown();
+    const result = await probe.check();
+
+    expect(result.status).toBe('not_ready');
+    expect(result.shuttingDown).toBe(true);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Unit Tests for HMAC Request Signing
+ */
+
+import { buildCanonicalString, deriveSiteKey, signPayload } from '../../core/security/hmac.js';
+import { RequestVerifier, SigningError, defaultSignedRoutes } from '../../core/security/request-signing.js';
+import { RequestSigner } from '../../modules/active_users/client/transport/signing.js';
+
+const SECRET = 'test-hmac-secret-that-is-at-least-32-chars';
+
+describe('RequestVerifier', () => {
+  let mockRedisClient: any;
+  let verifier: RequestVerifier;
+
+  const sign = (siteId: string, body: string, timestamp: number = Date.now()) => ({
+    'content-type': 'application/json',
+    'x-site-id': siteId,
+    'x-timestamp': String(timestamp),
+    'x-signature': signPayload(deriveSiteKey(SECRET, siteId), buildCanonicalString(timestamp, siteId, body)),
+  });
+
+  const expectCode = async (promise: Promise<unknown>, code: string) => {
+    await expect(promise).rejects.toBeInstanceOf(SigningError);
+    await expect(promise).rejects.toMatchObject({ code });
+  };
+
+  beforeEach(() => {
+    mockRedisClient = {
+      set: jest.fn().mockResolvedValue('OK'),
+    };
+    verifier = new RequestVerifier(SECRET, 300, mockRedisClient);
+  });
+
+  it('should accept a correctly signed join', async () => {
+    const payload = { customerId: 'cust-1', sessionId: 'sess_1', tabId: 'tab_1' };
+    const raw = JSON.stringify(payload);
+
+    await expect(
+      verifier.verify(defaultSignedRoutes['/presence/join']!, sign('cust-1', raw), payload, raw)
+    ).resolves.toBeUndefined();
+    expect(mockRedisClient.set).toHaveBeenCalledWith(
+      expect.stringMatching(/^SEEN_SIGNATURE:/),
+      '1',
+      { NX: true, EX: 600 }
+    );
+  });
+
+  it('should reject a tampered body', async () => {
+    const raw = JSON.stringify({ customerId: 'cust-1', sessionId: 'sess_1' });
+    const tampered = { customerId: 'cust-1', sessionId: 'sess_2' };
+
+    await expectCode(
+      verifier.verify(defaultSignedRoutes['/presence/join']!, sign('cust-1', raw), tampered, JSON.stringify(tampered)),
+      'INVALID_SIGNATURE'
+    );
+  });
+
+  it('should reject timestamps outside the skew window', async () => {
+    const payload = { customerId: 'cust-1' };
+    const raw = JSON.stringify(payload);
+    const headers = sign('cust-1', raw, Date.now() - 301 * 1000);
+
+    await expectCode(verifier.verify(defaultSignedRoutes['/presence/join']!, headers, payload, raw), 'TIMESTAMP_OUT_OF_WINDOW');
+  });
+
+  it('should reject replayed signatures', async () => {
+    mockRedisClient.set.mockResolvedValue(null);
+    const payload = { customerId: 'cust-1' };
+    const raw = JSON.stringify(payload);
+
+    await expectCode(verifier.verify(defaultSignedRoutes['/presence/join']!, sign('cust-1', raw), payload, raw), 'REPLAYED_REQUEST');
+  });
+
+  it('should reject a signature made with another site key', async () => {
+    const payload = { customerId: 'cust-1' };
+    const raw = JSON.stringify(payload);
+    const headers = { ...sign('cust-2', raw), 'x-site-id': 'cust-1' };
+
+    await expectCode(verifier.verify(defaultSignedRoutes['/presence/join']!, headers, payload, raw), 'INVALID_SIGNATURE');
+  });
+
+  it('should reject unsigned text/plain leave beacons', async () => {
+    const raw = JSON.stringify({ customerId: 'cust-1', sessionId: 'sess_1', tabId: 'tab_1' });
+
+    await expectCode(
+      verifier.verify(defaultSignedRoutes['/presence/leave']!, { 'content-type': 'text/plain' }, raw, raw),
+      'MISSING_SIGNATURE'
+    );
+  });
+
+  it('should report clients that cannot sign apart from missing signatures', async () => {
+    const payload = { customerId: 'cust-1' };
+    const raw = JSON.stringify(payload);
+
+    await expectCode(
+      verifier.verify(defaultSignedRoutes['/presence/join']!, { 'x-signing-unavailable': '1' }, payload, raw),
+      'SIGNING_UNAVAILABLE'
+    );
+  });
+
+  describe('leave beacons', () => {
+    const beacon = async (joinedAt: number, sessionId = 'sess_1') => {
+      jest.spyOn(Date, 'now').mockReturnValue(joinedAt);
+      const signer = new RequestSigner('cust-1', deriveSiteKey(SECRET, 'cust-1'));
+      await signer.prepareBeacon('sess_1', 'tab_1');
+      jest.restoreAllMocks();
+      const body = {
+        customerId: 'cust-1',
+        sessionId,
+        tabId: 'tab_1',
+        timestamp: Date.now(),
+        beaconSignature: signer.getBeaconSignature()!,
+      };
+      return JSON.stringify(body);
+    };
+    const verifyBeacon = (raw: string) =>
+      verifier.verify(defaultSignedRoutes['/presence/leave']!, { 'content-type': 'text/plain' }, raw, raw);
+
+    it('should accept a signature precomputed on join, past the skew window', async () => {
+      await expect(verifyBeacon(await beacon(Date.now() - 30 * 60 * 1000))).resolves.toBeUndefined();
+      // Single use for as long as it is accepted (skew + max age)
+      expect(mockRedisClient.set).toHaveBeenCalledWith(expect.any(String), '1', { NX: true, EX: 3900 });
+    });
+
+    it('should reject a beacon signature for another session', async () => {
+      await expectCode(verifyBeacon(await beacon(Date.now(), 'sess_2')), 'INVALID_SIGNATURE');
+    });
+
+    it('should reject a beacon signature older than the max age', async () => {
+      await expectCode(verifyBeacon(await beacon(Date.now() - 3601 * 1000)), 'TIMESTAMP_OUT_OF_WINDOW');
+    });
+  });
+
+  it('should accept a CollectRequest body signature over the events array', async () => {
+    const timestamp = Date.now();
+    const events = [{ event_type: 'placeholder', timestamp }];
+    const signature = signPayload(
+      deriveSiteKey(SECRET, 'site-1'),
+      buildCanonicalString(timestamp, 'site-1', JSON.stringify(events))
+    );
+    const body = { site_id: 'site-1', timestamp, events, signature };
+
+    await expect(
+      verifier.verify(defaultSignedRoutes['/api/events']!, { 'content-type': 'application/json' }, body, JSON.stringify(body))
+    ).resolves.toBeUndefined();
+  });
+});
+
+describe('RequestSigner', () => {
+  it('should mark requests it cannot sign', async () => {
+    await expect(new RequestSigner('cust-1', '').sign('{}')).resolves.toEqual({ 'X-Signing-Unavailable': '1' });
+  });
+
+  it('should produce headers the server accepts', async () => {
+    const raw = JSON.stringify({ customerId: 'cust-1' });
+    const headers = await new RequestSigner('cust-1', deriveSiteKey(SECRET, 'cust-1')).sign(raw);
+    const lower = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+
+    await expect(
+      new RequestVerifier(SECRET, 300, { set: jest.fn().mockResolvedValue('OK') }).verify(
+        defaultSignedRoutes['/presence/join']!,
+        lower,
+        JSON.parse(raw),
+        raw
+      )
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Unit Tests for the npm SDK entry points (packages/active-users-sdk)
+ */
+
+import { execFileSync, spawnSync } from 'child_process';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import * as core from '../../../../../packages/active-users-sdk/src/index.js';
+import * as passiveActive from '../../../../../packages/active-users-sdk/src/passive-active.js';
+import * as widget from '../../../../../packages/active-users-sdk/src/widget.js';
+import * as scriptTag from '../../modules/active_users/client/index.js';
+
+describe('npm SDK entry points', () => {
+  it('should keep optional modules out of the core entry', () => {
+    expect(Object.keys(core)).toEqual(['ActiveUsersClient']);
+    expect(typeof passiveActive.createPassiveActiveManager).toBe('function');
+    expect(typeof widget.defineActiveUsersCount).toBe('function');
+  });
+
+  it('should expose the same client as the script-tag bundle', () => {
+    // Script-tag client = core client with PassiveActive wired in
+    expect(scriptTag.ActiveUsersClient.prototype).toBeInstanceOf(core.ActiveUsersClient);
+    expect(scriptTag.defineActiveUsersCount).toBe(widget.defineActiveUsersCount);
+  });
+});
+
+describe('Built npm SDK', () => {
+  const packageRoot = join(__dirname, '../../../../../packages/active-users-sdk');
+  let outDir: string;
+
+  beforeAll(() => {
+    outDir = mkdtempSync(join(tmpdir(), 'active-users-sdk-'));
+    // Package tsup.config.ts (entries, formats), into a temp dir
+    const script = `
+      import { build } from 'tsup';
+      await build({ outDir: ${JSON.stringify(outDir)}, dts: false, sourcemap: false, silent: true, onSuccess: undefined });
+    `;
+    execFileSync(process.execPath, ['--input-type=module', '-e', script], { cwd: packageRoot, timeout: 120000 });
+  }, 150000);
+
+  afterAll(() => {
+    rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it.each(['index.js', 'index.cjs', 'widget.js', 'passive-active.js'])(
+    'should let Node exit after importing %s',
+    (entry) => {
+      // A timer started on import keeps the process alive until the timeout kills it
+      const result = spawnSync(
+        process.execPath,
+        ['--input-type=module', '-e', `await import(${JSON.stringify(join(outDir, entry))})`],
+        { timeout: 10000 }
+      );
+      expect(result.stderr.toString()).toBe('');
+      expect(result.signal).toBeNull();
+      expect(result.status).toBe(0);
+    },
+    15000
+  );
+});
+
@@ -0,0 +1,201 @@
+/**
+ * Unit Tests for the SSE metrics stream (auth, snapshot, live updates, Last-Event-ID resume)
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { RedisAdapter } from '../../modules/active_users/server/adapters/redis.js';
+import { BroadcastService } from '../../modules/active_users/server/services/broadcast.service.js';
+import { setupSSEEndpoint } from '../../modules/active_users/server/transports/sse.js';
+import { StreamTokenService } from '../../modules/active_users/server/utils/stream-token.js';
+import { redactUrl, serializeRequest } from '../../core/observability/logger.js';
+import { CustomerRegistry, MemoryCustomerStore, hashApiKey } from '../../modules/customers/index.js';
+
+/**
+ * Open a stream and collect frames until `frames` events arrived
+ */
+function readStream(
+  port: number,
+  path: string,
+  headers: Record<string, string>,
+  frames: number
+): Promise<{ status: number; events: Array<{ id?: string; event: string; data: any }>; close: () => void }> {
+  return new Promise((resolve, reject) => {
+    const req = http.get({ port, path, headers }, (res) => {
+      const events: Array<{ id?: string; event: string; data: any }> = [];
+      let buffer = '';
+      const close = () => req.destroy();
+      if (res.statusCode !== 200) {
+        resolve({ status: res.statusCode!, events, close });
+        res.resume();
+        return;
+      }
+      res.on('data', (chunk) => {
+        buffer += chunk.toString();
+        let index;
+        while ((index = buffer.indexOf('\n\n')) !== -1) {
+          const frame = buffer.slice(0, index);
+          buffer = buffer.slice(index + 2);
+          const fields: Record<string, string> = Object.fromEntries(
+            frame
+              .split('\n')
+              .filter((line) => line && !line.startsWith(':'))
+              .map((line) => [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 2)])
+          );
+          if (!fields.event || !fields.data) continue;
+          events.push({ ...(fields.id && { id: fields.id }), event: fields.event, data: JSON.parse(fields.data) });
+          if (events.length >= frames) resolve({ status: 200, events, close });
+        }
+      });
+    });
+    req.on('error', reject);
+  });
+}
+
+describe('GET /active-users/stream', () => {
+  let fastify: FastifyInstance;
+  let broadcast: BroadcastService;
+  let streamTokens: StreamTokenService;
+  let port: number;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    const store = new MemoryCustomerStore([
+      {
+        id: 'shop-1',
+        name: 'Shop 1',
+        status: 'active',
+        allowedOrigins: [],
+        apiKeyHash: hashApiKey('secret-key'),
+        plan: 'pro',
+        limits: { maxActiveUsers: 1000, maxRequestsPerMinute: 5000 },
+      },
+    ]);
+    broadcast = new BroadcastService(new RedisAdapter({ publish: jest.fn().mockResolvedValue(1) }));
+    const presence: any = {
+      getActiveCount: jest.fn().mockResolvedValue(12),
+      getUniqueUsers: jest.fn().mockResolvedValue({ uniqueUsers: 10, identifiedUsers: 4 }),
+    };
+    const ema: any = { getEMA: jest.fn().mockResolvedValue(10.5) };
+    streamTokens = new StreamTokenService('stream-token-secret-for-unit-tests-only', 300);
+    fastify = Fastify();
+    setupSSEEndpoint(
+      fastify,
+      broadcast,
+      presence,
+      ema,
+      new CustomerRegistry(store),
+      { heartbeatInterval: 15000, maxStreamsPerCustomer: 20 },
+      streamTokens
+    );
+    await fastify.listen({ port: 0, host: '127.0.0.1' });
+    port = (fastify.server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await fastify.close();
+    jest.restoreAllMocks();
+  });
+
+  it('should reject requests without a valid API key', async () => {
+    const missing = await readStream(port, '/active-users/stream?customerId=shop-1', {}, 1);
+    const wrong = await readStream(port, '/active-users/stream?customerId=shop-1', { Authorization: 'Bearer nope' }, 1);
+
+    expect(missing.status).toBe(401);
+    expect(wrong.status).toBe(403);
+  });
+
+  it('should not accept the API key in the URL', async () => {
+    const { status } = await readStream(port, '/active-users/stream?customerId=shop-1&token=secret-key', {}, 1);
+
+    expect(status).toBe(401);
+  });
+
+  it('should issue stream tokens for the API key owner only', async () => {
+    const denied = await fastify.inject({
+      method: 'POST',
+      url: '/active-users/stream/token',
+      headers: { Authorization: 'Bearer nope' },
+      payload: { customerId: 'shop-1' },
+    });
+    const issued = await fastify.inject({
+      method: 'POST',
+      url: '/active-users/stream/token',
+      headers: { Authorization: 'Bearer secret-key' },
+      payload: { customerId: 'shop-1' },
+    });
+
+    expect(denied.statusCode).toBe(403);
+    expect(issued.statusCode).toBe(200);
+    expect(issued.headers['cache-control']).toBe('no-store');
+    const { token, expiresAt } = issued.json();
+    expect(expiresAt).toBeGreaterThan(Date.now());
+
+    const stream = await readStream(port, `/active-users/stream?customerId=shop-1&token=${token}`, {}, 2);
+    expect(stream.status).toBe(200);
+    expect(stream.events[0]!.event).toBe('connected');
+    stream.close();
+
+    // Scoped to one customer's stream
+    const other = await readStream(port, `/active-users/stream?customerId=shop-2&token=${token}`, {}, 1);
+    expect(other.status).toBe(401);
+  });
+
+  it('should reject expired stream tokens', async () => {
+    const { token } = new StreamTokenService('stream-token-secret-for-unit-tests-only', -1).issue('shop-1');
+    const response = await fastify.inject({ method: 'GET', url: `/active-users/stream?customerId=shop-1&token=${token}` });
+
+    expect(response.statusCode).toBe(401);
+    expect(response.json().code).toBe('STREAM_TOKEN_EXPIRED');
+  });
+
+  it('should send a snapshot, then live metrics updates', async () => {
+    const path = '/active-users/stream?customerId=shop-1';
+    const headers = { Authorization: 'Bearer secret-key' };
+    const initial = await readStream(port, path, headers, 2);
+
+    expect(initial.events[0]!.event).toBe('connected');
+    expect(initial.events[1]).toMatchObject({ event: 'metrics:update', data: { count: 12, ema: 10.5, uniqueUsers: 10, identifiedUsers: 4 } });
+    initial.close();
+
+    const live = readStream(port, path, headers, 3);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await broadcast.broadcastMetrics('shop-1', 15, 11);
+    const { events, close } = await live;
+
+    expect(events[2]).toMatchObject({ event: 'metrics:update', data: { count: 15, ema: 11 } });
+    expect(events[2]!.id).toBe(String(events[2]!.data.timestamp));
+    close();
+  });
+
+  it('should replay missed updates after Last-Event-ID', async () => {
+    await broadcast.broadcastMetrics('shop-1', 1, 1);
+    const [first] = broadcast.getMetricsSince('shop-1', 0).updates;
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await broadcast.broadcastMetrics('shop-1', 2, 1.2);
+
+    const { events, close } = await readStream(
+      port,
+      '/active-users/stream?customerId=shop-1',
+      { Authorization: 'Bearer secret-key', 'Last-Event-ID': String(first!.timestamp) },
+      2
+    );
+
+    expect(events[1]).toMatchObject({ event: 'metrics:update', data: { count: 2, ema: 1.2 } });
+    close();
+  });
+});
+
+describe('Request log serializer', () => {
+  it('should redact tokens from logged URLs', () => {
+    expect(redactUrl('/active-users/stream?customerId=shop-1&token=abc.def')).toBe(
+      '/active-users/stream?customerId=shop-1&token=%5BREDACTED%5D'
+    );
+    expect(redactUrl('/ws/active-users?token=abc')).not.toContain('abc');
+    expect(redactUrl('/active-users-sdk.js?customer_id=shop-1')).toBe('/active-users-sdk.js?customer_id=shop-1');
+    expect(
+      serializeRequest({ method: 'GET', url: '/x?token=secret', hostname: 'h', ip: '1.2.3.4', socket: { remotePort: 5 } })
+    ).toEqual({ method: 'GET', url: '/x?token=%5BREDACTED%5D', hostname: 'h', remoteAddress: '1.2.3.4', remotePort: 5 });
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Unit Tests for identified users (identify() fields, unique users counters)
+ */
+
+import { PRESENCE_LIMITS, joinPayloadSchema, ttlRefreshMessageSchema } from '@universal-tracking/schemas';
+import { RedisAdapter } from '../../modules/active_users/server/adapters/redis.js';
+import { PresenceService } from '../../modules/active_users/server/services/presence.service.js';
+import { normalizeTraits, normalizeUserId } from '../../modules/active_users/client/utils/identity.js';
+import type { PresenceData } from '../../modules/active_users/types/ActiveUser.js';
+import { LuaRedis } from '../helpers/lua-redis.js';
+
+const join = (sessionId: string, overrides: Record<string, unknown> = {}) => ({
+  customerId: 'shop-1',
+  sessionId,
+  tabId: `tab-${sessionId}`,
+  timestamp: Date.now(),
+  ...overrides,
+});
+
+describe('Identity schemas', () => {
+  it('should accept userId and primitive traits on join and ttl_refresh', () => {
+    const user = { userId: 'user-42', userTraits: { plan: 'pro', seats: 3, trial: false } };
+    expect(joinPayloadSchema.safeParse(join('sess-1', user)).success).toBe(true);
+    expect(ttlRefreshMessageSchema.safeParse({ type: 'ttl_refresh', ...join('sess-1', user) }).success).toBe(true);
+  });
+
+  it('should reject oversized ids and trait sets', () => {
+    const traits = Object.fromEntries(Array.from({ length: PRESENCE_LIMITS.maxUserTraits + 1 }, (_, i) => [`t${i}`, i]));
+    expect(joinPayloadSchema.safeParse(join('sess-1', { userId: 'x'.repeat(PRESENCE_LIMITS.idLength + 1) })).success).toBe(false);
+    expect(joinPayloadSchema.safeParse(join('sess-1', { userId: 'u', userTraits: traits })).success).toBe(false);
+    expect(joinPayloadSchema.safeParse(join('sess-1', { userId: 'u', userTraits: { address: { city: 'x' } } })).success).toBe(false);
+  });
+});
+
+describe('SDK identity normalizing', () => {
+  it('should trim the userId and never truncate it', () => {
+    expect(normalizeUserId('  user-42 ')).toBe('user-42');
+    expect(normalizeUserId('')).toBeNull();
+    expect(normalizeUserId(42)).toBeNull();
+    expect(normalizeUserId('x'.repeat(129))).toBeNull();
+  });
+
+  it('should keep only sendable traits', () => {
+    const traits = normalizeTraits({
+      plan: 'pro',
+      seats: 3,
+      admin: true,
+      bio: 'x'.repeat(1000),
+      address: { city: 'Istanbul' },
+      score: NaN,
+      nothing: null,
+    });
+    expect(traits).toEqual({ plan: 'pro', seats: 3, admin: true, bio: 'x'.repeat(256) });
+    expect(normalizeTraits({ nested: [] })).toBeUndefined();
+    const many = normalizeTraits(Object.fromEntries(Array.from({ length: 50 }, (_, i) => [`t${i}`, i])));
+    expect(Object.keys(many!)).toHaveLength(20);
+  });
+});
+
+describe('RedisAdapter user counters', () => {
+  let client: any;
+  let adapter: RedisAdapter;
+
+  const presence = (overrides: Partial<PresenceData> = {}): PresenceData => ({
+    customerId: 'shop-1',
+    sessionId: 'sess-1',
+    tabId: 'tab-1',
+    isLeader: true,
+    createdAt: '2025-10-19 12:00:00',
+    updatedAt: '2025-10-19 12:00:00',
+    lastActivity: 'just now',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    client = {
+      eval: jest.fn().mockResolvedValue(1),
+      get: jest.fn().mockResolvedValue(null),
+    };
+    adapter = new RedisAdapter(client, 600);
+  });
+
+  it('should count an identified session under a hashed user tag', async () => {
+    await adapter.setPresence(presence({ userId: 'user-42' }));
+    const [, sync] = client.eval.mock.calls[2];
+    expect(sync.keys).toEqual(['presence:shop-1:sess-1', 'presence_users:shop-1', 'presence_user_sessions:shop-1']);
+    expect(sync.arguments[1]).toMatch(/^[0-9a-f]{32}$/);
+    expect(sync.arguments[1]).not.toContain('user-42');
+
+    await adapter.setPresence(presence({ sessionId: 'sess-2', userId: 'user-42' }));
+    expect(client.eval.mock.calls[5][1].arguments[1]).toBe(sync.arguments[1]);
+  });
+
+  it('should release the user on leave and for anonymous sessions', async () => {
+    await adapter.setPresence(presence());
+    expect(client.eval.mock.calls[2][1].arguments[1]).toBe('');
+    await adapter.removePresence('shop-1', 'sess-1');
+    const [, release] = client.eval.mock.calls[5];
+    expect(release.keys[1]).toBe('presence_users:shop-1');
+    expect(release.arguments[1]).toBe('');
+  });
+
+  it('should prune and read all counts in one script', async () => {
+    client.eval.mockResolvedValueOnce([1, 2, 3]);
+    await expect(adapter.getUserCounts('shop-1')).resolves.toEqual({ users: 1, sessions: 2, active: 3 });
+    expect(client.eval).toHaveBeenCalledTimes(1);
+    const [script, counts] = client.eval.mock.calls[0];
+    expect(script).toContain('ZREMRANGEBYSCORE');
+    expect(script).toContain('ZCOUNT');
+    expect(counts.keys).toContain('presence_user_sessions:shop-1');
+  });
+});
+
+describe('PresenceService identified users', () => {
+  let store: Map<string, PresenceData>;
+  let redis: any;
+  let service: PresenceService;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    store = new Map();
+    redis = {
+      getPresence: jest.fn(async (_customerId: string, sessionId: string) => store.get(sessionId) ?? null),
+      setPresence: jest.fn(async (data: PresenceData) => {
+        store.set(data.sessionId, data);
+      }),
+      updatePresence: jest.fn(async (data: PresenceData) => {
+        store.set(data.sessionId, data);
+      }),
+      refreshTTL: jest.fn(async () => undefined),
+      cleanupExpiredSessions: jest.fn(async () => 0),
+      getAllPresenceKeys: jest.fn(async () => []),
+      getUserCounts: jest.fn(async () => ({ users: 1, sessions: 2, active: 3 })),
+    };
+    service = new PresenceService(redis);
+  });
+
+  afterEach(() => {
+    service.stopStaleSessionCleanup();
+    jest.restoreAllMocks();
+  });
+
+  it('should count one person on phone and laptop once', async () => {
+    // 3 sessions: phone + laptop of user-42, one anonymous visitor
+    await expect(service.getUniqueUsers('shop-1')).resolves.toEqual({ uniqueUsers: 2, identifiedUsers: 1 });
+  });
+
+  it('should keep the identity across joins until another user is identified', async () => {
+    await service.handleJoin(join('sess-1', { userId: 'user-42', userTraits: { plan: 'pro' } }));
+    await service.handleJoin(join('sess-1'));
+    expect(store.get('sess-1')).toMatchObject({ userId: 'user-42', userTraits: { plan: 'pro' } });
+
+    await service.handleJoin(join('sess-1', { userId: 'user-7' }));
+    expect(store.get('sess-1')!.userId).toBe('user-7');
+    expect(store.get('sess-1')!.userTraits).toBeUndefined();
+  });
+
+  it('should apply identify() sent with a TTL refresh', async () => {
+    await service.handleJoin(join('sess-1'));
+    await service.refreshTTL('shop-1', 'sess-1', 'tab-1', undefined, undefined, { id: 'user-42', traits: { plan: 'pro' } });
+    expect(redis.updatePresence).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user-42', userTraits: { plan: 'pro' } }));
+
+    redis.updatePresence.mockClear();
+    await service.refreshTTL('shop-1', 'sess-1', 'tab-1', undefined, undefined, { id: 'user-42', traits: { plan: 'pro' } });
+    expect(redis.updatePresence).not.toHaveBeenCalled();
+  });
+});
+
+describe('Unique users over time', () => {
+  let service: PresenceService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-10-19T12:00:00Z') });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    service = new PresenceService(new RedisAdapter(new LuaRedis(), 600));
+    service.stopStaleSessionCleanup();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should keep an identified user kept alive by TTL refreshes only', async () => {
+    await service.handleJoin(join('sess-1', { userId: 'user-42' }));
+    // Same identity on every refresh → no presence update, only the TTL script
+    for (let i = 0; i < 20; i++) {
+      jest.advanceTimersByTime(60_000);
+      await service.refreshTTL('shop-1', 'sess-1', 'tab-sess-1', undefined, undefined, { id: 'user-42' });
+    }
+
+    await expect(service.getUniqueUsers('shop-1')).resolves.toEqual({ uniqueUsers: 1, identifiedUsers: 1 });
+  });
+
+  it('should not count a user whose last session expired', async () => {
+    await service.handleJoin(join('sess-1', { userId: 'user-42' }));
+    await service.handleJoin(join('sess-2', { userId: 'user-42', session_mode: 'passive_active' }));
+    await service.handleJoin(join('sess-3'));
+    await expect(service.getUniqueUsers('shop-1')).resolves.toEqual({ uniqueUsers: 2, identifiedUsers: 1 });
+
+    jest.advanceTimersByTime(301_000); // passive_active TTL
+    await expect(service.getUniqueUsers('shop-1')).resolves.toEqual({ uniqueUsers: 2, identifiedUsers: 1 });
+
+    jest.advanceTimersByTime(300_000); // active TTL
+    await expect(service.getUniqueUsers('shop-1')).resolves.toEqual({ uniqueUsers: 0, identifiedUsers: 0 });
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Unit Tests for the authenticated WebSocket handshake (session tokens, origin, auth deadline)
+ */
+
+import { EventEmitter } from 'events';
+import { signJwt, verifyJwt, JwtError } from '../../core/security/jwt.js';
+import { SessionTokenService } from '../../modules/active_users/server/utils/session-token.js';
+import {
+  WebSocketServer,
+  WS_CLOSE_AUTH_TIMEOUT,
+  WS_CLOSE_UNAUTHORIZED,
+} from '../../modules/active_users/server/transports/websocket.js';
+import { CustomerRegistry, MemoryCustomerStore } from '../../modules/customers/index.js';
+
+const SECRET = 'jwt-secret-with-at-least-32-characters!!';
+
+class FakeSocket extends EventEmitter {
+  readyState = 1;
+  sent: any[] = [];
+  closed: { code?: number; reason?: string } | null = null;
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+  ping() {}
+  close(code?: number, reason?: string) {
+    this.closed = { ...(code !== undefined && { code }), ...(reason !== undefined && { reason }) };
+    this.readyState = 3;
+  }
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('JWT (HS256)', () => {
+  it('should round-trip claims', () => {
+    const token = signJwt({ sub: 'sess-1', aud: 'test' }, SECRET, 60);
+    expect(verifyJwt(token, SECRET, 'test')).toMatchObject({ sub: 'sess-1', aud: 'test' });
+  });
+
+  it('should reject tampered, expired and foreign tokens', () => {
+    const token = signJwt({ sub: 'sess-1', aud: 'test' }, SECRET, 60);
+    const [header, , signature] = token.split('.');
+    const forged = `${header}.${Buffer.from(JSON.stringify({ sub: 'sess-2', aud: 'test', exp: 9999999999 })).toString('base64url')}.${signature}`;
+    const codeOf = (fn: () => unknown) => {
+      try {
+        fn();
+      } catch (error) {
+        return (error as JwtError).code;
+      }
+      return null;
+    };
+    expect(codeOf(() => verifyJwt(forged, SECRET))).toBe('BAD_SIGNATURE');
+    expect(codeOf(() => verifyJwt(token, 'another-secret-another-secret-1234'))).toBe('BAD_SIGNATURE');
+    expect(codeOf(() => verifyJwt(token, SECRET, 'other'))).toBe('WRONG_AUDIENCE');
+    expect(codeOf(() => verifyJwt(token, SECRET, 'test', Date.now() + 61000))).toBe('EXPIRED');
+    expect(codeOf(() => verifyJwt('not-a-token', SECRET))).toBe('MALFORMED');
+    const none = `${Buffer.from('{"alg":"none"}').toString('base64url')}.${token.split('.')[1]}.`;
+    expect(codeOf(() => verifyJwt(none, SECRET))).toBe('MALFORMED');
+  });
+});
+
+describe('WebSocket handshake', () => {
+  let wss: EventEmitter;
+  let tokens: SessionTokenService;
+  let presence: any;
+  let broadcast: any;
+  let maxActiveUsers: number | null;
+
+  const connect = (url = '/ws/active-users', origin = 'https://shop.example') => {
+    const ws = new FakeSocket();
+    wss.emit('connection', ws, { url, headers: { origin } });
+    return ws;
+  };
+  const auth = async (ws: FakeSocket, message: Record<string, unknown>) => {
+    ws.emit('message', Buffer.from(JSON.stringify({ type: 'auth', customerId: 'shop-1', sessionId: 'sess-1', tabId: 'tab-1', ...message })));
+    await flush();
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    wss = new EventEmitter();
+    maxActiveUsers = null;
+    tokens = new SessionTokenService(SECRET, 900);
+    presence = {
+      getPresence: jest.fn().mockResolvedValue({ device: 'desktop', platform: 'desktop' }),
+      cancelDisconnectTimer: jest.fn(),
+      refreshTTL: jest.fn().mockResolvedValue(undefined),
+      getActiveCount: jest.fn().mockResolvedValue(2),
+    };
+    broadcast = { registerClient: jest.fn(), unregisterClient: jest.fn() };
+    const registry = new CustomerRegistry(
+      new MemoryCustomerStore([
+        {
+          id: 'shop-1',
+          name: 'Shop 1',
+          status: 'active',
+          allowedOrigins: ['https://shop.example'],
+          apiKeyHash: null,
+          plan: 'pro',
+          get limits() {
+            return { maxActiveUsers, maxRequestsPerMinute: null };
+          },
+        },
+      ])
+    );
+    new WebSocketServer(wss as any, broadcast, presence, registry, tokens, 10000);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should accept a token issued for the same session', async () => {
+    const ws = connect();
+    await auth(ws, { token: tokens.issue('shop-1', 'sess-1').token });
+    expect(ws.sent.at(-1)).toMatchObject({ type: 'hello', sessionId: 'sess-1' });
+    expect(broadcast.registerClient).toHaveBeenCalledWith('shop-1', ws, expect.any(Array));
+    expect(ws.closed).toBeNull();
+  });
+
+  it('should refuse new sessions once the plan limit is reached', async () => {
+    maxActiveUsers = 2;
+    presence.getPresence.mockResolvedValue(null);
+    const ws = connect();
+    await auth(ws, { token: tokens.issue('shop-1', 'sess-1').token });
+    expect(ws.sent.at(-1)).toMatchObject({ type: 'error', code: 'ACTIVE_USERS_LIMIT' });
+    expect(ws.closed).toEqual({ code: 1008, reason: 'ACTIVE_USERS_LIMIT' });
+    expect(broadcast.registerClient).not.toHaveBeenCalled();
+  });
+
+  it('should keep live sessions connected when the plan limit is reached', async () => {
+    maxActiveUsers = 2;
+    const ws = connect();
+    await auth(ws, { token: tokens.issue('shop-1', 'sess-1').token });
+    expect(ws.sent.at(-1).type).toBe('hello');
+  });
+
+  it('should accept the token from the upgrade URL', async () => {
+    const { token } = tokens.issue('shop-1', 'sess-1');
+    const ws = connect(`/ws/active-users?token=${token}`);
+    await auth(ws, {});
+    expect(ws.sent.at(-1).type).toBe('hello');
+  });
+
+  it.each([
+    ['missing', undefined, 'TOKEN_REQUIRED'],
+    ['for another session', () => tokens.issue('shop-1', 'sess-2').token, 'TOKEN_MISMATCH'],
+    ['for another customer', () => tokens.issue('shop-2', 'sess-1').token, 'TOKEN_MISMATCH'],
+    ['signed with another secret', () => new SessionTokenService('x'.repeat(32)).issue('shop-1', 'sess-1').token, 'INVALID_TOKEN'],
+  ])('should reject a token %s', async (_label, makeToken, code) => {
+    const ws = connect();
+    await auth(ws, makeToken ? { token: makeToken() } : {});
+    expect(ws.sent.at(-1)).toMatchObject({ type: 'error', code });
+    expect(ws.closed).toEqual({ code: WS_CLOSE_UNAUTHORIZED, reason: code });
+    expect(broadcast.registerClient).not.toHaveBeenCalled();
+  });
+
+  it('should reject an expired token', async () => {
+    const { token } = tokens.issue('shop-1', 'sess-1');
+    jest.setSystemTime(Date.now() + 901000);
+    const ws = connect();
+    await auth(ws, { token });
+    expect(ws.closed?.reason).toBe('TOKEN_EXPIRED');
+  });
+
+  it('should reject a valid token from a foreign origin', async () => {
+    const ws = connect('/ws/active-users', 'https://evil.example');
+    await auth(ws, { token: tokens.issue('shop-1', 'sess-1').token });
+    expect(ws.sent.at(-1)).toMatchObject({ type: 'error', code: 'ORIGIN_NOT_ALLOWED' });
+    expect(ws.closed?.code).toBe(1008);
+  });
+
+  it('should close sockets that never authenticate', async () => {
+    const idle = connect();
+    const authed = connect();
+    await auth(authed, { token: tokens.issue('shop-1', 'sess-1').token });
+    jest.advanceTimersByTime(10000);
+    expect(idle.closed).toEqual({ code: WS_CLOSE_AUTH_TIMEOUT, reason: 'AUTH_TIMEOUT' });
+    expect(authed.closed).toBeNull();
+  });
+
+  it('should only refresh the authenticated session', async () => {
+    const ws = connect();
+    await auth(ws, { token: tokens.issue('shop-1', 'sess-1').token });
+    const refresh = (sessionId: string) =>
+      ws.emit('message', Buffer.from(JSON.stringify({ type: 'ttl_refresh', customerId: 'shop-1', sessionId, tabId: 'tab-1', timestamp: Date.now() })));
+    refresh('sess-2');
+    refresh('sess-1');
+    await flush();
+    expect(presence.refreshTTL).toHaveBeenCalledTimes(1);
+    expect(presence.refreshTTL.mock.calls[0][1]).toBe('sess-1');
+  });
+});
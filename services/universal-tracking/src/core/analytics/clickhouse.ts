@@ -0,0 +1,57 @@
+import { createClient, type ClickHouseClient } from '@clickhouse/client';
+import { config } from '../config/env.js';
+import { logger } from '../observability/logger.js';
+import { runMigrations } from './migrations.js';
+export class ClickHouseService {
+  private client: ClickHouseClient | null = null;
+  private isConnected = false;
+  async connect(): Promise<void> {
+    try {
+      const protocol = config.CLICKHOUSE_SSL ? 'https' : 'http';
+      this.client = createClient({
+        host: `${protocol}://${config.CLICKHOUSE_HOST}:${config.CLICKHOUSE_PORT}`,
+        username: config.CLICKHOUSE_USERNAME,
+        database: config.CLICKHOUSE_DATABASE,
+        application: 'universal-tracking',
+        ...(config.CLICKHOUSE_PASSWORD && { password: config.CLICKHOUSE_PASSWORD }),
+      });
+      const ping = await this.client.ping();
+      if (!ping.success) {
+        throw ping.error;
+      }
+      await runMigrations(this.client);
+      this.isConnected = true;
+      logger.info(`Connected to ClickHouse at ${config.CLICKHOUSE_HOST}:${config.CLICKHOUSE_PORT}/${config.CLICKHOUSE_DATABASE}`);
+    } catch (error) {
+      logger.error(error as Error, 'Failed to connect to ClickHouse');
+      throw error;
+    }
+  }
+  async disconnect(): Promise<void> {
+    if (this.client) {
+      await this.client.close();
+      this.client = null;
+      this.isConnected = false;
+      logger.info('Disconnected from ClickHouse');
+    }
+  }
+  getClient(): ClickHouseClient {
+    if (!this.client || !this.isConnected) {
+      throw new Error('ClickHouse client is not connected');
+    }
+    return this.client;
+  }
+  isClientConnected(): boolean {
+    return this.isConnected && this.client !== null;
+  }
+  /**
+   * Readiness probe - HTTP /ping
+   */
+  async ping(): Promise<boolean> {
+    if (!this.client || !this.isConnected) return false;
+    const result = await this.client.ping();
+    return result.success;
+  }
+}
+// Global ClickHouse service instance
+export const clickhouseService = new ClickHouseService();
@@ -0,0 +1,73 @@
+/**
+ * ClickHouse Schema Migrations
+ * Forward-only, versioned migrations tracked in `schema_migrations`
+ *
+ * Add new migrations to the END of the list - never edit an applied one.
+ */
+import type { ClickHouseClient } from '@clickhouse/client';
+import { logger } from '../observability/logger.js';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+}
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'create_events',
+    up: `
+      CREATE TABLE IF NOT EXISTS events (
+        site_id     LowCardinality(String),
+        event_type  LowCardinality(String),
+        event_time  DateTime64(3, 'UTC'),
+        received_at DateTime64(3, 'UTC'),
+        user_id     String DEFAULT '',
+        session_id  String DEFAULT '',
+        data        String DEFAULT '{}'
+      )
+      ENGINE = MergeTree
+      PARTITION BY toYYYYMM(event_time)
+      ORDER BY (site_id, event_type, event_time)
+    `,
+  },
+];
+
+/**
+ * Apply pending migrations in version order
+ */
+export async function runMigrations(client: ClickHouseClient): Promise<number> {
+  await client.command({
+    query: `
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version    UInt32,
+        name       String,
+        applied_at DateTime DEFAULT now()
+      )
+      ENGINE = MergeTree
+      ORDER BY version
+    `,
+  });
+
+  const result = await client.query({
+    query: 'SELECT version FROM schema_migrations',
+    format: 'JSONEachRow',
+  });
+  const rows = await result.json<{ version: number }[]>();
+  const applied = new Set(rows.map((row) => Number(row.version)));
+
+  let count = 0;
+  for (const migration of [...migrations].sort((a, b) => a.version - b.version)) {
+    if (applied.has(migration.version)) continue;
+    logger.info(`[ClickHouse] Applying migration ${migration.version}_${migration.name}`);
+    await client.command({ query: migration.up });
+    await client.insert({
+      table: 'schema_migrations',
+      values: [{ version: migration.version, name: migration.name }],
+      format: 'JSONEachRow',
+    });
+    count++;
+  }
+  return count;
+}
@@ -3,10 +3,17 @@ const envSchema = z.object({
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
   PORT: z.coerce.number().default(3000),
   HOST: z.string().default('0.0.0.0'),
+  // Health
+  READINESS_TIMEOUT_MS: z.coerce.number().default(2000),
+  SHUTDOWN_DRAIN_MS: z.coerce.number().default(5000),
+  EVENT_LOOP_STALL_MS: z.coerce.number().default(1000),
   // Security
   SITE_SALT: z.string().min(32, 'Site salt must be at least 32 characters'),
   JWT_SECRET: z.string().min(32, 'JWT secret must be at least 32 characters'),
   HMAC_SECRET: z.string().min(32, 'HMAC secret must be at least 32 characters'),
+  HMAC_ENFORCEMENT: z.enum(['off', 'report', 'enforce']).default('report'),
+  HMAC_MAX_SKEW_SECONDS: z.coerce.number().default(300),
+  ADMIN_API_KEY: z.string().min(32, 'Admin API key must be at least 32 characters').optional(),
   // Database - PostgreSQL
   PGHOST: z.string().default('localhost'),
   PGPORT: z.coerce.number().default(5432),
@@ -16,6 +23,7 @@ const envSchema = z.object({
   PG_SSL: z.coerce.boolean().default(false),
   PG_POOL_MIN: z.coerce.number().default(2),
   PG_POOL_MAX: z.coerce.number().default(10),
+  CUSTOMER_CACHE_TTL_SECONDS: z.coerce.number().default(60),
   // Cache - Redis
   REDIS_URL: z.string().default('redis://localhost:6379'),
   REDISHOST: z.string().default('localhost'),
@@ -30,5 +38,10 @@ const envSchema = z.object({
   CLICKHOUSE_USERNAME: z.string().default('default'),
   CLICKHOUSE_PASSWORD: z.string().optional(),
   CLICKHOUSE_SSL: z.coerce.boolean().default(false),
+  CLICKHOUSE_BATCH_SIZE: z.coerce.number().default(1000),
+  CLICKHOUSE_FLUSH_INTERVAL_MS: z.coerce.number().default(5000),
+  CLICKHOUSE_MAX_BUFFER: z.coerce.number().default(50000),
+  // Event sink for POST /api/events
+  EVENT_SINK: z.enum(['logger', 'clickhouse']).default('clickhouse'),
 });
 export const config = envSchema.parse(process.env);
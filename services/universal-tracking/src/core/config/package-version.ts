@@ -0,0 +1,17 @@
+/**
+ * Package Version
+ * Unbundled runs (tsx) read the service package.json relative to src/core/config/
+ */
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+export function readPackageVersion(): string {
+  try {
+    const __dirname = dirname(fileURLToPath(import.meta.url));
+    const pkg = JSON.parse(readFileSync(join(__dirname, '../../../package.json'), 'utf-8'));
+    return pkg.version || 'unknown';
+  } catch {
+    return process.env.npm_package_version || 'unknown';
+  }
+}
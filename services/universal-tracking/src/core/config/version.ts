@@ -0,0 +1,11 @@
+/**
+ * Build Version
+ * Bundled builds get the version injected by tsup (`__SERVICE_VERSION__`, see tsup.config.ts;
+ * checked after `build` by scripts/check-build-version.mjs).
+ * Unbundled runs (tsx, jest) fall back to the service package.json.
+ */
+import { readPackageVersion } from './package-version.js';
+
+declare const __SERVICE_VERSION__: string | undefined;
+
+export const BUILD_VERSION = typeof __SERVICE_VERSION__ !== 'undefined' ? __SERVICE_VERSION__ : readPackageVersion();
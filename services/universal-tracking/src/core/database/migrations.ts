@@ -0,0 +1,103 @@
+/**
+ * PostgreSQL Schema Migrations
+ * Forward-only, versioned migrations tracked in `schema_migrations`
+ *
+ * Add new migrations to the END of the list - never edit an applied one.
+ */
+import type pg from 'pg';
+import { logger } from '../observability/logger.js';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+}
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'create_customers',
+    up: `
+      CREATE TABLE IF NOT EXISTS customers (
+        id                      TEXT PRIMARY KEY,
+        name                    TEXT NOT NULL,
+        status                  TEXT NOT NULL DEFAULT 'active'
+                                CHECK (status IN ('active', 'disabled')),
+        allowed_origins         TEXT[] NOT NULL DEFAULT '{}',
+        api_key_hash            TEXT,
+        plan                    TEXT NOT NULL DEFAULT 'free',
+        max_active_users        INTEGER,
+        max_requests_per_minute INTEGER,
+        created_at              TIMESTAMPTZ NOT NULL DEFAULT now(),
+        updated_at              TIMESTAMPTZ NOT NULL DEFAULT now()
+      );
+      CREATE UNIQUE INDEX IF NOT EXISTS customers_api_key_hash_idx
+        ON customers (api_key_hash) WHERE api_key_hash IS NOT NULL;
+    `,
+  },
+  {
+    version: 2,
+    name: 'create_admin_audit_log',
+    up: `
+      CREATE TABLE IF NOT EXISTS admin_audit_log (
+        id          BIGSERIAL PRIMARY KEY,
+        action      TEXT NOT NULL,
+        actor       TEXT NOT NULL,
+        ip          TEXT NOT NULL,
+        customer_id TEXT NOT NULL,
+        target      TEXT,
+        outcome     TEXT NOT NULL,
+        details     JSONB NOT NULL DEFAULT '{}',
+        created_at  TIMESTAMPTZ NOT NULL DEFAULT now()
+      );
+      CREATE INDEX IF NOT EXISTS admin_audit_log_customer_idx
+        ON admin_audit_log (customer_id, created_at DESC);
+    `,
+  },
+];
+
+// Arbitrary constant - serializes migrations when several instances start together
+const MIGRATION_LOCK_ID = 727274;
+
+/**
+ * Apply pending migrations in version order (each in its own transaction)
+ */
+export async function runMigrations(pool: pg.Pool): Promise<number> {
+  const client = await pool.connect();
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version    INTEGER PRIMARY KEY,
+        name       TEXT NOT NULL,
+        applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      )
+    `);
+
+    const { rows } = await client.query<{ version: number }>('SELECT version FROM schema_migrations');
+    const applied = new Set(rows.map((row) => Number(row.version)));
+
+    let count = 0;
+    for (const migration of [...migrations].sort((a, b) => a.version - b.version)) {
+      if (applied.has(migration.version)) continue;
+      logger.info(`[PostgreSQL] Applying migration ${migration.version}_${migration.name}`);
+      try {
+        await client.query('BEGIN');
+        await client.query(migration.up);
+        await client.query('INSERT INTO schema_migrations (version, name) VALUES ($1, $2)', [
+          migration.version,
+          migration.name,
+        ]);
+        await client.query('COMMIT');
+        count++;
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+    }
+    return count;
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]).catch(() => {});
+    client.release();
+  }
+}
@@ -0,0 +1,65 @@
+import pg from 'pg';
+import { config } from '../config/env.js';
+import { logger } from '../observability/logger.js';
+import { runMigrations } from './migrations.js';
+export class PostgresService {
+  private pool: pg.Pool | null = null;
+  private isConnected = false;
+  async connect(): Promise<void> {
+    try {
+      this.pool = new pg.Pool({
+        host: config.PGHOST,
+        port: config.PGPORT,
+        database: config.PG_DATABASE,
+        user: config.PGUSER,
+        password: config.PGPASSWORD,
+        min: config.PG_POOL_MIN,
+        max: config.PG_POOL_MAX,
+        ...(config.PG_SSL && { ssl: { rejectUnauthorized: false } }),
+      });
+      this.pool.on('error', (err) => {
+        // Idle client errors - pool replaces the client, do not crash
+        logger.error(err, 'PostgreSQL Pool Error');
+      });
+      // Verify connectivity before accepting traffic
+      await this.pool.query('SELECT 1');
+      await runMigrations(this.pool);
+      this.isConnected = true;
+      logger.info(`Connected to PostgreSQL at ${config.PGHOST}:${config.PGPORT}/${config.PG_DATABASE}`);
+    } catch (error) {
+      logger.error(error as Error, 'Failed to connect to PostgreSQL');
+      throw error;
+    }
+  }
+  async disconnect(): Promise<void> {
+    if (this.pool) {
+      await this.pool.end();
+      this.pool = null;
+      this.isConnected = false;
+      logger.info('Disconnected from PostgreSQL');
+    }
+  }
+  getPool(): pg.Pool {
+    if (!this.pool || !this.isConnected) {
+      throw new Error('PostgreSQL pool is not connected');
+    }
+    return this.pool;
+  }
+  isClientConnected(): boolean {
+    return this.isConnected && this.pool !== null;
+  }
+  /**
+   * Readiness probe - round trip through the pool
+   */
+  async ping(): Promise<boolean> {
+    if (!this.pool || !this.isConnected) return false;
+    try {
+      await this.pool.query('SELECT 1');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+// Global PostgreSQL service instance
+export const postgresService = new PostgresService();
@@ -1,10 +1,22 @@
 import type { FastifyInstance } from 'fastify';
 import { healthRoutes } from './routes/health.js';
-import { sdkRoutes } from './routes/sdk.js';
+import { getServedSdkHash, sdkRoutes } from './routes/sdk.js';
+import { BUILD_VERSION } from '../config/version.js';
 import { pollingRoutes } from './routes/polling.js';
+import type { EventIngestService } from '../../modules/events/index.js';
+import type { CustomerRegistry } from '../../modules/customers/index.js';
 
-export async function setupRoutes(fastify: FastifyInstance) {
-  await fastify.register(healthRoutes, { prefix: '' });
-  await fastify.register(sdkRoutes, { prefix: '' });
-  await fastify.register(pollingRoutes, { prefix: '' });
-}
\ No newline at end of file
+export interface RouteDependencies {
+  ingestService: EventIngestService;
+  customerRegistry: CustomerRegistry;
+}
+
+export async function setupRoutes(fastify: FastifyInstance, deps: RouteDependencies) {
+  await fastify.register(healthRoutes, {
+    prefix: '',
+    version: BUILD_VERSION,
+    getSdkBundleHash: getServedSdkHash,
+  });
+  await fastify.register(sdkRoutes, { prefix: '', customerRegistry: deps.customerRegistry });
+  await fastify.register(pollingRoutes, { prefix: '', ingestService: deps.ingestService });
+}
@@ -1,26 +1,48 @@
 import type { FastifyInstance } from 'fastify';
-export async function healthRoutes(fastify: FastifyInstance) {
-  // Health check endpoint
-  fastify.get('/health', async () => {
-    return {
-      status: 'healthy',
+import type { HealthCheck } from '@universal-tracking/types';
+import { getWebSocketClientCount, metricsRegistry } from '../../observability/metrics.js';
+import { readinessProbe } from '../../observability/readiness.js';
+import { eventLoopMonitor } from '../../observability/liveness.js';
+export interface HealthRoutesOptions {
+  version?: string;
+  getSdkBundleHash?: () => string | null;
+}
+export async function healthRoutes(fastify: FastifyInstance, options: HealthRoutesOptions = {}) {
+  const { version = 'unknown', getSdkBundleHash } = options;
+  // Liveness endpoint (503 after an event-loop stall → orchestrator restarts the process)
+  fastify.get('/health', async (request, reply) => {
+    const memory = process.memoryUsage();
+    const healthy = eventLoopMonitor.isHealthy();
+    const health: HealthCheck = {
+      status: healthy ? 'healthy' : 'unhealthy',
       timestamp: Date.now(),
       service: 'universal-tracking',
-      version: '1.0.0'
+      version,
+      uptime: Math.round(process.uptime()),
+      memory: {
+        used: memory.heapUsed,
+        total: memory.heapTotal,
+      },
+      sdkBundleHash: getSdkBundleHash ? getSdkBundleHash() : null,
+      wsConnections: getWebSocketClientCount(),
+      eventLoop: eventLoopMonitor.getStats(),
     };
+    if (!healthy) {
+      reply.code(503);
+    }
+    return health;
   });
-  // Readiness check endpoint
-  fastify.get('/ready', async () => {
-    return {
-      status: 'ready',
-      timestamp: Date.now()
-    };
+  // Readiness check endpoint (503 → load balancer stops routing here)
+  fastify.get('/ready', async (request, reply) => {
+    const readiness = await readinessProbe.check();
+    if (readiness.status !== 'ready') {
+      reply.code(503);
+    }
+    return readiness;
   });
-  // Metrics endpoint (placeholder)
-  fastify.get('/metrics', async () => {
-    return {
-      status: 'ok',
-      message: 'Metrics endpoint ready for Prometheus integration'
-    };
+  // Prometheus metrics (text exposition format)
+  fastify.get('/metrics', async (request, reply) => {
+    reply.header('Content-Type', metricsRegistry.contentType);
+    return metricsRegistry.metrics();
   });
 }
@@ -1,5 +1,10 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-export async function pollingRoutes(fastify: FastifyInstance) {
+import type { EventIngestService } from '../../../modules/events/index.js';
+export interface PollingRoutesOptions {
+  ingestService: EventIngestService;
+}
+export async function pollingRoutes(fastify: FastifyInstance, options: PollingRoutesOptions) {
+  const { ingestService } = options;
   // Placeholder polling routes - Yeni tracking modülleri kurulacak
   fastify.get('/api/status', async (request: FastifyRequest, reply: FastifyReply) => {
     return reply.send({
@@ -8,12 +13,25 @@ export async function pollingRoutes(fastify: FastifyInstance) {
       timestamp: Date.now()
     });
   });
-  // Placeholder event endpoint - Yeni modüllerde implement edilecek
+  /**
+   * POST /api/events
+   * Collect endpoint - validates CollectRequest and forwards events to the sink
+   * Supports both application/json and text/plain (sendBeacon) content types
+   */
   fastify.post('/api/events', async (request: FastifyRequest, reply: FastifyReply) => {
-    return reply.send({
-      success: true,
-      message: 'Event endpoint hazır - Yeni modüllerde implement edilecek',
-      timestamp: Date.now()
-    });
+    let body: unknown = request.body;
+    if (typeof body === 'string') {
+      try {
+        body = JSON.parse(body);
+      } catch (error) {
+        return reply.code(400).send({
+          success: false,
+          processed: 0,
+          errors: ['Body is not valid JSON'],
+        });
+      }
+    }
+    const result = await ingestService.ingest(body);
+    return reply.code(result.statusCode).send(result.response);
   });
-}
\ No newline at end of file
+}
@@ -7,6 +7,10 @@ import { readFile } from 'fs/promises';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import { createHash } from 'crypto';
+import { config } from '../../config/env.js';
+import { deriveSiteKey } from '../../security/hmac.js';
+import type { CustomerRegistry } from '../../../modules/customers/index.js';
+import type { CounterWidgetOptions } from '../../../modules/active_users/client/widget/format.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -16,15 +20,66 @@ let cachedSDKContent: string | null = null;
 let cachedSDKHash: string | null = null;
 let lastBundleRead: number = 0;
 const CACHE_DURATION = 60000; // Re-read bundle every 60 seconds in development
-export async function sdkRoutes(fastify: FastifyInstance) {
+/**
+ * Hash of the SDK bundle currently served (null until the first SDK request)
+ */
+export function getServedSdkHash(): string | null {
+  return cachedSDKHash;
+}
+export interface SdkQuery {
+  customer_id?: string;
+  debug?: string;
+  widget?: string;          // 'true' → auto-mount <active-users-count>
+  widget_locale?: string;   // e.g. tr, en-GB
+  widget_min?: string;      // Hide the counter below this number
+  widget_format?: string;   // standard | compact
+}
+/**
+ * Auto-mount options for the counter widget (null = widget not requested)
+ * Only validated values reach the generated script
+ */
+export function parseWidgetOptions(query: SdkQuery): CounterWidgetOptions | null {
+  if (query.widget !== 'true') {
+    return null;
+  }
+  const options: CounterWidgetOptions = {};
+  if (query.widget_locale && /^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(query.widget_locale)) {
+    options.locale = query.widget_locale;
+  }
+  const min = Number(query.widget_min);
+  if (query.widget_min && Number.isInteger(min) && min >= 0) {
+    options.minCount = min;
+  }
+  if (query.widget_format === 'standard' || query.widget_format === 'compact') {
+    options.format = query.widget_format;
+  }
+  return options;
+}
+export interface SdkRoutesOptions {
+  customerRegistry: CustomerRegistry;
+}
+export async function sdkRoutes(fastify: FastifyInstance, options: SdkRoutesOptions) {
+  const { customerRegistry } = options;
   /**
    * Serve Active Users SDK (browser bundle)
-   * GET /active-users-sdk.js?customer_id=xxx&debug=true
+   * GET /active-users-sdk.js?customer_id=xxx&debug=true&widget=true&widget_locale=tr&widget_min=5
    */
   fastify.get('/active-users-sdk.js', async (request: FastifyRequest, reply: FastifyReply) => {
-    const query = request.query as { customer_id?: string; debug?: string };
-    const customerId = query.customer_id || 'unknown';
+    const query = request.query as SdkQuery;
     const debug = query.debug === 'true';
+    const widget = parseWidgetOptions(query);
+
+    // Only registered, active customers get an SDK (and a signing key)
+    // <script> tags send no Origin header - origins are enforced on presence/WebSocket calls
+    const access = await customerRegistry.authorize(query.customer_id);
+    if (!access.allowed) {
+      return reply
+        .code(access.statusCode)
+        .type('application/javascript; charset=utf-8')
+        .header('Cache-Control', 'no-store')
+        .send(`console.error(${JSON.stringify(`[ActiveUsersSDK] ${access.message} (${access.code})`)});`);
+    }
+    const customerId = access.customer.id;
     
     try {
       // Bundle path
@@ -76,6 +131,9 @@ export async function sdkRoutes(fastify: FastifyInstance) {
       const wsUrl = process.env.PUBLIC_WS_URL || `${wsProtocol}://${requestHost}`;
       // Log for debugging
       fastify.log.info(`SDK URLs: API=${apiUrl}, WebSocket=${wsUrl} (Host: ${requestHost}, Secure: ${isSecure})`);
+      // Per-site HMAC key (derived from HMAC_SECRET - the master secret is never sent)
+      // Public like this script: signing gives integrity/replay protection, not sender authentication
+      const signingKey = deriveSiteKey(config.HMAC_SECRET, customerId);
       const initScript = `
 ;(function() {
   try {
@@ -92,6 +150,7 @@ export async function sdkRoutes(fastify: FastifyInstance) {
         apiUrl: '${apiUrl}',
         websocketUrl: '${wsUrl}/ws/active-users',
         debug: ${debug},
+        signingKey: '${signingKey}',
         enableWebSocket: true,
         enablePolling: true,
         // ✅ PHASE 2: Updated config (heartbeat removed, TTL refresh added)
@@ -104,7 +163,12 @@ export async function sdkRoutes(fastify: FastifyInstance) {
         console.error('❌ Failed to initialize Active Users SDK:', err);
       });
       // Expose globally for debugging
-      window.ActiveUsersTracker = client;
+      window.ActiveUsersTracker = client;${widget ? `
+      // 🆕 Live visitor counter (widget=true)
+      if (window.ActiveUsersSDK.defineActiveUsersCount) {
+        window.ActiveUsersSDK.defineActiveUsersCount(client, ${JSON.stringify(widget)});
+        window.ActiveUsersSDK.mountActiveUsersCount();
+      }` : ''}
     }
     // 🆕 CRITICAL: Ensure page is visible before init
     function safeInit() {
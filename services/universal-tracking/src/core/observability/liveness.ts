@@ -0,0 +1,94 @@
+/**
+ * Event Loop Monitor
+ * Liveness signal for GET /health - detects event-loop stalls
+ *
+ * A timer samples every sampleIntervalMs; if it fires late by stallThresholdMs or more,
+ * the loop was blocked. /health stays unhealthy for unhealthyWindowMs after a stall so
+ * the orchestrator sees it even though the blocked process could not answer at the time.
+ */
+import { monitorEventLoopDelay, type IntervalHistogram } from 'perf_hooks';
+
+export class EventLoopMonitor {
+  private stallThresholdMs: number;
+  private sampleIntervalMs: number;
+  private unhealthyWindowMs: number;
+  private histogram: IntervalHistogram | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private lastTick: number = Date.now();
+  private lagMs = 0;
+  private maxLagMs = 0;
+  private stalls = 0;
+  private lastStallAt: number | null = null;
+
+  constructor(stallThresholdMs: number = 1000, sampleIntervalMs: number = 500, unhealthyWindowMs: number = 30000) {
+    this.stallThresholdMs = stallThresholdMs;
+    this.sampleIntervalMs = sampleIntervalMs;
+    this.unhealthyWindowMs = unhealthyWindowMs;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.histogram = monitorEventLoopDelay({ resolution: 20 });
+    this.histogram.enable();
+    this.lastTick = Date.now();
+    this.timer = setInterval(() => this.sample(), this.sampleIntervalMs);
+    this.timer.unref(); // Never keeps the process alive
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.histogram?.disable();
+    this.histogram = null;
+  }
+
+  setStallThreshold(stallThresholdMs: number): void {
+    this.stallThresholdMs = stallThresholdMs;
+  }
+
+  /**
+   * One sample - timer drift since the previous tick (public for tests)
+   */
+  sample(now: number = Date.now()): void {
+    this.lagMs = Math.max(0, now - this.lastTick - this.sampleIntervalMs);
+    this.lastTick = now;
+    if (this.histogram) {
+      this.maxLagMs = Math.max(this.lagMs, this.histogram.max / 1e6);
+      this.histogram.reset();
+    } else {
+      this.maxLagMs = this.lagMs;
+    }
+    if (this.lagMs >= this.stallThresholdMs) {
+      this.stalls++;
+      this.lastStallAt = now;
+      console.warn(`[EventLoop] ⚠️ Event loop blocked for ${this.lagMs}ms`);
+    }
+  }
+
+  /**
+   * Unhealthy while a stall is recent (or the sampler itself is overdue)
+   */
+  isHealthy(now: number = Date.now()): boolean {
+    if (this.lastStallAt !== null && now - this.lastStallAt < this.unhealthyWindowMs) {
+      return false;
+    }
+    if (this.timer && now - this.lastTick - this.sampleIntervalMs >= this.stallThresholdMs) {
+      return false;
+    }
+    return true;
+  }
+
+  getStats(): { lagMs: number; maxLagMs: number; stalls: number; lastStallAt: number | null } {
+    return {
+      lagMs: Math.round(this.lagMs * 100) / 100,
+      maxLagMs: Math.round(this.maxLagMs * 100) / 100,
+      stalls: this.stalls,
+      lastStallAt: this.lastStallAt,
+    };
+  }
+}
+
+// Global monitor (started at bootstrap)
+export const eventLoopMonitor = new EventLoopMonitor();
@@ -12,3 +12,45 @@ export const logger = pino({
     },
   }),
 });
+
+// Credentials that may travel in query strings (SSE stream token, WebSocket upgrade token)
+const REDACTED_QUERY_PARAMS = ['token'];
+
+/**
+ * URL with credential query params replaced by [REDACTED]
+ */
+export function redactUrl(url: string): string {
+  const queryStart = url.indexOf('?');
+  if (queryStart === -1) {
+    return url;
+  }
+  const params = new URLSearchParams(url.slice(queryStart + 1));
+  let redacted = false;
+  REDACTED_QUERY_PARAMS.forEach((name) => {
+    if (params.has(name)) {
+      params.set(name, '[REDACTED]');
+      redacted = true;
+    }
+  });
+  return redacted ? `${url.slice(0, queryStart)}?${params.toString()}` : url;
+}
+
+/**
+ * Fastify `req` log serializer - same fields as the default one, with a redacted URL
+ */
+export function serializeRequest(request: {
+  method: string;
+  url: string;
+  hostname: string;
+  ip: string;
+  socket?: { remotePort?: number | undefined };
+}) {
+  const remotePort = request.socket?.remotePort;
+  return {
+    method: request.method,
+    url: redactUrl(request.url),
+    hostname: request.hostname,
+    remoteAddress: request.ip,
+    ...(remotePort !== undefined ? { remotePort } : {}),
+  };
+}
@@ -0,0 +1,106 @@
+/**
+ * Prometheus Metrics
+ * Single registry exposed at GET /metrics
+ */
+import type { FastifyInstance } from 'fastify';
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+
+export const metricsRegistry = new Registry();
+metricsRegistry.setDefaultLabels({ service: 'universal-tracking' });
+collectDefaultMetrics({ register: metricsRegistry });
+
+// Source for the WebSocket gauge (set by ActiveUsersServer, read on scrape)
+let wsClientCountSource: (() => number) | null = null;
+
+export const metrics = {
+  httpRequestDuration: new Histogram({
+    name: 'http_request_duration_seconds',
+    help: 'HTTP request duration by route',
+    labelNames: ['method', 'route', 'status_code'] as const,
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+    registers: [metricsRegistry],
+  }),
+  wsConnections: new Gauge({
+    name: 'ws_connections',
+    help: 'Open WebSocket connections',
+    registers: [metricsRegistry],
+    collect() {
+      this.set(getWebSocketClientCount());
+    },
+  }),
+  presenceEvents: new Counter({
+    name: 'presence_events_total',
+    help: 'Presence events handled (join / beat / leave)',
+    labelNames: ['event'] as const,
+    registers: [metricsRegistry],
+  }),
+  rateLimitRejections: new Counter({
+    name: 'rate_limit_rejections_total',
+    help: 'Requests rejected by the rate limiter, per tier',
+    labelNames: ['tier'] as const,
+    registers: [metricsRegistry],
+  }),
+  requestSigningFailures: new Counter({
+    name: 'request_signing_failures_total',
+    help: 'Requests that failed HMAC verification, per failure code (also counted in report mode)',
+    labelNames: ['code'] as const,
+    registers: [metricsRegistry],
+  }),
+  emaDuration: new Histogram({
+    name: 'ema_computation_duration_seconds',
+    help: 'Duration of one EMA calculation (count + EMA read/write + history)',
+    buckets: [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1],
+    registers: [metricsRegistry],
+  }),
+  redisCommandDuration: new Histogram({
+    name: 'redis_command_duration_seconds',
+    help: 'Redis adapter operation latency',
+    labelNames: ['command', 'status'] as const,
+    buckets: [0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 1],
+    registers: [metricsRegistry],
+  }),
+  staleCleanupRuns: new Counter({
+    name: 'presence_stale_cleanup_runs_total',
+    help: 'Stale session cleanup runs',
+    labelNames: ['status'] as const,
+    registers: [metricsRegistry],
+  }),
+  staleSessionsRemoved: new Counter({
+    name: 'presence_stale_sessions_removed_total',
+    help: 'Sessions removed by the stale cleanup (inactive 15+ minutes)',
+    registers: [metricsRegistry],
+  }),
+  expiredIndexEntriesRemoved: new Counter({
+    name: 'presence_expired_index_entries_removed_total',
+    help: 'Expired entries pruned from the presence indexes',
+    registers: [metricsRegistry],
+  }),
+};
+
+/**
+ * Register the function that reports open WebSocket connections
+ */
+export function setWebSocketClientCountSource(source: (() => number) | null): void {
+  wsClientCountSource = source;
+}
+
+/**
+ * Open WebSocket connections (0 when no server is registered)
+ */
+export function getWebSocketClientCount(): number {
+  return wsClientCountSource ? wsClientCountSource() : 0;
+}
+
+/**
+ * Record HTTP request durations per route (route pattern, not raw URL → bounded labels)
+ */
+export function registerHttpMetrics(fastify: FastifyInstance): void {
+  fastify.addHook('onResponse', async (request, reply) => {
+    const route = request.routeOptions.url;
+    if (!route || route === '/metrics') return;
+    metrics.httpRequestDuration.observe(
+      { method: request.method, route, status_code: String(reply.statusCode) },
+      reply.elapsedTime / 1000
+    );
+  });
+}
@@ -0,0 +1,103 @@
+/**
+ * Readiness Probe
+ * Probes dependencies for GET /ready (503 when a required one is down or during shutdown)
+ */
+import type { DependencyStatus, ReadinessCheck } from '@universal-tracking/types';
+
+export type DependencyName = keyof ReadinessCheck['checks'];
+
+export interface DependencyProbe {
+  check: () => Promise<boolean>;
+  required: boolean;
+}
+
+const DEPENDENCIES: DependencyName[] = ['database', 'redis', 'clickhouse'];
+
+export class ReadinessProbe {
+  private probes: Map<DependencyName, DependencyProbe> = new Map();
+  private timeoutMs: number;
+  private shuttingDown = false;
+
+  constructor(timeoutMs: number = 2000) {
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * Register a dependency check (unregistered dependencies report 'disabled')
+   */
+  register(name: DependencyName, check: () => Promise<boolean>, required: boolean = true): void {
+    this.probes.set(name, { check, required });
+  }
+
+  setTimeout(timeoutMs: number): void {
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * Graceful shutdown started - report not_ready so load balancers drain traffic
+   */
+  markShuttingDown(): void {
+    this.shuttingDown = true;
+  }
+
+  isShuttingDown(): boolean {
+    return this.shuttingDown;
+  }
+
+  /**
+   * Run all checks in parallel, each bounded by the timeout
+   */
+  async check(): Promise<ReadinessCheck> {
+    const results = await Promise.all(DEPENDENCIES.map((name) => this.probe(name)));
+    const details: Partial<Record<DependencyName, DependencyStatus>> = {};
+    const checks = {} as ReadinessCheck['checks'];
+    let ready = !this.shuttingDown;
+    DEPENDENCIES.forEach((name, i) => {
+      const result = results[i]!;
+      details[name] = result;
+      checks[name] = result.status === 'up';
+      if (result.required && result.status === 'down') {
+        ready = false;
+      }
+    });
+    return {
+      status: ready ? 'ready' : 'not_ready',
+      timestamp: Date.now(),
+      checks,
+      shuttingDown: this.shuttingDown,
+      details,
+    };
+  }
+
+  private async probe(name: DependencyName): Promise<DependencyStatus> {
+    const probe = this.probes.get(name);
+    if (!probe) {
+      return { status: 'disabled', required: false };
+    }
+    const started = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${this.timeoutMs}ms`)), this.timeoutMs);
+      });
+      const up = await Promise.race([probe.check(), timeout]);
+      return {
+        status: up ? 'up' : 'down',
+        required: probe.required,
+        latencyMs: Date.now() - started,
+      };
+    } catch (error) {
+      return {
+        status: 'down',
+        required: probe.required,
+        latencyMs: Date.now() - started,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+// Global readiness probe (checks registered at bootstrap, flipped by graceful shutdown)
+export const readinessProbe = new ReadinessProbe();
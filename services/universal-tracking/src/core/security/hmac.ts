@@ -0,0 +1,56 @@
+/**
+ * HMAC Signing Primitives
+ * Shared by the request-signing preHandler and the SDK route (site key injection)
+ *
+ * Signature scheme:
+ *   siteKey   = HMAC-SHA256(HMAC_SECRET, siteId)            (hex)
+ *   canonical = `${timestamp}.${siteId}.${rawBody}`
+ *   signature = HMAC-SHA256(siteKey, canonical)              (hex)
+ *
+ * The master secret never leaves the server; browsers only receive their own site key.
+ * The site key is public (it ships in the cacheable SDK script), so a signature proves
+ * integrity and freshness only - the body was not altered or replayed - NOT that the
+ * request came from the customer's site. Origin checks and rate limits do that job.
+ */
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Derive the per-site signing key handed to the browser SDK
+ */
+export function deriveSiteKey(secret: string, siteId: string): string {
+  return createHmac('sha256', secret).update(siteId).digest('hex');
+}
+
+/**
+ * Build the canonical string that is signed
+ */
+export function buildCanonicalString(timestamp: number | string, siteId: string, body: string): string {
+  return `${timestamp}.${siteId}.${body}`;
+}
+
+/**
+ * Content signed ahead of time for a session's leave beacon (sendBeacon cannot set headers)
+ */
+export function buildBeaconBody(sessionId: string, tabId: string): string {
+  return JSON.stringify({ sessionId, tabId });
+}
+
+/**
+ * Sign a canonical string with a site key
+ */
+export function signPayload(siteKey: string, canonical: string): string {
+  return createHmac('sha256', siteKey).update(canonical).digest('hex');
+}
+
+/**
+ * Constant-time signature comparison
+ */
+export function signaturesMatch(expected: string, received: string): boolean {
+  const a = Buffer.from(expected, 'hex');
+  const b = Buffer.from(received, 'hex');
+  // Length check first - timingSafeEqual throws on mismatched lengths
+  if (a.length === 0 || a.length !== b.length) {
+    return false;
+  }
+  return timingSafeEqual(a, b);
+}
@@ -0,0 +1,81 @@
+/**
+ * JWT (HS256)
+ * Minimal compact-JWS signing/verification for short-lived service tokens
+ *
+ * Only HS256 is accepted - the header's `alg` is checked, never trusted to pick
+ * the algorithm (no `none`, no algorithm confusion).
+ */
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export type JwtErrorCode = 'MALFORMED' | 'BAD_SIGNATURE' | 'EXPIRED' | 'WRONG_AUDIENCE';
+
+export class JwtError extends Error {
+  readonly code: JwtErrorCode;
+  constructor(code: JwtErrorCode, message: string) {
+    super(message);
+    this.name = 'JwtError';
+    this.code = code;
+  }
+}
+
+export interface JwtClaims {
+  sub?: string;
+  aud?: string;
+  iat?: number; // seconds
+  exp?: number; // seconds
+  [claim: string]: unknown;
+}
+
+const HEADER = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+
+function base64url(input: string | Buffer): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+function sign(secret: string, data: string): Buffer {
+  return createHmac('sha256', secret).update(data).digest();
+}
+
+/**
+ * Sign claims; `iat` / `exp` are filled from ttlSeconds
+ */
+export function signJwt(claims: JwtClaims, secret: string, ttlSeconds: number, now: number = Date.now()): string {
+  const iat = Math.floor(now / 1000);
+  const payload = base64url(JSON.stringify({ ...claims, iat, exp: iat + ttlSeconds }));
+  const data = `${HEADER}.${payload}`;
+  return `${data}.${sign(secret, data).toString('base64url')}`;
+}
+
+/**
+ * Verify signature, expiry and (optionally) audience - returns the claims or throws JwtError
+ */
+export function verifyJwt(token: string, secret: string, audience?: string, now: number = Date.now()): JwtClaims {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new JwtError('MALFORMED', 'Token must have three parts');
+  }
+  const [header, payload, signature] = parts as [string, string, string];
+  let claims: JwtClaims;
+  try {
+    const decodedHeader = JSON.parse(Buffer.from(header, 'base64url').toString());
+    if (decodedHeader.alg !== 'HS256') {
+      throw new Error(`Unsupported alg ${decodedHeader.alg}`);
+    }
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+  } catch (error) {
+    throw new JwtError('MALFORMED', error instanceof Error ? error.message : 'Invalid token');
+  }
+  const expected = sign(secret, `${header}.${payload}`);
+  const received = Buffer.from(signature, 'base64url');
+  // Length check first - timingSafeEqual throws on mismatched lengths
+  if (received.length !== expected.length || !timingSafeEqual(expected, received)) {
+    throw new JwtError('BAD_SIGNATURE', 'Invalid token signature');
+  }
+  if (typeof claims.exp !== 'number' || claims.exp * 1000 <= now) {
+    throw new JwtError('EXPIRED', 'Token expired');
+  }
+  if (audience !== undefined && claims.aud !== audience) {
+    throw new JwtError('WRONG_AUDIENCE', 'Token is not valid for this service');
+  }
+  return claims;
+}
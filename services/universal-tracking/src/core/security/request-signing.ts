@@ -0,0 +1,304 @@
+/**
+ * Request Signing (HMAC preHandler)
+ * Verifies X-Signature / X-Timestamp / X-Site-ID on ingestion and presence endpoints
+ *
+ * - Timestamp must be within ±maxSkewSeconds of server time
+ * - Each signature is accepted once (Redis SET NX, TTL = skew window + max signature age)
+ * - Leave beacons (sendBeacon/sync XHR during unload) cannot set headers or await WebCrypto:
+ *   they carry a signature the SDK precomputed on the last join inside the body
+ * - Site keys are public (see hmac.ts): signatures protect integrity and against replay,
+ *   they do not authenticate the sender
+ */
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { buildBeaconBody, buildCanonicalString, deriveSiteKey, signPayload, signaturesMatch } from './hmac.js';
+import { logger } from '../observability/logger.js';
+import { metrics } from '../observability/metrics.js';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    rawBody?: string;
+  }
+}
+
+export type SigningMode = 'off' | 'report' | 'enforce';
+
+export type SigningFailureCode =
+  | 'MISSING_SIGNATURE'
+  | 'SIGNING_UNAVAILABLE'
+  | 'MISSING_SITE_ID'
+  | 'SITE_ID_MISMATCH'
+  | 'TIMESTAMP_OUT_OF_WINDOW'
+  | 'INVALID_SIGNATURE'
+  | 'REPLAYED_REQUEST';
+
+/** Parsed JSON object body (anything else is treated as an empty body) */
+export type RequestBody = Record<string, unknown>;
+
+/** Signature carried inside the body, with the exact content it covers */
+export interface BodySignature {
+  signature: string;
+  timestamp: string;
+  signedBody: string;
+}
+
+export interface SignedRouteConfig {
+  /** Extract the site/customer id from the parsed body */
+  getSiteId: (body: RequestBody) => string | undefined;
+  /** Accept a signature inside the body (CollectRequest, leave beacons) */
+  allowBodySignature?: boolean;
+  /** Read the body signature - defaults to CollectRequest (`signature` + `timestamp` over `events`) */
+  getBodySignature?: (body: RequestBody) => BodySignature | undefined;
+  /** Body signatures may be this old (precomputed beacon signatures) - defaults to the skew window */
+  maxBodySignatureAgeSeconds?: number;
+}
+
+/** Minimal Redis client surface used for replay protection (node-redis SET options) */
+export interface ReplayStore {
+  set(key: string, value: string, options: { NX: true; EX: number }): Promise<unknown>;
+}
+
+export interface RequestSigningOptions {
+  secret: string;
+  mode: SigningMode;
+  maxSkewSeconds: number;
+  redis: ReplayStore;
+  routes?: Record<string, SignedRouteConfig>;
+}
+
+// Precomputed leave beacon signatures stay valid this long (SDK re-signs on every join / TTL refresh)
+const BEACON_SIGNATURE_MAX_AGE_SECONDS = 3600;
+
+export const defaultSignedRoutes: Record<string, SignedRouteConfig> = {
+  '/api/events': {
+    getSiteId: (body) => stringField(body, 'site_id'),
+    allowBodySignature: true,
+  },
+  '/presence/join': {
+    getSiteId: (body) => stringField(body, 'customerId'),
+  },
+  '/presence/leave': {
+    getSiteId: (body) => stringField(body, 'customerId'),
+    allowBodySignature: true,
+    getBodySignature: getBeaconSignature,
+    maxBodySignatureAgeSeconds: BEACON_SIGNATURE_MAX_AGE_SECONDS,
+  },
+};
+
+export class SigningError extends Error {
+  readonly code: SigningFailureCode;
+  constructor(code: SigningFailureCode, message: string) {
+    super(message);
+    this.name = 'SigningError';
+    this.code = code;
+  }
+}
+
+/**
+ * Malformed JSON body - Fastify replies with statusCode
+ */
+export class BodyParseError extends Error {
+  readonly statusCode = 400;
+  constructor(message: string) {
+    super(message);
+    this.name = 'BodyParseError';
+  }
+}
+
+/**
+ * Request Verifier
+ * Pure verification logic (no Fastify dependency) - reused by tests
+ */
+export class RequestVerifier {
+  private secret: string;
+  private maxSkewMs: number;
+  private redis: ReplayStore;
+  private siteKeys: Map<string, string> = new Map(); // siteId -> derived key cache
+
+  constructor(secret: string, maxSkewSeconds: number, redis: ReplayStore) {
+    this.secret = secret;
+    this.maxSkewMs = maxSkewSeconds * 1000;
+    this.redis = redis;
+  }
+
+  /**
+   * Verify one request, throws SigningError on failure
+   */
+  async verify(
+    routeConfig: SignedRouteConfig,
+    headers: Record<string, string | string[] | undefined>,
+    body: unknown,
+    rawBody: string
+  ): Promise<void> {
+    const parsed = toRequestBody(typeof body === 'string' ? safeParse(body) : body);
+    const siteId = routeConfig.getSiteId(parsed);
+    if (!siteId) {
+      throw new SigningError('MISSING_SITE_ID', 'Site id missing from request body');
+    }
+
+    const headerSiteId = firstHeader(headers['x-site-id']);
+    if (headerSiteId && headerSiteId !== siteId) {
+      throw new SigningError('SITE_ID_MISMATCH', 'X-Site-ID does not match request body');
+    }
+
+    let signature = firstHeader(headers['x-signature']);
+    let timestamp = firstHeader(headers['x-timestamp']);
+    let signedBody = rawBody;
+    let maxAgeMs = this.maxSkewMs;
+
+    // Body signatures (CollectRequest, leave beacons) cover their own content, not the raw body
+    if (!signature && routeConfig.allowBodySignature) {
+      const bodySignature = (routeConfig.getBodySignature ?? getCollectSignature)(parsed);
+      if (bodySignature) {
+        ({ signature, timestamp, signedBody } = bodySignature);
+        maxAgeMs = Math.max(maxAgeMs, (routeConfig.maxBodySignatureAgeSeconds ?? 0) * 1000);
+      }
+    }
+
+    if (!signature || !timestamp) {
+      // SDK could not sign (no WebCrypto / no key) - reported apart from stripped signatures
+      if (firstHeader(headers['x-signing-unavailable'])) {
+        throw new SigningError('SIGNING_UNAVAILABLE', 'Client could not sign the request');
+      }
+      throw new SigningError('MISSING_SIGNATURE', 'Request signature missing');
+    }
+
+    const ts = Number(timestamp);
+    const age = Date.now() - ts;
+    if (!Number.isFinite(ts) || age > maxAgeMs || age < -this.maxSkewMs) {
+      throw new SigningError('TIMESTAMP_OUT_OF_WINDOW', 'Request timestamp outside allowed window');
+    }
+
+    const expected = signPayload(this.getSiteKey(siteId), buildCanonicalString(timestamp, siteId, signedBody));
+    if (!signaturesMatch(expected, signature)) {
+      throw new SigningError('INVALID_SIGNATURE', 'Request signature is invalid');
+    }
+
+    await this.checkReplay(signature, maxAgeMs);
+  }
+
+  /**
+   * Replay protection - every signature is single-use while its timestamp is accepted
+   */
+  private async checkReplay(signature: string, maxAgeMs: number): Promise<void> {
+    const ttlSeconds = Math.ceil((this.maxSkewMs + maxAgeMs) / 1000);
+    let stored: unknown;
+    try {
+      stored = await this.redis.set(`SEEN_SIGNATURE:${signature}`, '1', { NX: true, EX: ttlSeconds });
+    } catch (error) {
+      // Fail open - Redis outage must not take ingestion down
+      logger.error({ err: error }, '[Signing] Replay check failed');
+      return;
+    }
+    if (stored === null) {
+      throw new SigningError('REPLAYED_REQUEST', 'Request signature already used');
+    }
+  }
+
+  private getSiteKey(siteId: string): string {
+    let key = this.siteKeys.get(siteId);
+    if (!key) {
+      key = deriveSiteKey(this.secret, siteId);
+      this.siteKeys.set(siteId, key);
+    }
+    return key;
+  }
+}
+
+/**
+ * Register raw-body capture and the signing preHandler on the root instance
+ * Must run BEFORE route plugins are registered (content type parsers are inherited)
+ */
+export function registerRequestSigning(fastify: FastifyInstance, options: RequestSigningOptions): void {
+  const routes = options.routes ?? defaultSignedRoutes;
+  const verifier = new RequestVerifier(options.secret, options.maxSkewSeconds, options.redis);
+
+  // Keep the exact bytes the client signed (JSON.stringify of the parsed body may differ)
+  fastify.removeContentTypeParser('application/json');
+  fastify.addContentTypeParser('application/json', { parseAs: 'string' }, (request, body, done) => {
+    const raw = body as string;
+    request.rawBody = raw;
+    if (raw.length === 0) {
+      done(null, {});
+      return;
+    }
+    try {
+      done(null, JSON.parse(raw));
+    } catch (error) {
+      done(new BodyParseError((error as Error).message), undefined);
+    }
+  });
+
+  if (options.mode === 'off') {
+    return;
+  }
+
+  fastify.addHook('preHandler', async (request: FastifyRequest, reply: FastifyReply) => {
+    const routeConfig = routes[request.routeOptions.url ?? ''];
+    if (!routeConfig || request.method !== 'POST') return;
+
+    const rawBody = request.rawBody ?? (typeof request.body === 'string' ? request.body : '');
+    try {
+      await verifier.verify(routeConfig, request.headers, request.body, rawBody);
+    } catch (error) {
+      if (!(error instanceof SigningError)) throw error;
+
+      metrics.requestSigningFailures.inc({ code: error.code });
+      if (options.mode === 'report') {
+        logger.warn({ code: error.code, route: request.routeOptions.url }, '[Signing] Verification failed (report-only)');
+        return;
+      }
+      return reply.code(401).send({
+        error: 'Unauthorized',
+        message: error.message,
+        code: error.code,
+      });
+    }
+  });
+}
+
+function firstHeader(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function isRequestBody(value: unknown): value is RequestBody {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toRequestBody(value: unknown): RequestBody {
+  return isRequestBody(value) ? value : {};
+}
+
+function stringField(body: RequestBody, field: string): string | undefined {
+  const value = body[field];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * CollectRequest - `signature` + `timestamp` over the events array
+ */
+function getCollectSignature(body: RequestBody): BodySignature | undefined {
+  const signature = stringField(body, 'signature');
+  if (!signature) return undefined;
+  return { signature, timestamp: String(body.timestamp), signedBody: JSON.stringify(body.events ?? []) };
+}
+
+/**
+ * Leave beacon - `beaconSignature` precomputed on join over the session + tab ids
+ */
+function getBeaconSignature(body: RequestBody): BodySignature | undefined {
+  const beacon = body.beaconSignature;
+  const sessionId = stringField(body, 'sessionId');
+  const tabId = stringField(body, 'tabId');
+  if (!isRequestBody(beacon) || !sessionId || !tabId) return undefined;
+  const signature = stringField(beacon, 'signature');
+  if (!signature) return undefined;
+  return { signature, timestamp: String(beacon.timestamp), signedBody: buildBeaconBody(sessionId, tabId) };
+}
+
+function safeParse(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
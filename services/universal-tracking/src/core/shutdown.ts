@@ -1,17 +1,41 @@
 import type { FastifyInstance } from 'fastify';
 import { redisService } from './cache/redis.js';
+import { clickhouseService } from './analytics/clickhouse.js';
+import { postgresService } from './database/postgres.js';
+import { readinessProbe } from './observability/readiness.js';
+import { config } from './config/env.js';
 export function setupGracefulShutdown(
   fastify: FastifyInstance, 
-  additionalCleanup?: () => Promise<void>
+  additionalCleanup?: () => Promise<void>,
+  flushBuffers?: () => Promise<void>
 ) {
   const shutdown = async (signal: string) => {
+    if (readinessProbe.isShuttingDown()) return; // Second signal while draining
     try {
+      // Fail readiness first and keep serving while load balancers drain traffic
+      readinessProbe.markShuttingDown();
+      if (config.SHUTDOWN_DRAIN_MS > 0) {
+        console.log(`[Shutdown] ${signal} received, draining for ${config.SHUTDOWN_DRAIN_MS}ms`);
+        await new Promise((resolve) => setTimeout(resolve, config.SHUTDOWN_DRAIN_MS));
+      }
       // Run additional cleanup if provided
       if (additionalCleanup) {
         await additionalCleanup();
       }
       // Close Fastify server
       await fastify.close();
+      // Flush buffered events once no new requests can arrive
+      if (flushBuffers) {
+        try {
+          await flushBuffers();
+        } catch (error) {
+          console.error('❌ Failed to flush event buffers:', error);
+        }
+      }
+      // Disconnect from ClickHouse
+      await clickhouseService.disconnect();
+      // Disconnect from PostgreSQL
+      await postgresService.disconnect();
       // Disconnect from Redis
       await redisService.disconnect();
       process.exit(0);
@@ -1,11 +1,26 @@
 import Fastify from 'fastify';
 import { WebSocketServer } from 'ws';
+import { PRESENCE_LIMITS } from '@universal-tracking/schemas';
 import { config } from './core/config/env.js';
-import { logger } from './core/observability/logger.js';
+import { logger, serializeRequest } from './core/observability/logger.js';
+import { registerHttpMetrics } from './core/observability/metrics.js';
+import { readinessProbe } from './core/observability/readiness.js';
+import { eventLoopMonitor } from './core/observability/liveness.js';
 import { setupRoutes } from './core/http/fastify.js';
 import { setupGracefulShutdown } from './core/shutdown.js';
+import { registerRequestSigning } from './core/security/request-signing.js';
 import { redisService } from './core/cache/redis.js';
+import { clickhouseService } from './core/analytics/clickhouse.js';
+import { postgresService } from './core/database/postgres.js';
 import { ActiveUsersServer } from './modules/active_users/server/index.js';
+import {
+  ClickHouseEventSink,
+  EventIngestService,
+  LoggerEventSink,
+  type EventSink,
+} from './modules/events/index.js';
+import { CustomerRegistry, PostgresCustomerStore } from './modules/customers/index.js';
+import { AuditLog, PostgresAuditStore } from './modules/audit/index.js';
 
 async function bootstrap() {
   
@@ -22,6 +37,18 @@ async function bootstrap() {
     process.exit(1);
   }
 
+  // Connect to PostgreSQL (customer registry)
+  try {
+    await postgresService.connect();
+  } catch (error) {
+    console.error('❌ Failed to connect to PostgreSQL:', error);
+    process.exit(1);
+  }
+  const customerRegistry = new CustomerRegistry(
+    new PostgresCustomerStore(postgresService.getPool()),
+    config.CUSTOMER_CACHE_TTL_SECONDS * 1000
+  );
+
   // ✅ PHASE 3: Initialize Active Users Server with updated TTL
   const activeUsersServer = new ActiveUsersServer(redisService.getClient(), {
     presenceTTL: 600, // 600 saniye (10 dakika) - Sigorta/fallback TTL
@@ -30,12 +57,46 @@ async function bootstrap() {
     maxRequestsPerMinute: 5000,
     wsPingInterval: 25000, // Phase 1: 25s server ping
     wsPongTimeout: 2,       // Phase 1: 2 missed pongs
-  });
+    sessionTokenSecret: config.JWT_SECRET, // WebSocket auth requires the token issued by join
+  }, customerRegistry);
   
 
+  // Event ingestion (POST /api/events)
+  let eventSink: EventSink = new LoggerEventSink();
+  if (config.EVENT_SINK === 'clickhouse') {
+    // Connect to ClickHouse (runs schema migrations)
+    try {
+      await clickhouseService.connect();
+    } catch (error) {
+      console.error('❌ Failed to connect to ClickHouse:', error);
+      process.exit(1);
+    }
+    eventSink = new ClickHouseEventSink(clickhouseService.getClient(), {
+      maxBatchSize: config.CLICKHOUSE_BATCH_SIZE,
+      flushIntervalMs: config.CLICKHOUSE_FLUSH_INTERVAL_MS,
+      maxBufferSize: config.CLICKHOUSE_MAX_BUFFER,
+    });
+  }
+  const ingestService = new EventIngestService(eventSink);
+
+  // Liveness - event-loop stall detection for /health
+  eventLoopMonitor.setStallThreshold(config.EVENT_LOOP_STALL_MS);
+  eventLoopMonitor.start();
+
+  // Readiness probe - ClickHouse is only required when it is the event sink
+  readinessProbe.setTimeout(config.READINESS_TIMEOUT_MS);
+  readinessProbe.register('redis', () => activeUsersServer.ping());
+  readinessProbe.register('database', () => postgresService.ping());
+  if (config.EVENT_SINK === 'clickhouse') {
+    readinessProbe.register('clickhouse', () => clickhouseService.ping());
+  }
+
   // Create Fastify instance
   const fastify = Fastify({
-    logger: true,
+    logger: {
+      // Stream / upgrade tokens in query strings are redacted from request logs
+      serializers: { req: serializeRequest },
+    },
     trustProxy: true,
   });
 
@@ -47,20 +108,47 @@ async function bootstrap() {
     },
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-Site-ID', 'X-Timestamp', 'X-Signature']
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Site-ID', 'X-Timestamp', 'X-Signature', 'X-Signing-Unavailable'],
+    // SDK reads these to back off (not CORS-safelisted)
+    exposedHeaders: [
+      'Retry-After',
+      'RateLimit-Limit',
+      'RateLimit-Remaining',
+      'RateLimit-Reset',
+      'X-RateLimit-Scope',
+    ],
   });
 
+  // HMAC request signing (must be registered before routes)
+  registerRequestSigning(fastify, {
+    secret: config.HMAC_SECRET,
+    mode: config.HMAC_ENFORCEMENT,
+    maxSkewSeconds: config.HMAC_MAX_SKEW_SECONDS,
+    redis: redisService.getClient(),
+  });
+
+  // Prometheus request histograms (before routes so every route is covered)
+  registerHttpMetrics(fastify);
+
   // Setup routes
-  await setupRoutes(fastify);
+  await setupRoutes(fastify, { ingestService, customerRegistry });
 
   // Register Active Users REST endpoints
   activeUsersServer.registerRESTEndpoints(fastify);
+
+  // Admin API (session inspection / eviction) - only with an admin key
+  if (config.ADMIN_API_KEY) {
+    const auditLog = new AuditLog(new PostgresAuditStore(postgresService.getPool()));
+    activeUsersServer.registerAdminEndpoints(fastify, auditLog, { apiKey: config.ADMIN_API_KEY });
+  }
   
 
   // Setup graceful shutdown
   setupGracefulShutdown(fastify, async () => {
     
     await activeUsersServer.destroy();
+  }, async () => {
+    await eventSink.close?.();
   });
 
   // Start server
@@ -75,14 +163,16 @@ async function bootstrap() {
     // Setup WebSocket server for Active Users on the same HTTP server
     const wss = new WebSocketServer({ 
       server: fastify.server,
-      path: '/ws/active-users'
+      path: '/ws/active-users',
+      // Hard cap - frames above the schema limit (but below this) get a PAYLOAD_TOO_LARGE error
+      maxPayload: PRESENCE_LIMITS.maxBodyBytes * 4,
     });
     activeUsersServer.registerWebSocketServer(wss);
     
 
-    // Start EMA calculation for all customers (bu örnekte tek customer için)
-    // Production'da bu dinamik olmalı
-    // activeUsersServer.startEMACalculation('default-customer');
+    // Start EMA calculation for every customer with live sessions
+    // (discovery + Redis lock → each customer is computed by a single instance)
+    activeUsersServer.startEMAScheduler();
     
   } catch (error) {
     console.error('❌ Failed to start server:', error);
@@ -4,6 +4,7 @@
 import type { ClientConfig } from '../types/Config.js';
 export const defaultClientConfig: Partial<ClientConfig> = {
   debug: false,
+  signingKey: '', // Empty = unsigned requests
   // ✅ TTL Refresh settings for Active mode
   ttlRefreshInterval: 2 * 60 * 1000, // 2 dakika (active mode - WebSocket)
   // ✅ TTL Refresh settings for Passive_Active mode
@@ -16,6 +17,8 @@ export const defaultClientConfig: Partial<ClientConfig> = {
   pollingIntervalPassive: 90 * 60 * 1000, // 90 dakika (passive_active mode)
   enableWebSocket: true,
   enablePolling: true,
+  // Offline queue
+  offlineQueueTTL: 10 * 60 * 1000, // 10 dakika - server presence TTL ile aynı
 };
 export function mergeConfig(userConfig: ClientConfig): Required<ClientConfig> {
   return {
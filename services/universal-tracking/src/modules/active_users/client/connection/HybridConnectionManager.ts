@@ -5,11 +5,18 @@
 import { WebSocketClient } from '../transport/websocket.js';
 import { PollingClient } from '../transport/polling.js';
 import { HttpClient } from '../transport/http.js';
+import { RequestSigner, type BeaconSignature } from '../transport/signing.js';
+import { PresenceQueue } from '../transport/queue.js';
+import { createOutboxStorage } from '../state/outbox.js';
 import type { ClientConfig } from '../../types/Config.js';
-import type { ServerMessage, ClientMessage, MetricsResponse, JoinPayload } from '../../types/Messages.js';
+import type { RateLimitEvent } from '../../types/Events.js';
+import { PROTOCOL_CAPABILITIES, PROTOCOL_VERSION, type NegotiatedProtocol } from '../../types/Protocol.js';
+import type { ServerMessage, ClientMessage, MetricsResponse, JoinPayload, JoinResponse, UserTraits } from '../../types/Messages.js';
 export type ConnectionMode = 'websocket' | 'polling';
 export type AppState = 'foreground' | 'background';
 export type SessionMode = 'active' | 'passive_active' | 'removed';
+// Re-join this long before the session token expires (clock skew + request time)
+const TOKEN_REFRESH_MARGIN = 60000;
 
 export class HybridConnectionManager {
   private config: Required<ClientConfig>;
@@ -19,6 +26,8 @@ export class HybridConnectionManager {
   private wsClient: WebSocketClient;
   private pollingClient: PollingClient;
   private httpClient: HttpClient;
+  private signer: RequestSigner;
+  private presenceQueue: PresenceQueue;
   private currentMode: ConnectionMode | null = null;
   private appState: AppState = 'foreground';
   private sessionMode: SessionMode = 'active';
@@ -26,6 +35,12 @@ export class HybridConnectionManager {
   private lastAppStateChange = 0;
   private onMetricsUpdate: ((metrics: MetricsResponse) => void) | null = null;
   private onConnectionChange: ((mode: ConnectionMode) => void) | null = null;
+  private onProtocolUnsupported: (() => void) | null = null;
+  private onRateLimited: ((event: RateLimitEvent) => void) | null = null;
+  // 🆕 Protocol negotiated in the last hello (null = not connected yet / legacy server)
+  private protocol: NegotiatedProtocol | null = null;
+  // 🆕 Server rejected this bundle's protocol → WebSocket stays off until the SDK reloads
+  private protocolRejected = false;
   // 🆕 Cache device info for TTL refresh in polling mode
   private cachedDeviceInfo: {
     platform?: string;
@@ -34,6 +49,12 @@ export class HybridConnectionManager {
     desktop_mode?: boolean;
     userAgent?: string;
   } = {};
+  // 🆕 WebSocket session token (from the last join response)
+  private wsToken: { token: string; expiresAt: number } | null = null;
+  // 🆕 Current page (path + title), sent with join and TTL refresh
+  private currentPage: { path: string; title?: string } | null = null;
+  // 🆕 Identified user (identify()), sent with join and TTL refresh
+  private identity: { userId: string; traits?: UserTraits } | null = null;
   constructor(
     config: Required<ClientConfig>,
     customerId: string,
@@ -45,8 +66,18 @@ export class HybridConnectionManager {
     this.sessionId = sessionId;
     this.tabId = tabId;
     this.wsClient = new WebSocketClient(config.websocketUrl);
-    this.pollingClient = new PollingClient(config.apiUrl, customerId);
-    this.httpClient = new HttpClient(config.apiUrl);
+    const handleRateLimited = (event: RateLimitEvent) => this.onRateLimited?.(event);
+    this.pollingClient = new PollingClient(config.apiUrl, customerId, handleRateLimited);
+    // Without a key (or WebCrypto) the signer marks requests X-Signing-Unavailable
+    this.signer = new RequestSigner(customerId, config.signingKey);
+    this.httpClient = new HttpClient(config.apiUrl, this.signer, handleRateLimited);
+    // 🆕 Join/leave survive flaky networks (persisted + retried, shared by all tabs)
+    this.presenceQueue = new PresenceQueue(
+      this.httpClient,
+      createOutboxStorage(`active_users_outbox_${customerId}`),
+      config.offlineQueueTTL,
+      (response) => this.storeToken(response)
+    );
   }
   /**
    * Start connection based on app state
@@ -59,8 +90,21 @@ export class HybridConnectionManager {
     this.appState = appState;
     this.onMetricsUpdate = onMetricsUpdate;
     this.onConnectionChange = onConnectionChange;
+    this.presenceQueue.start();
     this.selectOptimalConnection();
   }
+  /**
+   * 🆕 Called when the server no longer supports this bundle's protocol
+   */
+  setProtocolUnsupportedHandler(handler: () => void): void {
+    this.onProtocolUnsupported = handler;
+  }
+  /**
+   * 🆕 Called whenever the server throttles join / leave / metrics polling
+   */
+  setRateLimitHandler(handler: (event: RateLimitEvent) => void): void {
+    this.onRateLimited = handler;
+  }
   /**
    * ✅ Connection selection based on session_mode and appState
    * 
@@ -84,7 +128,7 @@ export class HybridConnectionManager {
     }
     
     // ✅ PRIORITY 2: active + foreground → WebSocket (if enabled)
-    if (this.sessionMode === 'active' && this.appState === 'foreground' && this.config.enableWebSocket) {
+    if (this.sessionMode === 'active' && this.appState === 'foreground' && this.config.enableWebSocket && !this.protocolRejected) {
       console.log(`[HybridConnection] → WebSocket (active + foreground)`);
       this.switchToWebSocket();
       return;
@@ -181,16 +225,41 @@ export class HybridConnectionManager {
         }
         break;
       case 'hello':
-        // Server hello received
+        // Server hello received (older servers send no version → v1)
+        this.protocol = {
+          version: message.version ?? 1,
+          capabilities: message.capabilities ?? [],
+        };
         break;
       case 'error':
         console.error('[HybridConnection] Server error:', message.message);
+        if (message.code === 'PROTOCOL_UNSUPPORTED') {
+          this.handleProtocolUnsupported(message.minVersion);
+          break;
+        }
+        // Token rejected → drop it, the next auth re-joins for a fresh one
+        if (message.code?.startsWith('TOKEN_') || message.code === 'INVALID_TOKEN') {
+          this.wsToken = null;
+        }
         break;
       case 'pong':
         // Pong response to ping
         break;
     }
   }
+  /**
+   * 🆕 Protocol rejected - stay on polling (REST is unversioned) and let the client reload the SDK
+   */
+  private handleProtocolUnsupported(minVersion?: number): void {
+    console.warn(`[HybridConnection] ⚠️ Protocol v${PROTOCOL_VERSION} not supported by server (min: v${minVersion ?? '?'})`);
+    this.protocolRejected = true;
+    if (this.currentMode === 'websocket') {
+      this.switchToPolling();
+    }
+    if (this.onProtocolUnsupported) {
+      this.onProtocolUnsupported();
+    }
+  }
   /**
    * Handle WebSocket state change
    * ✅ OPTIMIZATION: WebSocket kopunca otomatik polling fallback
@@ -198,20 +267,49 @@ export class HybridConnectionManager {
   private handleWebSocketStateChange(connected: boolean): void {
     if (connected) {
       // 🆕 WebSocket bağlandı, auth mesajı gönder
-      console.log(`[HybridConnection] 🔐 Sending WebSocket auth message`);
-      const authMessage: ClientMessage = {
-        type: 'auth',
-        customerId: this.customerId,
-        sessionId: this.sessionId,
-        tabId: this.tabId,
-      };
-      this.wsClient.send(authMessage);
+      this.sendAuth().catch((error) => {
+        console.error('[HybridConnection] WebSocket auth failed:', error);
+      });
     } else if (!connected && this.currentMode === 'websocket') {
       // WebSocket disconnected, fallback to polling
       console.log(`[HybridConnection] ❌ WebSocket disconnected, falling back to polling`);
       this.switchToPolling();
     }
   }
+  /**
+   * 🆕 Send the WebSocket auth message with the session token
+   * Token missing or about to expire → JOIN first (server issues a fresh one)
+   */
+  private async sendAuth(): Promise<void> {
+    if (!this.wsToken || this.wsToken.expiresAt - Date.now() < TOKEN_REFRESH_MARGIN) {
+      console.log(`[HybridConnection] 🔑 Session token missing/expiring, re-joining`);
+      await this.join(this.buildRefreshJoinPayload(this.sessionMode));
+    }
+    console.log(`[HybridConnection] 🔐 Sending WebSocket auth message`);
+    const authMessage: ClientMessage = {
+      type: 'auth',
+      customerId: this.customerId,
+      sessionId: this.sessionId,
+      tabId: this.tabId,
+      ...(this.wsToken && { token: this.wsToken.token }),
+      version: PROTOCOL_VERSION,
+      capabilities: [...PROTOCOL_CAPABILITIES],
+    };
+    this.wsClient.send(authMessage);
+  }
+  /**
+   * 🆕 JOIN via HTTP (queued when offline)
+   * The session token is kept by storeToken - also for joins delivered later from the queue
+   */
+  private async join(payload: JoinPayload): Promise<void> {
+    void this.signer.prepareBeacon(this.sessionId, this.tabId);
+    await this.presenceQueue.join(payload);
+  }
+  private storeToken(response: JoinResponse): void {
+    if (response.wsToken && response.wsTokenExpiresAt) {
+      this.wsToken = { token: response.wsToken, expiresAt: response.wsTokenExpiresAt };
+    }
+  }
   /**
    * Update app state (foreground/background) - DEBOUNCED
    */
@@ -247,6 +345,39 @@ export class HybridConnectionManager {
     this.selectOptimalConnection();
   }
   
+  /**
+   * 🆕 Set current page (SPA route change) - reported with the next join / TTL refresh
+   */
+  setPage(page: { path: string; title?: string }): void {
+    this.currentPage = page;
+  }
+  /**
+   * 🆕 Set identified user - reported with the next join / TTL refresh
+   */
+  setIdentity(userId: string, traits?: UserTraits): void {
+    this.identity = { userId, ...(traits && { traits }) };
+  }
+  /**
+   * User fields for join / ttl_refresh payloads
+   */
+  private getUserFields(): { userId?: string; userTraits?: UserTraits } {
+    if (!this.identity) return {};
+    return {
+      userId: this.identity.userId,
+      ...(this.identity.traits && { userTraits: this.identity.traits }),
+    };
+  }
+  /**
+   * Page fields for join / ttl_refresh payloads
+   */
+  private getPageFields(): { page_path?: string; page_title?: string } {
+    if (!this.currentPage) return {};
+    return {
+      page_path: this.currentPage.path,
+      ...(this.currentPage.title && { page_title: this.currentPage.title }),
+    };
+  }
+  
   /**
    * Send join via HTTP
    */
@@ -281,8 +412,10 @@ export class HybridConnectionManager {
       total_tab_quantity,
       total_backgroundTab_quantity,
       ...(session_mode && session_mode !== 'removed' && { session_mode }),
+      ...this.getPageFields(),
+      ...this.getUserFields(),
     };
-    await this.httpClient.join(payload);
+    await this.join(payload);
   }
   /**
    * ✅ MOBILE: Send leave via HTTP (for mobile cleanup)
@@ -294,7 +427,7 @@ export class HybridConnectionManager {
       tabId: this.tabId,
       timestamp: Date.now(),
     };
-    await this.httpClient.leave(payload);
+    await this.presenceQueue.leave(payload);
   }
   /**
    * ✅ Send TTL refresh via WebSocket or HTTP (with session_mode)
@@ -315,35 +448,57 @@ export class HybridConnectionManager {
         tabId: this.tabId,
         timestamp: Date.now(),
         ...(sessionMode !== 'removed' && { session_mode: sessionMode }),
+        ...this.getPageFields(),
+        ...this.getUserFields(),
       };
       this.wsClient.send(message);
+      void this.signer.prepareBeacon(this.sessionId, this.tabId);
     } else {
       // Polling mode: Send JOIN request to refresh TTL
-      // ✅ CRITICAL FIX: Include cached device info to preserve fields in Redis
-      const payload: JoinPayload = {
-        customerId: this.customerId,
-        sessionId: this.sessionId,
-        tabId: this.tabId,
-        timestamp: Date.now(),
-        ...(sessionMode !== 'removed' && { session_mode: sessionMode }),
-        // 🆕 Include cached device info
-        platform: this.cachedDeviceInfo.platform,
-        browser: this.cachedDeviceInfo.browser,
-        device: this.cachedDeviceInfo.device,
-        desktop_mode: this.cachedDeviceInfo.desktop_mode,
-        userAgent: this.cachedDeviceInfo.userAgent,
-        // Note: Tab counts not cached, will be undefined
-        // Server will keep existing tab counts from Redis
-      };
-      await this.httpClient.join(payload);
+      await this.join(this.buildRefreshJoinPayload(sessionMode));
     }
   }
+  /**
+   * JOIN payload for refreshes (polling TTL refresh, token renewal)
+   * ✅ CRITICAL FIX: Include cached device info to preserve fields in Redis
+   */
+  private buildRefreshJoinPayload(sessionMode: SessionMode): JoinPayload {
+    return {
+      customerId: this.customerId,
+      sessionId: this.sessionId,
+      tabId: this.tabId,
+      timestamp: Date.now(),
+      ...(sessionMode !== 'removed' && { session_mode: sessionMode }),
+      // 🆕 Include cached device info
+      platform: this.cachedDeviceInfo.platform,
+      browser: this.cachedDeviceInfo.browser,
+      device: this.cachedDeviceInfo.device,
+      desktop_mode: this.cachedDeviceInfo.desktop_mode,
+      userAgent: this.cachedDeviceInfo.userAgent,
+      ...this.getPageFields(),
+      ...this.getUserFields(),
+      // Note: Tab counts not cached, will be undefined
+      // Server will keep existing tab counts from Redis
+    };
+  }
+  /**
+   * 🆕 Leave beacon signature precomputed on the last join / TTL refresh (null = unsigned)
+   */
+  getBeaconSignature(): BeaconSignature | null {
+    return this.signer.getBeaconSignature();
+  }
   /**
    * Get current connection mode
    */
   getMode(): ConnectionMode | null {
     return this.currentMode;
   }
+  /**
+   * Protocol negotiated with the server (null until the first hello)
+   */
+  getProtocol(): NegotiatedProtocol | null {
+    return this.protocol;
+  }
   /**
    * Get connection status
    */
@@ -361,6 +516,7 @@ export class HybridConnectionManager {
   stop(): void {
     this.wsClient.disconnect();
     this.pollingClient.stop();
+    this.presenceQueue.stop();
     this.currentMode = null;
   }
 }
@@ -0,0 +1,98 @@
+/**
+ * Navigation Tracker
+ * Detects SPA route changes (history.pushState / replaceState, popstate, hashchange)
+ *
+ * - History API wrap edilir çünkü pushState/replaceState event üretmez
+ * - Debounced: router'lar tek navigasyonda birden fazla replaceState çağırabilir,
+ *   title da genelde route değiştikten sonra set edilir
+ * - Sadece path değişince callback çağrılır (query/hash tek başına sayfa değildir)
+ */
+// What the server keeps (server/utils/page.ts) - longer values are cut before sending,
+// so an unusual route never pushes a payload over the schema limits
+const MAX_PATH_LENGTH = 512;
+const MAX_TITLE_LENGTH = 200;
+export interface PageInfo {
+  path: string;
+  title?: string;
+}
+export class NavigationTracker {
+  private onPageChange: ((page: PageInfo) => void) | null = null;
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private debounceMs: number;
+  private lastPath: string | null = null;
+  private originalPushState: History['pushState'] | null = null;
+  private originalReplaceState: History['replaceState'] | null = null;
+  private wrappedPushState: History['pushState'] | null = null;
+  private wrappedReplaceState: History['replaceState'] | null = null;
+  private readonly handleEvent = () => this.scheduleCheck();
+
+  constructor(debounceMs: number = 300) {
+    this.debounceMs = debounceMs;
+  }
+  /**
+   * Current page (path without query/hash + document title)
+   */
+  static getCurrentPage(): PageInfo {
+    const title = document.title.trim().slice(0, MAX_TITLE_LENGTH);
+    return {
+      path: (window.location.pathname || '/').slice(0, MAX_PATH_LENGTH),
+      ...(title && { title }),
+    };
+  }
+  start(onPageChange: (page: PageInfo) => void): void {
+    if (this.onPageChange) return;
+    this.onPageChange = onPageChange;
+    this.lastPath = window.location.pathname;
+    // Wrap History API (pushState/replaceState don't fire any event)
+    this.originalPushState = history.pushState;
+    this.originalReplaceState = history.replaceState;
+    const originalPushState = this.originalPushState;
+    const originalReplaceState = this.originalReplaceState;
+    const handleEvent = this.handleEvent;
+    this.wrappedPushState = function (this: History, ...args: Parameters<History['pushState']>) {
+      originalPushState.apply(this, args);
+      handleEvent();
+    };
+    this.wrappedReplaceState = function (this: History, ...args: Parameters<History['replaceState']>) {
+      originalReplaceState.apply(this, args);
+      handleEvent();
+    };
+    history.pushState = this.wrappedPushState;
+    history.replaceState = this.wrappedReplaceState;
+    window.addEventListener('popstate', this.handleEvent);
+    window.addEventListener('hashchange', this.handleEvent);
+  }
+  stop(): void {
+    if (!this.onPageChange) return;
+    // Restore History API (only if nobody wrapped it after us)
+    if (this.originalPushState && history.pushState === this.wrappedPushState) {
+      history.pushState = this.originalPushState;
+    }
+    if (this.originalReplaceState && history.replaceState === this.wrappedReplaceState) {
+      history.replaceState = this.originalReplaceState;
+    }
+    this.originalPushState = null;
+    this.originalReplaceState = null;
+    this.wrappedPushState = null;
+    this.wrappedReplaceState = null;
+    window.removeEventListener('popstate', this.handleEvent);
+    window.removeEventListener('hashchange', this.handleEvent);
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    this.onPageChange = null;
+  }
+  private scheduleCheck(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      const page = NavigationTracker.getCurrentPage();
+      if (page.path === this.lastPath) return;
+      this.lastPath = page.path;
+      this.onPageChange?.(page);
+    }, this.debounceMs);
+  }
+}
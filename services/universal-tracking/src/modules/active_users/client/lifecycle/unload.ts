@@ -8,6 +8,7 @@
  */
 
 import type { LeavePayload } from '../../types/Messages.js';
+import type { BeaconSignature } from '../transport/signing.js';
 
 type DestType = 'internal' | 'external' | 'reload' | 'unknown';
 
@@ -16,6 +17,8 @@ interface UnloadHandlerOptions {
   allowedOrigins?: string[];
   /** SPA router kullanıyorsan true bırak; pushState/replaceState interception açık kalır. */
   enableSpaDetection?: boolean;
+  /** Beacon'lar header taşıyamaz: join'de önceden hesaplanan imza payload'a eklenir */
+  getBeaconSignature?: () => BeaconSignature | null;
 }
 
 export class UnloadHandler {
@@ -383,13 +386,14 @@ export class UnloadHandler {
         console.log('[Unload:beforeunload] browser close/navigation detected - sending beacon');
         // ✅ ONLY sendBeacon - never fetch/XHR
         try {
-          const payload = {
+          const payload: LeavePayload = {
             customerId: this.customerId,
             sessionId: this.sessionId,
             tabId: this.tabId,
             timestamp: Date.now(),
-            mode: 'pending' as const,
-            reason: 'tabclose' as const
+            mode: 'pending',
+            reason: 'tabclose',
+            ...this.getBeaconSignatureField(),
           };
           const ok = navigator.sendBeacon?.(
             `${this.apiUrl}/presence/leave`,
@@ -573,6 +577,7 @@ export class UnloadHandler {
       timestamp: Date.now(),
       mode: 'final',
       reason,
+      ...this.getBeaconSignatureField(),
     };
 
     // ✅ CRITICAL: Use synchronous send during unload
@@ -591,6 +596,7 @@ export class UnloadHandler {
       timestamp: Date.now(),
       mode: 'pending',
       reason,
+      ...this.getBeaconSignatureField(),
     };
 
     // ✅ CRITICAL: Use synchronous send during unload
@@ -598,6 +604,14 @@ export class UnloadHandler {
     console.log(ok ? '[Unload] ✅ PENDING LEAVE sent' : '[Unload] ❌ PENDING LEAVE failed');
   }
 
+  /**
+   * Precomputed leave signature (sendBeacon / sync XHR cannot set signing headers)
+   */
+  private getBeaconSignatureField(): Pick<LeavePayload, 'beaconSignature'> {
+    const beaconSignature = this.options.getBeaconSignature?.();
+    return beaconSignature ? { beaconSignature } : {};
+  }
+
   public resetLeaveSentFlag(): void {
     this.leaveSent = false;
     console.log('[Unload] leaveSent reset');
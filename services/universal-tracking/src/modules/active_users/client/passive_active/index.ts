@@ -363,4 +363,8 @@ export class PassiveActiveManager {
     this.stopAllTimers();
   }
 }
-
+/**
+ * Factory passed to ActiveUsersClient - importing it is what pulls PassiveActive into a bundle
+ */
+export type PassiveActiveFactory = (config: PassiveActiveConfig) => PassiveActiveManager;
+export const createPassiveActiveManager: PassiveActiveFactory = (config) => new PassiveActiveManager(config);
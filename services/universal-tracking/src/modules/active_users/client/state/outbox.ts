@@ -0,0 +1,155 @@
+/**
+ * Outbox Storage
+ * Persists presence messages that could not be delivered (offline / server unavailable)
+ *
+ * - IndexedDB first, localStorage when IndexedDB is missing or blocked (private mode),
+ *   memory as the last resort (queue still works, just not across page loads)
+ * - Shared by all tabs of the site: entries are stored one by one (put/delete),
+ *   never as a snapshot, so tabs don't overwrite each other's writes
+ */
+import type { JoinPayload, LeavePayload } from '../../types/Messages.js';
+export type OutboxEntry =
+  | { id: string; kind: 'join'; sessionId: string; createdAt: number; payload: JoinPayload }
+  | { id: string; kind: 'leave'; sessionId: string; createdAt: number; payload: LeavePayload };
+export interface OutboxStorage {
+  getAll(): Promise<OutboxEntry[]>;
+  put(entry: OutboxEntry): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+const STORE_NAME = 'entries';
+/**
+ * IndexedDB - one record per entry, keyed by id
+ */
+export class IndexedDBOutboxStorage implements OutboxStorage {
+  private db: IDBDatabase;
+  private constructor(db: IDBDatabase) {
+    this.db = db;
+  }
+  static open(name: string): Promise<IndexedDBOutboxStorage> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(name, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(new IndexedDBOutboxStorage(request.result));
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('IndexedDB open blocked'));
+    });
+  }
+  getAll(): Promise<OutboxEntry[]> {
+    return this.run('readonly', (store) => store.getAll() as IDBRequest<OutboxEntry[]>);
+  }
+  async put(entry: OutboxEntry): Promise<void> {
+    await this.run('readwrite', (store) => store.put(entry));
+  }
+  async delete(id: string): Promise<void> {
+    await this.run('readwrite', (store) => store.delete(id));
+  }
+  private run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const transaction = this.db.transaction(STORE_NAME, mode);
+      const request = operation(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
+/**
+ * localStorage - all entries under one key (read-modify-write is synchronous, so atomic per tab)
+ */
+export class LocalStorageOutboxStorage implements OutboxStorage {
+  private key: string;
+  constructor(key: string) {
+    this.key = key;
+  }
+  async getAll(): Promise<OutboxEntry[]> {
+    return this.read();
+  }
+  async put(entry: OutboxEntry): Promise<void> {
+    const entries = this.read().filter((existing) => existing.id !== entry.id);
+    entries.push(entry);
+    this.write(entries);
+  }
+  async delete(id: string): Promise<void> {
+    this.write(this.read().filter((entry) => entry.id !== id));
+  }
+  private read(): OutboxEntry[] {
+    try {
+      const parsed = JSON.parse(localStorage.getItem(this.key) || '[]');
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+  private write(entries: OutboxEntry[]): void {
+    if (entries.length === 0) {
+      localStorage.removeItem(this.key);
+    } else {
+      localStorage.setItem(this.key, JSON.stringify(entries));
+    }
+  }
+}
+/**
+ * In-memory (no persistent storage available, and tests)
+ */
+export class MemoryOutboxStorage implements OutboxStorage {
+  private entries: Map<string, OutboxEntry> = new Map();
+  async getAll(): Promise<OutboxEntry[]> {
+    return Array.from(this.entries.values());
+  }
+  async put(entry: OutboxEntry): Promise<void> {
+    this.entries.set(entry.id, entry);
+  }
+  async delete(id: string): Promise<void> {
+    this.entries.delete(id);
+  }
+}
+/**
+ * Picks the backend on first use (IndexedDB open is async and may fail)
+ */
+class LazyOutboxStorage implements OutboxStorage {
+  private backend: Promise<OutboxStorage> | null = null;
+  private resolveBackend: () => Promise<OutboxStorage>;
+  constructor(resolveBackend: () => Promise<OutboxStorage>) {
+    this.resolveBackend = resolveBackend;
+  }
+  async getAll(): Promise<OutboxEntry[]> {
+    return (await this.get()).getAll();
+  }
+  async put(entry: OutboxEntry): Promise<void> {
+    return (await this.get()).put(entry);
+  }
+  async delete(id: string): Promise<void> {
+    return (await this.get()).delete(id);
+  }
+  private get(): Promise<OutboxStorage> {
+    if (!this.backend) {
+      this.backend = this.resolveBackend();
+    }
+    return this.backend;
+  }
+}
+/**
+ * Best available storage for the outbox
+ */
+export function createOutboxStorage(name: string): OutboxStorage {
+  return new LazyOutboxStorage(async () => {
+    if (typeof indexedDB !== 'undefined') {
+      try {
+        return await IndexedDBOutboxStorage.open(name);
+      } catch (error) {
+        console.warn('[Outbox] IndexedDB unavailable, falling back to localStorage:', error);
+      }
+    }
+    try {
+      const probe = `${name}:probe`;
+      localStorage.setItem(probe, '1');
+      localStorage.removeItem(probe);
+      return new LocalStorageOutboxStorage(name);
+    } catch {
+      console.warn('[Outbox] No persistent storage, queue is kept in memory');
+      return new MemoryOutboxStorage();
+    }
+  });
+}
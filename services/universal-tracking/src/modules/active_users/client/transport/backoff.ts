@@ -0,0 +1,103 @@
+/**
+ * Backoff
+ * Honors server Retry-After (429 / 503) with jitter so clients don't retry in lockstep
+ */
+
+/**
+ * Thrown when a request is rejected (or skipped) because of rate limiting
+ */
+export class RateLimitError extends Error {
+  readonly retryAfterMs: number;
+  readonly scope: string | null;
+  constructor(retryAfterMs: number, scope: string | null = null) {
+    super(`Rate limited${scope ? ` (${scope})` : ''}, retry in ${Math.ceil(retryAfterMs / 1000)}s`);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+    this.scope = scope;
+  }
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return null;
+}
+
+/**
+ * Backoff State
+ * Tracks "do not call before" per endpoint group
+ */
+export class BackoffState {
+  private blockedUntil: number = 0;
+  private attempt: number = 0;
+  private baseDelay: number;
+  private maxDelay: number;
+
+  constructor(baseDelay: number = 1000, maxDelay: number = 300000) {
+    this.baseDelay = baseDelay;
+    this.maxDelay = maxDelay;
+  }
+
+  /**
+   * Register a throttled response, returns the delay (ms) before the next call
+   * - Retry-After present: wait at least that long + up to 30% jitter
+   * - No header: exponential backoff with full jitter
+   */
+  backoff(retryAfterMs: number | null): number {
+    this.attempt++;
+    let delay: number;
+    if (retryAfterMs !== null) {
+      delay = retryAfterMs + Math.random() * retryAfterMs * 0.3;
+    } else {
+      const ceiling = Math.min(this.maxDelay, this.baseDelay * Math.pow(2, this.attempt));
+      delay = this.baseDelay + Math.random() * (ceiling - this.baseDelay);
+    }
+    delay = Math.min(Math.round(delay), this.maxDelay);
+    this.blockedUntil = Date.now() + delay;
+    return delay;
+  }
+
+  /**
+   * Successful call - clear the backoff
+   */
+  reset(): void {
+    this.attempt = 0;
+    this.blockedUntil = 0;
+  }
+
+  isBlocked(): boolean {
+    return Date.now() < this.blockedUntil;
+  }
+
+  /**
+   * Milliseconds until calls are allowed again (0 = now)
+   */
+  remaining(): number {
+    return Math.max(0, this.blockedUntil - Date.now());
+  }
+
+  getAttempt(): number {
+    return this.attempt;
+  }
+}
+
+/**
+ * Response is a throttle signal (429, or 503 with Retry-After)
+ */
+export function isThrottled(response: Response): boolean {
+  return response.status === 429 || (response.status === 503 && response.headers.has('Retry-After'));
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
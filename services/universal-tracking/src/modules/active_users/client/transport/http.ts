@@ -2,44 +2,115 @@
  * HTTP Client
  * Handles REST API calls (join, leave)
  */
-import type { JoinPayload, LeavePayload } from '../../types/Messages.js';
+import type { JoinPayload, JoinResponse, LeavePayload } from '../../types/Messages.js';
+import type { RateLimitEvent } from '../../types/Events.js';
+import type { RequestSigner } from './signing.js';
+import { BackoffState, RateLimitError, isThrottled, parseRetryAfter, sleep } from './backoff.js';
+// Join retries after a 429 (presence is lost if join never lands)
+const MAX_JOIN_ATTEMPTS = 3;
+/**
+ * Non-2xx response (other than throttling) - status tells retryable (5xx) from rejected (4xx)
+ */
+export class HttpError extends Error {
+  readonly status: number;
+  constructor(status: number) {
+    super(`HTTP ${status}`);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
 export class HttpClient {
   private apiUrl: string;
-  constructor(apiUrl: string) {
+  private signer: RequestSigner | null;
+  private backoff: BackoffState = new BackoffState();
+  private onRateLimited: ((event: RateLimitEvent) => void) | null;
+  constructor(
+    apiUrl: string,
+    signer: RequestSigner | null = null,
+    onRateLimited: ((event: RateLimitEvent) => void) | null = null
+  ) {
     this.apiUrl = apiUrl;
+    this.signer = signer;
+    this.onRateLimited = onRateLimited;
   }
-  async join(payload: JoinPayload): Promise<void> {
+  /**
+   * Join - waits out an active backoff window and retries on 429 (Retry-After + jitter)
+   * Returns the server response (carries the WebSocket session token)
+   */
+  async join(payload: JoinPayload): Promise<JoinResponse> {
     try {
-      const response = await fetch(`${this.apiUrl}/presence/join`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload),
-      });
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}`);
+      for (let attempt = 1; ; attempt++) {
+        if (this.backoff.isBlocked()) {
+          await sleep(this.backoff.remaining());
+        }
+        const response = await this.post('/presence/join', payload);
+        if (response.ok) {
+          this.backoff.reset();
+          return (await response.json().catch(() => ({ success: true }))) as JoinResponse;
+        }
+        if (!isThrottled(response)) {
+          throw new HttpError(response.status);
+        }
+        const delay = this.throttle(response, 'join');
+        if (attempt >= MAX_JOIN_ATTEMPTS) {
+          throw new RateLimitError(delay, response.headers.get('X-RateLimit-Scope'));
+        }
+        console.warn(`[HTTP] Join rate limited, retrying in ${Math.ceil(delay / 1000)}s`);
       }
-          } catch (error) {
+    } catch (error) {
       console.error('[HTTP] Join failed:', error);
       throw error;
     }
   }
+  /**
+   * Leave - never waits (often runs during navigation), skipped while backing off
+   */
   async leave(payload: LeavePayload): Promise<void> {
     try {
-      const response = await fetch(`${this.apiUrl}/presence/leave`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload),
-      });
+      if (this.backoff.isBlocked()) {
+        throw new RateLimitError(this.backoff.remaining());
+      }
+      const response = await this.post('/presence/leave', payload);
+      if (isThrottled(response)) {
+        throw new RateLimitError(this.throttle(response, 'leave'), response.headers.get('X-RateLimit-Scope'));
+      }
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}`);
+        throw new HttpError(response.status);
       }
-          } catch (error) {
+      this.backoff.reset();
+    } catch (error) {
       console.error('[HTTP] Leave failed:', error);
       throw error;
     }
   }
+  /**
+   * Milliseconds until the server accepts calls again (0 = not backing off)
+   */
+  getBackoffRemaining(): number {
+    return this.backoff.remaining();
+  }
+  /**
+   * Register a throttled response - returns the delay before the next call
+   */
+  private throttle(response: Response, endpoint: RateLimitEvent['endpoint']): number {
+    const delay = this.backoff.backoff(parseRetryAfter(response.headers.get('Retry-After')));
+    this.onRateLimited?.({ endpoint, retryAfterMs: delay, scope: response.headers.get('X-RateLimit-Scope') });
+    return delay;
+  }
+  /**
+   * POST JSON with HMAC signing headers (X-Site-ID / X-Timestamp / X-Signature)
+   * The exact string that is signed is the one sent as body
+   */
+  private async post(path: string, payload: unknown): Promise<Response> {
+    const body = JSON.stringify(payload);
+    const signatureHeaders = this.signer ? await this.signer.sign(body) : {};
+    return fetch(`${this.apiUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...signatureHeaders,
+      },
+      body,
+    });
+  }
 }
@@ -3,16 +3,22 @@
  * Fallback for WebSocket, polls metrics periodically
  */
 import type { MetricsResponse } from '../../types/Messages.js';
+import type { RateLimitEvent } from '../../types/Events.js';
+import { BackoffState, isThrottled, parseRetryAfter } from './backoff.js';
 export class PollingClient {
   private apiUrl: string;
   private customerId: string;
   private interval: NodeJS.Timeout | null = null;
+  private resumeTimeout: NodeJS.Timeout | null = null;
+  private backoff: BackoffState = new BackoffState();
   private pollingInterval: number = 30000;
   private onMetrics: ((metrics: MetricsResponse) => void) | null = null;
   private isActive: boolean = false;
-  constructor(apiUrl: string, customerId: string) {
+  private onRateLimited: ((event: RateLimitEvent) => void) | null;
+  constructor(apiUrl: string, customerId: string, onRateLimited: ((event: RateLimitEvent) => void) | null = null) {
     this.apiUrl = apiUrl;
     this.customerId = customerId;
+    this.onRateLimited = onRateLimited;
   }
   start(
     intervalMs: number,
@@ -20,9 +26,14 @@ export class PollingClient {
   ): void {
     this.pollingInterval = intervalMs;
     this.onMetrics = onMetrics;
-    this.isActive = true;
     // Stop existing
     this.stop();
+    this.isActive = true;
+    // Still backing off (429/503) - resume once the window has passed instead of fetching now
+    if (this.backoff.isBlocked()) {
+      this.scheduleResume(this.backoff.remaining());
+      return;
+    }
     
     const intervalSec = (intervalMs / 1000).toFixed(0);
     console.log(`[Polling] 📡 Started polling mode (${intervalSec}s interval)`);
@@ -46,9 +57,14 @@ export class PollingClient {
           },
         }
       );
+      if (isThrottled(response)) {
+        this.pauseForRetryAfter(response);
+        return;
+      }
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}`);
       }
+      this.backoff.reset();
       const data: MetricsResponse = await response.json();
       this.onMetrics(data);
           } catch (error) {
@@ -57,6 +73,33 @@ export class PollingClient {
       this.handleError();
     }
   }
+  /**
+   * 429/503: stop polling until Retry-After (+ jitter) has passed, then resume the normal interval
+   */
+  private pauseForRetryAfter(response: Response): void {
+    const delay = this.backoff.backoff(parseRetryAfter(response.headers.get('Retry-After')));
+    console.warn(`[Polling] ⏸️ Rate limited, pausing for ${Math.ceil(delay / 1000)}s`);
+    this.onRateLimited?.({ endpoint: 'metrics', retryAfterMs: delay, scope: response.headers.get('X-RateLimit-Scope') });
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+    this.scheduleResume(delay);
+  }
+  /**
+   * Restart polling (current interval) after delay - start() again if still blocked
+   */
+  private scheduleResume(delay: number): void {
+    if (this.resumeTimeout) {
+      clearTimeout(this.resumeTimeout);
+    }
+    this.resumeTimeout = setTimeout(() => {
+      this.resumeTimeout = null;
+      if (this.isActive && this.onMetrics) {
+        this.start(this.pollingInterval, this.onMetrics);
+      }
+    }, delay);
+  }
   private handleError(): void {
     // Exponentially increase polling interval on errors
     const newInterval = Math.min(this.pollingInterval * 1.5, 300000);
@@ -69,16 +112,23 @@ export class PollingClient {
     }
   }
   stop(): void {
+    this.isActive = false;
+    if (this.resumeTimeout) {
+      clearTimeout(this.resumeTimeout);
+      this.resumeTimeout = null;
+    }
     if (this.interval) {
       clearInterval(this.interval);
       this.interval = null;
-      this.isActive = false;
       console.log(`[Polling] ⏹️ Stopped polling mode`);
     }
   }
   isPolling(): boolean {
     return this.isActive;
   }
+  /**
+   * New interval - applied now, or when a rate limit pause ends (start() keeps the pause)
+   */
   updateInterval(intervalMs: number): void {
     this.pollingInterval = intervalMs;
     if (this.isActive && this.onMetrics) {
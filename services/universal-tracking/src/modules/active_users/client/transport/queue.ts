@@ -0,0 +1,204 @@
+/**
+ * Presence Queue
+ * Offline-resilient delivery for join / leave (HTTP)
+ *
+ * - Sent right away when online; a retryable failure (network, 5xx, 429) parks the
+ *   message in the outbox (state/outbox.ts) and retries with backoff
+ * - One message per sessionId: a newer join/leave supersedes whatever is still pending
+ *   for that session (leave → join = join, join → leave = leave)
+ * - A drain re-reads storage before each delivery: an entry superseded meanwhile (by this
+ *   tab or another one) is skipped, so a leave never lands after the join that replaced it
+ * - Entries older than the presence TTL are dropped - the server has expired the session
+ * - Flushes on the `online` event, on start (entries left by previous page loads) and
+ *   when the backoff timer fires
+ * - Rejected messages (4xx) are dropped, retrying can't fix them
+ */
+import type { JoinPayload, JoinResponse, LeavePayload } from '../../types/Messages.js';
+import type { OutboxEntry, OutboxStorage } from '../state/outbox.js';
+import { HttpClient, HttpError } from './http.js';
+import { BackoffState, RateLimitError } from './backoff.js';
+type OutboxMessage =
+  | { kind: 'join'; payload: JoinPayload }
+  | { kind: 'leave'; payload: LeavePayload };
+export class PresenceQueue {
+  private http: HttpClient;
+  private storage: OutboxStorage;
+  private ttl: number;
+  private backoff: BackoffState;
+  private onJoinDelivered: ((response: JoinResponse) => void) | null;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> | null = null;
+  private started = false;
+  private readonly handleOnline = () => {
+    this.backoff.reset();
+    void this.flush();
+  };
+  constructor(
+    http: HttpClient,
+    storage: OutboxStorage,
+    ttl: number = 600000,
+    onJoinDelivered: ((response: JoinResponse) => void) | null = null,
+    backoff: BackoffState = new BackoffState(2000, 120000)
+  ) {
+    this.http = http;
+    this.storage = storage;
+    this.ttl = ttl;
+    this.onJoinDelivered = onJoinDelivered;
+    this.backoff = backoff;
+  }
+  /**
+   * Listen for `online` and deliver entries left over from earlier page loads
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+    }
+    void this.flush();
+  }
+  stop(): void {
+    this.started = false;
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
+    }
+    this.clearRetryTimer();
+  }
+  /**
+   * Join - returns the server response, or null when the join was queued for retry
+   */
+  async join(payload: JoinPayload): Promise<JoinResponse | null> {
+    return this.send({ kind: 'join', payload });
+  }
+  /**
+   * Leave - resolves once sent or queued
+   */
+  async leave(payload: LeavePayload): Promise<void> {
+    await this.send({ kind: 'leave', payload });
+  }
+  /**
+   * Deliver pending entries oldest first; stops at the first retryable failure
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.drain().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+  /**
+   * Entries waiting for delivery (stale ones are not counted)
+   */
+  async size(): Promise<number> {
+    return (await this.pending()).length;
+  }
+  private async send(message: OutboxMessage): Promise<JoinResponse | null> {
+    // Anything still pending for this session is superseded by this message
+    await this.supersede(message.payload.sessionId);
+    if (this.isOffline() || this.backoff.isBlocked()) {
+      await this.enqueue(message);
+      // Offline: the `online` event flushes; blocked: flush once the backoff expires
+      if (!this.retryTimer && !this.isOffline() && this.started) {
+        this.scheduleRetry(null);
+      }
+      return null;
+    }
+    try {
+      const response = await this.deliver(message);
+      this.backoff.reset();
+      return response;
+    } catch (error) {
+      if (!isRetryable(error)) throw error;
+      await this.enqueue(message);
+      this.scheduleRetry(error);
+      return null;
+    }
+  }
+  private async drain(): Promise<void> {
+    this.clearRetryTimer();
+    if (this.isOffline()) return; // `online` event flushes
+    for (const entry of await this.pending()) {
+      if (!(await this.isPending(entry.id))) continue; // Superseded while draining
+      try {
+        await this.deliver(entry);
+        this.backoff.reset();
+      } catch (error) {
+        if (isRetryable(error)) {
+          this.scheduleRetry(error);
+          return;
+        }
+        console.warn(`[PresenceQueue] Dropping rejected ${entry.kind} for ${entry.sessionId}:`, error);
+      }
+      await this.storage.delete(entry.id);
+    }
+  }
+  private async deliver(message: OutboxMessage): Promise<JoinResponse | null> {
+    if (message.kind === 'leave') {
+      await this.http.leave(message.payload);
+      return null;
+    }
+    const response = await this.http.join(message.payload);
+    this.onJoinDelivered?.(response);
+    return response;
+  }
+  /**
+   * Live entries oldest first - stale ones (past the presence TTL) are deleted on the way
+   */
+  private async pending(): Promise<OutboxEntry[]> {
+    const now = Date.now();
+    const live: OutboxEntry[] = [];
+    for (const entry of await this.storage.getAll()) {
+      if (now - entry.createdAt > this.ttl) {
+        await this.storage.delete(entry.id);
+      } else {
+        live.push(entry);
+      }
+    }
+    return live.sort((a, b) => a.createdAt - b.createdAt);
+  }
+  private async isPending(id: string): Promise<boolean> {
+    return (await this.storage.getAll()).some((entry) => entry.id === id);
+  }
+  private async supersede(sessionId: string): Promise<void> {
+    for (const entry of await this.storage.getAll()) {
+      if (entry.sessionId === sessionId) {
+        await this.storage.delete(entry.id);
+      }
+    }
+  }
+  private async enqueue(message: OutboxMessage): Promise<void> {
+    const createdAt = Date.now();
+    const id = `${message.kind}:${message.payload.sessionId}:${createdAt}:${Math.random().toString(36).slice(2, 8)}`;
+    await this.storage.put({ ...message, id, sessionId: message.payload.sessionId, createdAt } as OutboxEntry);
+    console.warn(`[PresenceQueue] ${message.kind} queued for retry`);
+  }
+  private scheduleRetry(error: unknown): void {
+    this.clearRetryTimer();
+    const delay = this.backoff.isBlocked()
+      ? this.backoff.remaining()
+      : this.backoff.backoff(error instanceof RateLimitError ? error.retryAfterMs : null);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      void this.flush();
+    }, delay);
+  }
+  private clearRetryTimer(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+  private isOffline(): boolean {
+    return typeof navigator !== 'undefined' && navigator.onLine === false;
+  }
+}
+/**
+ * Network errors, 5xx and throttling are worth retrying; other HTTP errors are not
+ */
+function isRetryable(error: unknown): boolean {
+  if (error instanceof HttpError) {
+    return error.status >= 500 || error.status === 408;
+  }
+  return true;
+}
@@ -0,0 +1,109 @@
+/**
+ * Request Signer
+ * HMAC-SHA256 signing for REST calls (mirrors core/security/hmac.ts on the server)
+ *
+ * canonical = `${timestamp}.${siteId}.${body}`
+ * X-Signature = hex(HMAC-SHA256(signingKey, canonical))
+ *
+ * The signing key is public (served with the SDK): this protects integrity and
+ * against replay, it does not prove who sent the request.
+ */
+export interface BeaconSignature {
+  signature: string;
+  timestamp: number;
+}
+
+// Sent instead of the signature headers so the server can tell "cannot sign" from "stripped"
+const UNAVAILABLE_HEADERS: Record<string, string> = { 'X-Signing-Unavailable': '1' };
+
+export class RequestSigner {
+  private siteId: string;
+  private signingKey: string;
+  private cryptoKey: Promise<CryptoKey> | null = null;
+  private beaconSignature: BeaconSignature | null = null;
+
+  constructor(siteId: string, signingKey: string) {
+    this.siteId = siteId;
+    this.signingKey = signingKey;
+  }
+
+  /**
+   * WebCrypto is only available in secure contexts (https / localhost)
+   */
+  isAvailable(): boolean {
+    return !!this.signingKey && typeof crypto !== 'undefined' && !!crypto.subtle;
+  }
+
+  /**
+   * Build signing headers for a serialized body
+   * Returns X-Signing-Unavailable when signing is not possible (server decides what to do)
+   */
+  async sign(body: string): Promise<Record<string, string>> {
+    try {
+      const signed = await this.signCanonical(body);
+      if (!signed) {
+        return UNAVAILABLE_HEADERS;
+      }
+      return {
+        'X-Site-ID': this.siteId,
+        'X-Timestamp': String(signed.timestamp),
+        'X-Signature': signed.signature,
+      };
+    } catch (error) {
+      console.error('[Signing] Failed to sign request:', error);
+      return UNAVAILABLE_HEADERS;
+    }
+  }
+
+  /**
+   * Precompute the leave beacon signature (unload handlers cannot await WebCrypto)
+   * Call after every join / TTL refresh so the signature stays fresh
+   */
+  async prepareBeacon(sessionId: string, tabId: string): Promise<void> {
+    try {
+      const signed = await this.signCanonical(JSON.stringify({ sessionId, tabId }));
+      if (signed) {
+        this.beaconSignature = signed;
+      }
+    } catch (error) {
+      console.error('[Signing] Failed to sign leave beacon:', error);
+    }
+  }
+
+  /**
+   * Latest precomputed beacon signature (single use on the server - the next join replaces it)
+   */
+  getBeaconSignature(): BeaconSignature | null {
+    return this.beaconSignature;
+  }
+
+  private async signCanonical(body: string): Promise<BeaconSignature | null> {
+    if (!this.isAvailable()) {
+      return null;
+    }
+    const timestamp = Date.now();
+    const canonical = `${timestamp}.${this.siteId}.${body}`;
+    const key = await this.getCryptoKey();
+    const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(canonical));
+    return { signature: toHex(signature), timestamp };
+  }
+
+  private getCryptoKey(): Promise<CryptoKey> {
+    if (!this.cryptoKey) {
+      this.cryptoKey = crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(this.signingKey),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign']
+      );
+    }
+    return this.cryptoKey;
+  }
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
@@ -50,6 +50,13 @@ export class WebSocketClient {
         if (this.onStateChange) {
           this.onStateChange(false);
         }
+        // 1008 = server rejected the customer (unknown/disabled/origin) - retrying won't help
+        // 4426 = protocol too old - this bundle can't reconnect, the SDK reloads itself
+        // 4401 (session token rejected) / 4408 (auth timeout) reconnect normally - auth re-joins first
+        if (event.code === 1008 || event.code === 4426) {
+          console.error(`[WebSocket] Connection rejected by server: ${event.reason}`);
+          return;
+        }
         // Auto-reconnect if not intentionally closed
         if (!this.isIntentionallyClosed) {
           this.scheduleReconnect();
@@ -0,0 +1,45 @@
+/**
+ * Typed Event Emitter
+ * Minimal browser-safe emitter (no Node `events` in the bundle)
+ *
+ * Handlers belong to the host page: one that throws is logged and skipped,
+ * it never breaks the SDK or the other handlers.
+ */
+export class TypedEmitter<Events extends object> {
+  private handlers: Map<keyof Events, Set<(payload: any) => void>> = new Map();
+  /**
+   * Subscribe - returns the unsubscribe function
+   */
+  on<E extends keyof Events>(event: E, handler: (payload: Events[E]) => void): () => void {
+    let handlers = this.handlers.get(event);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(event, handlers);
+    }
+    handlers.add(handler);
+    return () => this.off(event, handler);
+  }
+  off<E extends keyof Events>(event: E, handler: (payload: Events[E]) => void): void {
+    const handlers = this.handlers.get(event);
+    if (!handlers) return;
+    handlers.delete(handler);
+    if (handlers.size === 0) {
+      this.handlers.delete(event);
+    }
+  }
+  emit<E extends keyof Events>(event: E, payload: Events[E]): void {
+    const handlers = this.handlers.get(event);
+    if (!handlers) return;
+    // Copy: a handler may unsubscribe (itself or others) while we iterate
+    Array.from(handlers).forEach((handler) => {
+      try {
+        handler(payload);
+      } catch (error) {
+        console.error(`[ActiveUsers] "${String(event)}" handler failed:`, error);
+      }
+    });
+  }
+  clear(): void {
+    this.handlers.clear();
+  }
+}
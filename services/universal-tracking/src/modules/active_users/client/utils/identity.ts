@@ -0,0 +1,42 @@
+/**
+ * Identity Utils
+ * Normalizes identify() input to what the server accepts (packages/schemas presence/payloads.ts)
+ *
+ * - userId: non-empty, at most 128 chars - never truncated (two users would merge)
+ * - traits: primitive values only, long strings cut, at most 20 keys
+ * A site passing its whole user object must not get its join requests rejected.
+ */
+import type { UserTraits } from '../../types/Messages.js';
+const MAX_USER_ID_LENGTH = 128;
+const MAX_TRAITS = 20;
+const MAX_TRAIT_KEY_LENGTH = 64;
+const MAX_TRAIT_VALUE_LENGTH = 256;
+/**
+ * Trimmed userId, or null when it can't be sent
+ */
+export function normalizeUserId(userId: unknown): string | null {
+  if (typeof userId !== 'string') return null;
+  const clean = userId.trim();
+  return clean && clean.length <= MAX_USER_ID_LENGTH ? clean : null;
+}
+/**
+ * Sendable traits (undefined = nothing left)
+ */
+export function normalizeTraits(traits: Record<string, unknown> | undefined): UserTraits | undefined {
+  if (!traits || typeof traits !== 'object') return undefined;
+  const normalized: UserTraits = {};
+  let count = 0;
+  for (const [key, value] of Object.entries(traits)) {
+    if (count >= MAX_TRAITS) break;
+    if (!key || key.length > MAX_TRAIT_KEY_LENGTH) continue;
+    if (typeof value === 'string') {
+      normalized[key] = value.slice(0, MAX_TRAIT_VALUE_LENGTH);
+    } else if (typeof value === 'boolean' || (typeof value === 'number' && Number.isFinite(value))) {
+      normalized[key] = value;
+    } else {
+      continue; // Objects, arrays, null, functions...
+    }
+    count++;
+  }
+  return count > 0 ? normalized : undefined;
+}
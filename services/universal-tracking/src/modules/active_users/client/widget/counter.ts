@@ -0,0 +1,187 @@
+/**
+ * <active-users-count> Widget
+ * Drop-in live visitor counter bound to an ActiveUsersClient
+ *
+ *   <active-users-count locale="tr" min="5" format="compact"></active-users-count>
+ *
+ * - Shows the client-side smoothed count (getActiveUserCount), refreshed on metrics:update
+ * - Renders at most once per throttle window (MetricsSampler); the latest value is never dropped
+ * - Animates to the new value (skipped with prefers-reduced-motion)
+ * - Light DOM text only, so the host page styles it like any other element
+ * Attributes override the defaults passed to defineActiveUsersCount (SDK route query flags)
+ *
+ * A tag can only be defined once per page, so elements read the client from the registered
+ * class: setCounterClient swaps it (SDK reload → new client) and re-subscribes live elements.
+ */
+import type { ActiveUsersClient } from '../client.js';
+import { MetricsSampler } from '../metrics/sampler.js';
+import { formatCounter, type CounterNumberFormat, type CounterWidgetOptions } from './format.js';
+export const COUNTER_TAG = 'active-users-count';
+const DEFAULT_THROTTLE_MS = 2000;
+const DEFAULT_ANIMATION_MS = 600;
+type CounterSource = Pick<ActiveUsersClient, 'on' | 'getActiveUserCount'>;
+/**
+ * Registered element class - shared by every bundle on the page (kept stable across versions)
+ */
+interface CounterElementClass extends CustomElementConstructor {
+  setClient(client: CounterSource): void;
+}
+/**
+ * Register <active-users-count> for this client - false when custom elements are unavailable
+ * or the tag is taken by another element. Already registered by an SDK bundle → rebinds it
+ */
+export function defineActiveUsersCount(client: CounterSource, defaults: CounterWidgetOptions = {}): boolean {
+  if (typeof window === 'undefined' || !window.customElements) {
+    return false;
+  }
+  if (customElements.get(COUNTER_TAG)) {
+    return setCounterClient(client);
+  }
+  customElements.define(COUNTER_TAG, createCounterElement(client, defaults));
+  return true;
+}
+/**
+ * Point every <active-users-count> (mounted and future) at `client`
+ * false when the widget is not defined on this page
+ */
+export function setCounterClient(client: CounterSource): boolean {
+  if (typeof window === 'undefined' || !window.customElements) {
+    return false;
+  }
+  const element = customElements.get(COUNTER_TAG) as Partial<CounterElementClass> | undefined;
+  if (typeof element?.setClient !== 'function') {
+    return false;
+  }
+  element.setClient(client);
+  return true;
+}
+function createCounterElement(initialClient: CounterSource, defaults: CounterWidgetOptions): CounterElementClass {
+  let client = initialClient;
+  const connected = new Set<ActiveUsersCountElement>();
+  class ActiveUsersCountElement extends HTMLElement {
+    static observedAttributes = ['locale', 'format', 'min', 'text'];
+    static setClient(next: CounterSource): void {
+      client = next;
+      connected.forEach((element) => element.subscribe());
+    }
+    private sampler: MetricsSampler | null = null;
+    private unsubscribe: (() => void) | null = null;
+    private trailingTimer: number | null = null;
+    private frame: number | null = null;
+    private displayed: number | null = null;
+    connectedCallback(): void {
+      this.sampler = new MetricsSampler(this.getOptions().throttleMs ?? DEFAULT_THROTTLE_MS);
+      connected.add(this);
+      this.subscribe();
+    }
+    disconnectedCallback(): void {
+      connected.delete(this);
+      this.unsubscribe?.();
+      this.unsubscribe = null;
+      if (this.trailingTimer !== null) {
+        clearTimeout(this.trailingTimer);
+        this.trailingTimer = null;
+      }
+      this.cancelAnimation();
+    }
+    /**
+     * (Re)subscribe to the current client and show its count
+     */
+    subscribe(): void {
+      this.unsubscribe?.();
+      this.unsubscribe = client.on('metrics:update', () => this.update());
+      this.render(client.getActiveUserCount());
+    }
+    attributeChangedCallback(): void {
+      if (this.isConnected && this.displayed !== null) {
+        this.render(this.displayed);
+      }
+    }
+    private update(): void {
+      if (this.sampler?.shouldUpdate()) {
+        this.animateTo(client.getActiveUserCount());
+        return;
+      }
+      // Throttled → render the latest value once the window has passed
+      if (this.trailingTimer === null) {
+        this.trailingTimer = window.setTimeout(() => {
+          this.trailingTimer = null;
+          this.sampler?.forceUpdate();
+          this.update();
+        }, this.getOptions().throttleMs ?? DEFAULT_THROTTLE_MS);
+      }
+    }
+    private animateTo(target: number): void {
+      this.cancelAnimation();
+      const from = this.displayed ?? target;
+      const duration = this.getOptions().animationMs ?? DEFAULT_ANIMATION_MS;
+      if (from === target || duration <= 0 || prefersReducedMotion() || typeof requestAnimationFrame === 'undefined') {
+        this.render(target);
+        return;
+      }
+      const start = performance.now();
+      const step = (now: number) => {
+        const progress = Math.min(1, (now - start) / duration);
+        const eased = 1 - Math.pow(1 - progress, 3); // easeOutCubic
+        this.render(Math.round(from + (target - from) * eased));
+        this.frame = progress < 1 ? requestAnimationFrame(step) : null;
+      };
+      this.frame = requestAnimationFrame(step);
+    }
+    private cancelAnimation(): void {
+      if (this.frame !== null) {
+        cancelAnimationFrame(this.frame);
+        this.frame = null;
+      }
+    }
+    private render(count: number): void {
+      this.displayed = count;
+      const label = formatCounter(count, this.getOptions());
+      this.hidden = label === null;
+      this.textContent = label ?? '';
+    }
+    /**
+     * Defaults ← attributes (locale: attribute → default → <html lang> → browser)
+     */
+    private getOptions(): CounterWidgetOptions {
+      const min = Number(this.getAttribute('min'));
+      const format = this.getAttribute('format');
+      const text = this.getAttribute('text') ?? defaults.text;
+      return {
+        ...defaults,
+        locale: this.getAttribute('locale') || defaults.locale || document.documentElement.lang || navigator.language,
+        ...(format === 'standard' || format === 'compact' ? { format: format as CounterNumberFormat } : {}),
+        ...(this.hasAttribute('min') && Number.isFinite(min) ? { minCount: min } : {}),
+        ...(text ? { text } : {}),
+      };
+    }
+  }
+  return ActiveUsersCountElement;
+}
+/**
+ * Auto-mount (SDK `widget=true`): a floating counter, unless the page already placed one
+ */
+export function mountActiveUsersCount(): HTMLElement | null {
+  if (typeof document === 'undefined' || !document.body || document.querySelector(COUNTER_TAG)) {
+    return null;
+  }
+  const element = document.createElement(COUNTER_TAG);
+  element.className = 'active-users-count--floating';
+  element.style.cssText = [
+    'position:fixed',
+    'left:16px',
+    'bottom:16px',
+    'z-index:2147483000',
+    'padding:6px 12px',
+    'border-radius:999px',
+    'background:rgba(17,24,39,.85)',
+    'color:#fff',
+    'font:500 13px/1.4 system-ui,sans-serif',
+    'pointer-events:none',
+  ].join(';');
+  document.body.appendChild(element);
+  return element;
+}
+function prefersReducedMotion(): boolean {
+  return typeof matchMedia !== 'undefined' && matchMedia('(prefers-reduced-motion: reduce)').matches;
+}
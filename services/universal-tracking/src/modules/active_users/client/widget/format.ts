@@ -0,0 +1,59 @@
+/**
+ * Counter Widget Formatting
+ * Number → label for <active-users-count> (no DOM here, so it is testable)
+ *
+ * - Localized messages with plural forms (Intl.PluralRules), `{count}` placeholder
+ * - standard (1,234) or compact (1.2K) numbers (Intl.NumberFormat)
+ * - Counts below `minCount` are hidden: "1 person online" hurts more than it helps
+ */
+export type CounterNumberFormat = 'standard' | 'compact';
+export interface CounterWidgetOptions {
+  locale?: string;               // BCP 47, default: <html lang> → navigator.language → en
+  format?: CounterNumberFormat;  // standard (default)
+  minCount?: number;             // Hide below this count, default 1 (hide 0)
+  text?: string;                 // Custom message, e.g. "{count} shoppers" - overrides the locale's
+  throttleMs?: number;           // Minimum time between two renders, default 2000
+  animationMs?: number;          // Count-up / count-down duration, default 600 (0 = no animation)
+}
+type PluralMessages = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+// Built-in messages - language subtag only (pt-BR → pt)
+export const COUNTER_MESSAGES: Record<string, PluralMessages> = {
+  en: { one: '{count} person online', other: '{count} people online' },
+  tr: { other: '{count} kişi çevrimiçi' },
+  de: { one: '{count} Person online', other: '{count} Personen online' },
+  fr: { one: '{count} personne en ligne', other: '{count} personnes en ligne' },
+  es: { one: '{count} persona en línea', other: '{count} personas en línea' },
+};
+const DEFAULT_LOCALE = 'en';
+/**
+ * Supported locale for Intl (invalid tags fall back to en)
+ */
+export function resolveLocale(locale: string | null | undefined): string {
+  if (!locale) return DEFAULT_LOCALE;
+  try {
+    return Intl.getCanonicalLocales(locale)[0] ?? DEFAULT_LOCALE;
+  } catch {
+    return DEFAULT_LOCALE;
+  }
+}
+/**
+ * Label for a count, or null when the widget should stay hidden
+ */
+export function formatCounter(count: number, options: CounterWidgetOptions = {}): string | null {
+  const value = Math.max(0, Math.round(count));
+  if (value < Math.max(1, options.minCount ?? 1)) {
+    return null;
+  }
+  const locale = resolveLocale(options.locale);
+  const number = new Intl.NumberFormat(locale, {
+    notation: options.format === 'compact' ? 'compact' : 'standard',
+    maximumFractionDigits: options.format === 'compact' ? 1 : 0,
+  }).format(value);
+  const template = options.text || selectMessage(value, locale);
+  return template.split('{count}').join(number);
+}
+function selectMessage(value: number, locale: string): string {
+  const messages = COUNTER_MESSAGES[locale.split('-')[0]!.toLowerCase()] ?? COUNTER_MESSAGES[DEFAULT_LOCALE]!;
+  const rule = new Intl.PluralRules(locale).select(value);
+  return messages[rule] ?? messages.other;
+}
@@ -12,8 +12,11 @@
  */
 // Client-side exports
 export { ActiveUsersClient } from './client/index.js';
+export type { CounterWidgetOptions, CounterNumberFormat } from './client/widget/format.js';
 // Server-side exports  
 export { ActiveUsersServer } from './server/index.js';
+// Protocol
+export { PROTOCOL_VERSION, MIN_PROTOCOL_VERSION, PROTOCOL_CAPABILITIES } from './types/Protocol.js';
 // Type exports
 export type {
   ActiveUser,
@@ -25,7 +28,18 @@ export type {
   ServerMessage,
   MetricsUpdate,
   JoinPayload,
+  JoinResponse,
   BeatPayload,
   LeavePayload,
   MetricsResponse,
+  PagePresence,
+  PagesResponse,
+  PresenceBreakdown,
+  BreakdownResponse,
+  ProtocolCapability,
+  NegotiatedProtocol,
+  ActiveUsersEvent,
+  ActiveUsersEventMap,
+  ActiveUsersEventHandler,
+  RateLimitEvent,
 } from './types/index.js';
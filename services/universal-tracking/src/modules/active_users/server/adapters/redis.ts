@@ -1,13 +1,152 @@
 /**
  * Redis Adapter
  * Handles all Redis operations for active users
+ *
+ * Presence storage:
+ *   presence:{customerId}:{sessionId}  → JSON (TTL by session_mode)
+ *   presence_idx:{customerId}          → ZSET sessionId → expiresAt (ms)
+ *   presence_customers                 → ZSET customerId → latest expiresAt (ms)
+ *   presence_breakdown:{customerId}    → HASH tag (`platform:desktop`) → live sessions
+ *   presence_breakdown_sessions:{customerId} → HASH sessionId → counted tags
+ *   presence_users:{customerId}        → HASH user tag (hashed userId) → live sessions
+ *   presence_user_sessions:{customerId} → HASH sessionId → user tag
+ *
+ * Presence keys and indexes are only written through the Lua scripts below, so the
+ * index never drifts from the keys. Entries whose score is in the past are expired
+ * sessions - they are ignored by reads and pruned lazily (pruning also releases their
+ * breakdown and user counters).
  */
-import type { PresenceData } from '../../types/index.js';
+import { createHash } from 'crypto';
+import type { ActiveUserHistoryPoint, PresenceBreakdown, PresenceData } from '../../types/index.js';
 import { formatTimestamp, getRelativeTime } from '../utils/timestamp.js';
+import { BREAKDOWN_TAG_SEPARATOR, getBreakdownTags, parseBreakdown } from '../utils/breakdown.js';
+import { metrics } from '../../../../core/observability/metrics.js';
+
+export const PRESENCE_CUSTOMERS_KEY = 'presence_customers';
+
+// KEYS: presence key, customer index, customers index
+// ARGV: value, ttl (s), sessionId, expiresAt (ms), customerId, index ttl (s)
+const SET_PRESENCE_SCRIPT = `
+redis.call('SET', KEYS[1], ARGV[1], 'EX', ARGV[2])
+redis.call('ZADD', KEYS[2], ARGV[4], ARGV[3])
+redis.call('EXPIRE', KEYS[2], ARGV[6])
+redis.call('ZADD', KEYS[3], 'GT', ARGV[4], ARGV[5])
+return 1
+`;
+
+// KEYS: presence key, customer index, customers index, then the counter hashes (breakdown / users)
+// ARGV: ttl (s), sessionId, expiresAt (ms), customerId, index ttl (s)
+// Counters live as long as the index - refresh-only sessions must not lose them
+const REFRESH_PRESENCE_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 0 then
+  redis.call('ZREM', KEYS[2], ARGV[2])
+  return 0
+end
+redis.call('EXPIRE', KEYS[1], ARGV[1])
+redis.call('ZADD', KEYS[2], ARGV[3], ARGV[2])
+redis.call('EXPIRE', KEYS[2], ARGV[5])
+redis.call('ZADD', KEYS[3], 'GT', ARGV[3], ARGV[4])
+for i = 4, #KEYS do
+  redis.call('EXPIRE', KEYS[i], ARGV[5])
+end
+return 1
+`;
+
+// KEYS: presence key | ARGV: value - only overwrites an existing key, TTL preserved
+const UPDATE_PRESENCE_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 0 then
+  return 0
+end
+redis.call('SET', KEYS[1], ARGV[1], 'KEEPTTL')
+return 1
+`;
+
+// KEYS: presence key, customer index | ARGV: sessionId
+const REMOVE_PRESENCE_SCRIPT = `
+local deleted = redis.call('DEL', KEYS[1])
+redis.call('ZREM', KEYS[2], ARGV[1])
+return deleted
+`;
+
+// KEYS: presence key, counters, counted sessions (breakdown or users)
+// ARGV: sessionId, tags ('|' separated, '' = session gone), ttl (s)
+// Moves the session's counters from its previously counted tags to the new ones
+// TTL is extended for every live session, also when its tags did not change
+const SYNC_COUNTERS_SCRIPT = `
+local tags = ARGV[2]
+if tags ~= '' and redis.call('EXISTS', KEYS[1]) == 0 then
+  tags = ''
+end
+local previous = redis.call('HGET', KEYS[3], ARGV[1]) or ''
+if previous ~= tags then
+  for tag in string.gmatch(previous, '[^|]+') do
+    if redis.call('HINCRBY', KEYS[2], tag, -1) <= 0 then
+      redis.call('HDEL', KEYS[2], tag)
+    end
+  end
+  for tag in string.gmatch(tags, '[^|]+') do
+    redis.call('HINCRBY', KEYS[2], tag, 1)
+  end
+  if tags == '' then
+    redis.call('HDEL', KEYS[3], ARGV[1])
+  else
+    redis.call('HSET', KEYS[3], ARGV[1], tags)
+  end
+end
+if tags ~= '' then
+  redis.call('EXPIRE', KEYS[2], ARGV[3])
+  redis.call('EXPIRE', KEYS[3], ARGV[3])
+end
+if previous == tags then
+  return 0
+end
+return 1
+`;
+
+// KEYS: customer index, then (counters, counted sessions) pairs | ARGV: now (ms)
+// Drops expired index entries and releases their breakdown / user counters
+const PRUNE_EXPIRED = `
+local expired = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', '(' .. ARGV[1])
+for _, sessionId in ipairs(expired) do
+  for i = 2, #KEYS, 2 do
+    local tags = redis.call('HGET', KEYS[i + 1], sessionId)
+    if tags then
+      for tag in string.gmatch(tags, '[^|]+') do
+        if redis.call('HINCRBY', KEYS[i], tag, -1) <= 0 then
+          redis.call('HDEL', KEYS[i], tag)
+        end
+      end
+      redis.call('HDEL', KEYS[i + 1], sessionId)
+    end
+  end
+end
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', '(' .. ARGV[1])
+`;
+const PRUNE_INDEX_SCRIPT = `${PRUNE_EXPIRED}return #expired
+`;
+
+// KEYS / ARGV: as PRUNE_INDEX_SCRIPT, users pair last
+// Prunes, then reads users, user sessions and live sessions from the same snapshot
+const USER_COUNTS_SCRIPT = `${PRUNE_EXPIRED}return {
+  redis.call('HLEN', KEYS[#KEYS - 1]),
+  redis.call('HLEN', KEYS[#KEYS]),
+  redis.call('ZCOUNT', KEYS[1], ARGV[1], '+inf')
+}
+`;
+
+/**
+ * Counter tag for an identified user - hashed, so raw ids are not copied into the
+ * counters and a separator in the id cannot split the tag
+ */
+function getUserTag(userId: string): string {
+  return createHash('sha256').update(userId).digest('hex').substring(0, 32);
+}
+
 export class RedisAdapter {
   private redis: any; // Redis client instance
   private ttl: number;
-  private subscribers: Map<string, any> = new Map(); // Track subscribers to prevent leaks
+  private subscriptions: Set<string> = new Set(); // Customers with a metrics channel subscription
+  private subscriber: Promise<any> | null = null; // Shared pub/sub connection (created on first subscribe)
   constructor(redisClient: any, ttl: number = 600) { // Default 10 dakika (fallback/sigorta)
     this.redis = redisClient;
     this.ttl = ttl;
@@ -15,7 +154,7 @@ export class RedisAdapter {
   /**
    * Add user presence
    * 🆕 Device detection'a göre dinamik TTL
-   * ✅ FIXED: node-redis v5 compatible TTL setting
+   * ✅ Atomic: presence key + customer index in one script
    */
   async setPresence(data: PresenceData): Promise<void> {
     const key = this.getPresenceKey(data.customerId, data.sessionId);
@@ -29,24 +168,52 @@ export class RedisAdapter {
     const value = JSON.stringify(updatedData);
     // Calculate TTL based on session_mode
     const ttl = this.getSessionBasedTTL(data.session_mode);
-    
-    // ✅ FIXED: node-redis v5 compatible - use set + expire
-    await this.redis.set(key, value);
-    await this.redis.expire(key, ttl);
-    
+    await this.timed('set_presence', () =>
+      this.redis.eval(SET_PRESENCE_SCRIPT, {
+        keys: [key, this.getIndexKey(data.customerId), PRESENCE_CUSTOMERS_KEY],
+        arguments: [
+          value,
+          ttl.toString(),
+          data.sessionId,
+          (now + ttl * 1000).toString(),
+          data.customerId,
+          this.getIndexTTL().toString(),
+        ],
+      })
+    );
+    await this.syncBreakdown(data.customerId, data.sessionId, getBreakdownTags(data));
+    await this.syncUser(data.customerId, data.sessionId, data.userId);
   }
   /**
    * Get user presence
    */
   async getPresence(customerId: string, sessionId: string): Promise<PresenceData | null> {
     const key = this.getPresenceKey(customerId, sessionId);
-    const value = await this.redis.get(key);
+    const value = await this.timed<string | null>('get', () => this.redis.get(key));
     if (!value) return null;
     return JSON.parse(value);
   }
+  /**
+   * Get many presences of one customer in a single round trip (missing/expired → skipped)
+   */
+  async getPresenceMany(customerId: string, sessionIds: string[]): Promise<PresenceData[]> {
+    if (sessionIds.length === 0) return [];
+    const keys = sessionIds.map((sessionId) => this.getPresenceKey(customerId, sessionId));
+    const values = await this.timed<Array<string | null>>('mget', () => this.redis.mGet(keys));
+    const presences: PresenceData[] = [];
+    for (const value of values) {
+      if (!value) continue;
+      try {
+        presences.push(JSON.parse(value));
+      } catch {
+        // Corrupt entry - ignored, it expires with its TTL
+      }
+    }
+    return presences;
+  }
   /**
    * Update user presence without resetting TTL
-   * ✅ FIXED: node-redis v5 compatible TTL preservation
+   * ✅ SET KEEPTTL - no-op when the key already expired (index stays consistent)
    */
   async updatePresence(data: PresenceData): Promise<void> {
     const key = this.getPresenceKey(data.customerId, data.sessionId);
@@ -61,16 +228,14 @@ export class RedisAdapter {
       updatedAt: formatTimestamp(now),
       lastActivity: getRelativeTime(now), // Will show "X seconds/minutes ago"
     };
-    const value = JSON.stringify(updatedData);
-    
-    // ✅ FIXED: node-redis v5 compatible - preserve existing TTL
-    const currentTTL = await this.redis.ttl(key);
-    await this.redis.set(key, value);
-    
-    // Restore TTL if it existed and was positive
-    if (currentTTL > 0) {
-      await this.redis.expire(key, currentTTL);
-    }
+    await this.timed('update_presence', () =>
+      this.redis.eval(UPDATE_PRESENCE_SCRIPT, {
+        keys: [key],
+        arguments: [JSON.stringify(updatedData)],
+      })
+    );
+    await this.syncBreakdown(data.customerId, data.sessionId, getBreakdownTags(data));
+    await this.syncUser(data.customerId, data.sessionId, data.userId);
   }
   /**
    * Refresh TTL for a key (Phase 1 WebSocket optimization)
@@ -79,14 +244,25 @@ export class RedisAdapter {
    */
   async refreshTTL(customerId: string, sessionId: string): Promise<void> {
     const key = this.getPresenceKey(customerId, sessionId);
-    const exists = await this.redis.exists(key);
-    if (exists) {
-      // Get session_mode to calculate TTL
-      const presenceData = await this.getPresence(customerId, sessionId);
-      const ttl = presenceData ? this.getSessionBasedTTL(presenceData.session_mode) : this.ttl;
-      await this.redis.expire(key, ttl);
-    } else {
+    // Get session_mode to calculate TTL
+    const presenceData = await this.getPresence(customerId, sessionId);
+    const ttl = presenceData ? this.getSessionBasedTTL(presenceData.session_mode) : this.ttl;
+    const refreshed = await this.timed('refresh_presence', () =>
+      this.redis.eval(REFRESH_PRESENCE_SCRIPT, {
+        keys: [key, this.getIndexKey(customerId), PRESENCE_CUSTOMERS_KEY, ...this.getCounterKeys(customerId)],
+        arguments: [
+          ttl.toString(),
+          sessionId,
+          (Date.now() + ttl * 1000).toString(),
+          customerId,
+          this.getIndexTTL().toString(),
+        ],
+      })
+    );
+    if (Number(refreshed) === 0) {
       console.warn(`[Redis] REFRESH TTL ${key} | Key doesn't exist!`);
+      await this.syncBreakdown(customerId, sessionId, []);
+      await this.syncUser(customerId, sessionId, undefined);
     }
   }
   /**
@@ -94,137 +270,277 @@ export class RedisAdapter {
    */
   async removePresence(customerId: string, sessionId: string): Promise<void> {
     const key = this.getPresenceKey(customerId, sessionId);
-    await this.redis.del(key);
+    await this.timed('remove_presence', () =>
+      this.redis.eval(REMOVE_PRESENCE_SCRIPT, {
+        keys: [key, this.getIndexKey(customerId)],
+        arguments: [sessionId],
+      })
+    );
+    await this.syncBreakdown(customerId, sessionId, []);
+    await this.syncUser(customerId, sessionId, undefined);
   }
   /**
    * Get all active sessions for a customer
-   * Uses SCAN instead of KEYS for production safety
+   * O(log n + m) from the customer index - no keyspace scan
    */
   async getActiveSessions(customerId: string): Promise<string[]> {
-    const pattern = `presence:${customerId}:*`;
-    const keys = await this.scanKeys(pattern);
-    // Extract session IDs from keys
-    return keys.map((key: string) => {
-      const parts = key.split(':');
-      return parts[2]!; // session ID (guaranteed to exist in presence keys)
-    });
+    return await this.timed('zrangebyscore', () =>
+      this.redis.zRangeByScore(this.getIndexKey(customerId), Date.now(), '+inf')
+    );
   }
   /**
    * Get active user count for a customer
-   * Uses SCAN instead of KEYS for production safety
+   * O(log n) - ZCOUNT over non-expired index entries
    */
   async getActiveCount(customerId: string): Promise<number> {
-    const pattern = `presence:${customerId}:*`;
-    const keys = await this.scanKeys(pattern);
-    // Count unique sessions (not tabs)
-    const sessions = new Set(keys.map((key: string) => {
-      const parts = key.split(':');
-      return parts[2]!; // session ID (guaranteed to exist in presence keys)
-    }));
-    return sessions.size;
+    const count = await this.timed('zcount', () =>
+      this.redis.zCount(this.getIndexKey(customerId), Date.now(), '+inf')
+    );
+    return Number(count) || 0;
   }
   /**
    * 🆕 Get ALL presence keys (for stale session cleanup)
-   * Uses SCAN instead of KEYS for production safety
+   * Built from the indexes - no keyspace scan
    */
   async getAllPresenceKeys(): Promise<string[]> {
-    const pattern = 'presence:*';
-    return await this.scanKeys(pattern);
+    const keys: string[] = [];
+    for (const customerId of await this.getIndexedCustomerIds()) {
+      const sessions = await this.getActiveSessions(customerId);
+      keys.push(...sessions.map((sessionId) => this.getPresenceKey(customerId, sessionId)));
+    }
+    return keys;
   }
   /**
-   * Clean up expired sessions manually (backup cleanup)
-   * Uses SCAN instead of KEYS for production safety
+   * Prune expired entries from all indexes (backup cleanup)
+   * Presence keys expire on their own - this only keeps the ZSETs small
    */
   async cleanupExpiredSessions(): Promise<number> {
-    const pattern = 'presence:*';
-    const keys = await this.scanKeys(pattern);
+    const now = Date.now();
     let cleaned = 0;
-    for (const key of keys) {
-      const ttl = await this.redis.ttl(key);
-      if (ttl === -1) {
-        // Key has no TTL, remove it
-        await this.redis.del(key);
-        cleaned++;
-              }
+    for (const customerId of await this.getIndexedCustomerIds()) {
+      cleaned += await this.pruneIndex(customerId, now);
     }
+    await this.redis.zRemRangeByScore(PRESENCE_CUSTOMERS_KEY, '-inf', `(${now}`);
     return cleaned;
   }
+  /**
+   * Live sessions per platform / browser / device / session_mode
+   * Prunes the customer's expired sessions first so TTL-expired visitors are not counted
+   */
+  async getBreakdown(customerId: string): Promise<PresenceBreakdown> {
+    await this.pruneIndex(customerId, Date.now());
+    const counters = await this.timed<Record<string, string>>('hgetall', () =>
+      this.redis.hGetAll(this.getBreakdownKey(customerId))
+    );
+    return parseBreakdown(counters ?? {});
+  }
+  /**
+   * Live identified users, the sessions they cover and all live sessions
+   * One script: prunes the customer's expired sessions first (like getBreakdown), and the
+   * three counts come from the same snapshot
+   */
+  async getUserCounts(customerId: string): Promise<{ users: number; sessions: number; active: number }> {
+    const counts = await this.timed<Array<number | string>>('user_counts', () =>
+      this.redis.eval(USER_COUNTS_SCRIPT, {
+        keys: [this.getIndexKey(customerId), ...this.getCounterKeys(customerId)],
+        arguments: [Date.now().toString()],
+      })
+    );
+    const [users, sessions, active] = (counts ?? []).map((value) => Number(value) || 0);
+    return { users: users ?? 0, sessions: sessions ?? 0, active: active ?? 0 };
+  }
+  /**
+   * Move a session's breakdown counters to `tags` ([] = session gone)
+   */
+  private async syncBreakdown(customerId: string, sessionId: string, tags: string[]): Promise<void> {
+    await this.timed('sync_breakdown', () =>
+      this.redis.eval(SYNC_COUNTERS_SCRIPT, {
+        keys: [
+          this.getPresenceKey(customerId, sessionId),
+          this.getBreakdownKey(customerId),
+          this.getBreakdownSessionsKey(customerId),
+        ],
+        arguments: [sessionId, tags.join(BREAKDOWN_TAG_SEPARATOR), this.getIndexTTL().toString()],
+      })
+    );
+  }
+  /**
+   * Count the session for `userId` in the unique users counters (undefined = anonymous / gone)
+   */
+  private async syncUser(customerId: string, sessionId: string, userId: string | undefined): Promise<void> {
+    await this.timed('sync_user', () =>
+      this.redis.eval(SYNC_COUNTERS_SCRIPT, {
+        keys: [
+          this.getPresenceKey(customerId, sessionId),
+          this.getUsersKey(customerId),
+          this.getUserSessionsKey(customerId),
+        ],
+        arguments: [sessionId, userId ? getUserTag(userId) : '', this.getIndexTTL().toString()],
+      })
+    );
+  }
+  /**
+   * Drop a customer's expired index entries (and their breakdown / user counters)
+   */
+  private async pruneIndex(customerId: string, now: number): Promise<number> {
+    const removed = await this.timed('prune_index', () =>
+      this.redis.eval(PRUNE_INDEX_SCRIPT, {
+        keys: [this.getIndexKey(customerId), ...this.getCounterKeys(customerId)],
+        arguments: [now.toString()],
+      })
+    );
+    return Number(removed) || 0;
+  }
   /**
    * Store EMA value
    */
   async setEMA(customerId: string, ema: number): Promise<void> {
     const key = `ema:${customerId}`;
-    await this.redis.set(key, ema.toString());
+    await this.timed('set', () => this.redis.set(key, ema.toString()));
   }
   /**
    * Get EMA value
    */
   async getEMA(customerId: string): Promise<number | null> {
     const key = `ema:${customerId}`;
-    const value = await this.redis.get(key);
+    const value = await this.timed<string | null>('get', () => this.redis.get(key));
     return value ? parseFloat(value) : null;
   }
+  /**
+   * Append a history point (sorted set, score = tick timestamp)
+   * Points older than the retention window are trimmed on every write
+   */
+  async appendHistory(customerId: string, point: ActiveUserHistoryPoint, retentionMs: number): Promise<void> {
+    const key = `history:${customerId}`;
+    await this.redis.zAdd(key, {
+      score: point.timestamp,
+      value: `${point.timestamp}:${point.count}:${point.ema}`,
+    });
+    await this.redis.zRemRangeByScore(key, '-inf', `(${point.timestamp - retentionMs}`);
+    // Drop the whole series once a customer stops ticking
+    await this.redis.expire(key, Math.ceil(retentionMs / 1000));
+  }
+  /**
+   * Get history points in [from, to] (ms, inclusive), oldest first
+   */
+  async getHistory(customerId: string, from: number, to: number): Promise<ActiveUserHistoryPoint[]> {
+    const key = `history:${customerId}`;
+    const members: string[] = await this.redis.zRangeByScore(key, from, to);
+    return members.map((member) => {
+      const [timestamp, count, ema] = member.split(':');
+      return {
+        timestamp: Number(timestamp),
+        count: Number(count),
+        ema: Number(ema),
+      };
+    });
+  }
+  /**
+   * Get customer ids that currently have live sessions
+   */
+  async getActiveCustomerIds(): Promise<string[]> {
+    const active: string[] = [];
+    for (const customerId of await this.getIndexedCustomerIds()) {
+      if ((await this.getActiveCount(customerId)) > 0) {
+        active.push(customerId);
+      }
+    }
+    return active;
+  }
+  /**
+   * Customers whose latest session has not expired yet (candidates, may have 0 live sessions)
+   */
+  private async getIndexedCustomerIds(): Promise<string[]> {
+    return await this.redis.zRangeByScore(PRESENCE_CUSTOMERS_KEY, Date.now(), '+inf');
+  }
+  /**
+   * Acquire a lease lock (SET NX PX) - true if this owner now holds it
+   * Re-acquiring a lock we already hold extends it
+   */
+  async acquireLock(key: string, owner: string, ttlMs: number): Promise<boolean> {
+    const result = await this.redis.set(key, owner, { NX: true, PX: ttlMs });
+    if (result === 'OK') return true;
+    return await this.renewLock(key, owner, ttlMs);
+  }
+  /**
+   * Extend a lock only if we still own it (atomic compare + PEXPIRE)
+   */
+  async renewLock(key: string, owner: string, ttlMs: number): Promise<boolean> {
+    const result = await this.redis.eval(
+      "if redis.call('GET', KEYS[1]) == ARGV[1] then return redis.call('PEXPIRE', KEYS[1], ARGV[2]) else return 0 end",
+      { keys: [key], arguments: [owner, ttlMs.toString()] }
+    );
+    return Number(result) === 1;
+  }
+  /**
+   * Release a lock only if we still own it (atomic compare + DEL)
+   */
+  async releaseLock(key: string, owner: string): Promise<void> {
+    await this.redis.eval(
+      "if redis.call('GET', KEYS[1]) == ARGV[1] then return redis.call('DEL', KEYS[1]) else return 0 end",
+      { keys: [key], arguments: [owner] }
+    );
+  }
   /**
    * Publish metrics update
    */
   async publishMetrics(customerId: string, metrics: any): Promise<void> {
-    const channel = `metrics:${customerId}`;
-    await this.redis.publish(channel, JSON.stringify(metrics));
+    await this.redis.publish(this.getMetricsChannel(customerId), JSON.stringify(metrics));
   }
   /**
    * Subscribe to metrics updates
-   * Reuses existing subscriber if available to prevent connection leaks
+   * All channels share one subscriber connection (one connection per node, not per customer)
    */
   async subscribeToMetrics(customerId: string, callback: (metrics: any) => void): Promise<void> {
-    const channel = `metrics:${customerId}`;
-    // Check if subscriber already exists for this customer
-    let subscriber = this.subscribers.get(customerId);
-    if (!subscriber) {
-      // Create new subscriber client (Redis requires separate client for pub/sub)
-      subscriber = this.redis.duplicate();
-      this.subscribers.set(customerId, subscriber);
-          } else {
-          }
-    await subscriber.subscribe(channel, (message: string) => {
-      try {
-        const metrics = JSON.parse(message);
-        callback(metrics);
-      } catch (error) {
-        console.error('[Redis] Failed to parse metrics:', error);
-      }
-    });
+    if (this.subscriptions.has(customerId)) return;
+    this.subscriptions.add(customerId);
+    try {
+      const subscriber = await this.getSubscriber();
+      await subscriber.subscribe(this.getMetricsChannel(customerId), (message: string) => {
+        try {
+          callback(JSON.parse(message));
+        } catch (error) {
+          console.error('[Redis] Failed to parse metrics:', error);
+        }
+      });
+    } catch (error) {
+      this.subscriptions.delete(customerId);
+      throw error;
+    }
   }
   /**
-   * Unsubscribe from metrics updates
-   * Properly cleans up subscriber connection
+   * Unsubscribe from metrics updates (shared connection stays open)
    */
   async unsubscribeFromMetrics(customerId: string): Promise<void> {
-    const subscriber = this.subscribers.get(customerId);
-    if (subscriber) {
-      try {
-        const channel = `metrics:${customerId}`;
-        await subscriber.unsubscribe(channel);
-        await subscriber.quit();
-        this.subscribers.delete(customerId);
-              } catch (error) {
-        console.error(`[Redis] Error unsubscribing ${customerId}:`, error);
-      }
+    if (!this.subscriptions.delete(customerId) || !this.subscriber) return;
+    try {
+      const subscriber = await this.subscriber;
+      await subscriber.unsubscribe(this.getMetricsChannel(customerId));
+    } catch (error) {
+      console.error(`[Redis] Error unsubscribing ${customerId}:`, error);
     }
   }
   /**
-   * Scan keys with pattern (non-blocking alternative to KEYS)
-   * Uses SCAN command which is production-safe
-   * ✅ FIXED: node-redis v5 compatible SCAN - simplified version
+   * Shared subscriber connection (Redis requires a separate client for pub/sub)
    */
-  private async scanKeys(pattern: string): Promise<string[]> {
-    // For now, use KEYS as fallback to avoid SCAN complexity
-    // TODO: Implement proper SCAN for node-redis v5
-    try {
-      return await this.redis.keys(pattern);
-    } catch (error) {
-      console.error('[Redis] KEYS command failed:', error);
-      return [];
+  private getSubscriber(): Promise<any> {
+    if (!this.subscriber) {
+      const subscriber = this.redis.duplicate();
+      subscriber.on?.('error', (error: Error) => {
+        console.error('[Redis] Subscriber error:', error);
+      });
+      this.subscriber = Promise.resolve(subscriber.connect()).then(
+        () => subscriber,
+        (error: Error) => {
+          this.subscriber = null; // Retry on next subscribe
+          throw error;
+        }
+      );
     }
+    return this.subscriber;
+  }
+  private getMetricsChannel(customerId: string): string {
+    return `metrics:${customerId}`;
   }
   /**
    * 🆕 Get TTL for a presence key
@@ -257,6 +573,47 @@ export class RedisAdapter {
   public getPresenceKey(customerId: string, sessionId: string): string {
     return `presence:${customerId}:${sessionId}`;
   }
+  /**
+   * Per-customer session index key
+   */
+  public getIndexKey(customerId: string): string {
+    return `presence_idx:${customerId}`;
+  }
+  /**
+   * Breakdown counter keys (tag → count, sessionId → counted tags)
+   */
+  public getBreakdownKey(customerId: string): string {
+    return `presence_breakdown:${customerId}`;
+  }
+  public getBreakdownSessionsKey(customerId: string): string {
+    return `presence_breakdown_sessions:${customerId}`;
+  }
+  /**
+   * Unique users counter keys (user tag → live sessions, sessionId → user tag)
+   */
+  public getUsersKey(customerId: string): string {
+    return `presence_users:${customerId}`;
+  }
+  public getUserSessionsKey(customerId: string): string {
+    return `presence_user_sessions:${customerId}`;
+  }
+  /**
+   * Counter hashes as (counters, counted sessions) pairs - users pair last
+   */
+  private getCounterKeys(customerId: string): string[] {
+    return [
+      this.getBreakdownKey(customerId),
+      this.getBreakdownSessionsKey(customerId),
+      this.getUsersKey(customerId),
+      this.getUserSessionsKey(customerId),
+    ];
+  }
+  /**
+   * Index TTL - longest session TTL, so an abandoned index disappears with its last key
+   */
+  private getIndexTTL(): number {
+    return Math.max(this.ttl, this.getSessionBasedTTL('passive_active'));
+  }
   /**
    * Health check
    */
@@ -273,21 +630,23 @@ export class RedisAdapter {
    * Called when server is shutting down
    */
   async destroy(): Promise<void> {
-    // Cleanup all subscribers
-    for (const [customerId, subscriber] of this.subscribers.entries()) {
+    // Close the shared subscriber connection
+    if (this.subscriber) {
       try {
+        const subscriber = await this.subscriber;
         await subscriber.quit();
-              } catch (error) {
-        console.error(`[Redis] Error cleaning up subscriber for ${customerId}:`, error);
+      } catch (error) {
+        console.error('[Redis] Error cleaning up subscriber:', error);
       }
+      this.subscriber = null;
     }
-    this.subscribers.clear();
-      }
+    this.subscriptions.clear();
+  }
   /**
    * Get subscriber count (for monitoring)
    */
   getSubscriberCount(): number {
-    return this.subscribers.size;
+    return this.subscriptions.size;
   }
 
   /**
@@ -302,7 +661,7 @@ export class RedisAdapter {
    */
   async hasPresence(customerId: string, sessionId: string): Promise<boolean> {
     const key = this.getPresenceKey(customerId, sessionId);
-    const exists = await this.redis.exists(key);
+    const exists = await this.timed('exists', () => this.redis.exists(key));
     return exists === 1;
   }
 
@@ -315,4 +674,19 @@ export class RedisAdapter {
       message: 'Simple Redis operations - no queues needed'
     };
   }
+
+  /**
+   * Run a hot-path command and record its latency (redis_command_duration_seconds)
+   */
+  private async timed<T>(command: string, fn: () => Promise<T>): Promise<T> {
+    const end = metrics.redisCommandDuration.startTimer({ command });
+    try {
+      const result = await fn();
+      end({ status: 'ok' });
+      return result;
+    } catch (error) {
+      end({ status: 'error' });
+      throw error;
+    }
+  }
 }
@@ -2,19 +2,35 @@
  * Server Configuration
  */
 import type { ServerConfig } from '../types/Config.js';
+import { MIN_PROTOCOL_VERSION } from '../types/Protocol.js';
 export const defaultServerConfig: Partial<ServerConfig> = {
   // ✅ PHASE 3: Presence settings (increased TTL for WebSocket-based refresh)
   presenceTTL: 600, // 600 saniye (10 dakika) - Sigorta/fallback TTL
   // EMA settings
   emaAlpha: 0.2,
   emaUpdateInterval: 30000, // 30 saniye
+  emaAutoSchedule: true,
+  emaDiscoveryInterval: 30000, // 30 saniye
+  emaIdleTimeout: 300000, // 5 dakika - EMA bu sürede 0'a yaklaşır
+  // History settings
+  historyRetentionDays: 7, // 7 gün (30s tick → ~20k nokta/müşteri)
   // ✅ PHASE 3: WebSocket settings (ping/pong configuration)
   websocketPort: 8080,
   enableWebSocket: true,
   wsPingInterval: 25000,  // 25 seconds - Server ping interval
   wsPongTimeout: 2,        // 2 missed pongs before disconnect
+  wsAuthTimeout: 10000,    // 10 seconds - auth mesajı gelmeyen socket kapatılır
+  wsMinProtocolVersion: MIN_PROTOCOL_VERSION, // Daha eski SDK'lar reddedilir (kendini yeniden yükler)
+  // Session tokens (join → WebSocket auth)
+  sessionTokenTTL: 900, // 15 dakika - client süresi dolmadan join ile yeniler
+  // SSE (dashboard stream)
+  sseHeartbeatInterval: 15000, // 15 saniye - proxy idle timeout'larının altında
+  sseMaxStreamsPerCustomer: 20,
+  sseTokenTTL: 300, // 5 dakika - stream URL'indeki token (API key URL'e yazılmaz)
+  metricsBreakdown: false, // metrics:update.breakdown - WebSocket client'ları ziyaretçiler, varsayılan kapalı
   // Rate limiting
   maxRequestsPerMinute: 1000,
+  rateLimitBackend: 'redis', // Replikalar arası ortak sayaç ('memory' = process-local)
 };
 export function mergeServerConfig(userConfig: Partial<ServerConfig>): Required<ServerConfig> {
   return {
@@ -7,51 +7,89 @@ import type { WebSocketServer as WSServer } from 'ws';
 import { RedisAdapter } from './adapters/redis.js';
 import { PresenceService } from './services/presence.service.js';
 import { EMAService } from './services/ema.service.js';
+import { HistoryService } from './services/history.service.js';
+import { EMAScheduler } from './services/ema-scheduler.service.js';
 import { BroadcastService } from './services/broadcast.service.js';
 import { setupRESTEndpoints } from './transports/rest.js';
+import { setupSSEEndpoint } from './transports/sse.js';
+import { setupAdminEndpoints, type AdminOptions } from './transports/admin.js';
 import { WebSocketServer } from './transports/websocket.js';
 import { mergeServerConfig } from './config.js';
 import { MultiTierRateLimiter } from './utils/rate-limit.js';
+import { SessionTokenService } from './utils/session-token.js';
+import { StreamTokenService } from './utils/stream-token.js';
 import type { ServerConfig } from '../types/Config.js';
+import type { PresenceBreakdown, UniqueUsers } from '../types/ActiveUser.js';
+import type { CustomerRegistry } from '../../customers/index.js';
+import type { AuditLog } from '../../audit/index.js';
+import { setWebSocketClientCountSource } from '../../../core/observability/metrics.js';
 export class ActiveUsersServer {
   private config: Required<ServerConfig>;
   private redis: RedisAdapter;
   private presenceService: PresenceService;
   private emaService: EMAService;
+  private historyService: HistoryService;
   private broadcastService: BroadcastService;
   private rateLimiter: MultiTierRateLimiter;
+  private emaScheduler: EMAScheduler | null = null;
   private wsServer: WebSocketServer | null = null;
-  constructor(redisClient: any, config: Partial<ServerConfig> = {}) {
+  private customerRegistry: CustomerRegistry | null;
+  private sessionTokens: SessionTokenService | null = null;
+  private streamTokens: StreamTokenService | null = null;
+  constructor(redisClient: any, config: Partial<ServerConfig> = {}, customerRegistry: CustomerRegistry | null = null) {
     this.config = mergeServerConfig(config);
+    this.customerRegistry = customerRegistry;
     // Initialize adapters
     this.redis = new RedisAdapter(redisClient, this.config.presenceTTL);
     // Initialize services
     this.presenceService = new PresenceService(this.redis);
+    this.historyService = new HistoryService(this.redis, this.config.historyRetentionDays);
     this.emaService = new EMAService(
       this.redis,
       this.config.emaAlpha,
-      this.config.emaUpdateInterval
+      this.config.emaUpdateInterval,
+      this.historyService
     );
     this.broadcastService = new BroadcastService(this.redis);
+    // Session tokens (join → WebSocket auth)
+    if (this.config.sessionTokenSecret) {
+      this.sessionTokens = new SessionTokenService(this.config.sessionTokenSecret, this.config.sessionTokenTTL);
+      this.streamTokens = new StreamTokenService(this.config.sessionTokenSecret, this.config.sseTokenTTL);
+    } else {
+      console.warn('[ActiveUsers] ⚠️ sessionTokenSecret not set - WebSocket auth accepts any session');
+    }
+    // ws_connections gauge reads the live client count on every scrape
+    setWebSocketClientCountSource(() => this.broadcastService.getTotalClientCount());
     // Initialize rate limiter
-    this.rateLimiter = this.createRateLimiter();
+    this.rateLimiter = this.createRateLimiter(redisClient);
   }
   /**
    * Create multi-tier rate limiter with different limits
    */
-  private createRateLimiter(): MultiTierRateLimiter {
-    const limiter = new MultiTierRateLimiter();
+  private createRateLimiter(redisClient: any): MultiTierRateLimiter {
+    const limiter = new MultiTierRateLimiter({
+      backend: this.config.rateLimitBackend,
+      redis: redisClient,
+    });
     // Per-IP limit (tek cihaz koruması)
     limiter.addLimiter('ip', {
       windowMs: 60000, // 1 dakika
       maxRequests: 100, // Tek cihazdan max 100 istek/dakika
       keyGenerator: (req) => req.ip || 'unknown',
     });
-    // Per-Customer limit (müşteri bazlı)
+    // Per-Customer limit (müşteri bazlı) - plan limiti (customers.max_requests_per_minute) varsa o
+    const registry = this.customerRegistry;
     limiter.addLimiter('customer', {
       windowMs: 60000, // 1 dakika
       maxRequests: this.config.maxRequestsPerMinute || 5000, // 5000 istek/dakika
       keyGenerator: (req) => req.body?.customerId || 'anonymous',
+      ...(registry && {
+        maxRequestsFor: async (req: any) => {
+          const customerId = req.body?.customerId;
+          if (typeof customerId !== 'string' || !customerId) return null;
+          return (await registry.get(customerId))?.limits.maxRequestsPerMinute ?? null;
+        },
+      }),
     });
     return limiter;
   }
@@ -59,24 +97,92 @@ export class ActiveUsersServer {
    * Register REST endpoints
    */
   registerRESTEndpoints(fastify: FastifyInstance): void {
-    setupRESTEndpoints(fastify, this.presenceService, this.emaService, this.rateLimiter);
+    setupRESTEndpoints(
+      fastify,
+      this.presenceService,
+      this.emaService,
+      this.rateLimiter,
+      this.customerRegistry,
+      this.historyService,
+      this.sessionTokens
+    );
+    // Dashboard live stream (API key auth, separate from visitor traffic)
+    setupSSEEndpoint(
+      fastify,
+      this.broadcastService,
+      this.presenceService,
+      this.emaService,
+      this.customerRegistry,
+      {
+        heartbeatInterval: this.config.sseHeartbeatInterval,
+        maxStreamsPerCustomer: this.config.sseMaxStreamsPerCustomer,
+      },
+      this.streamTokens
+    );
+  }
+  /**
+   * Register admin endpoints (session inspection / eviction, audited)
+   */
+  registerAdminEndpoints(fastify: FastifyInstance, auditLog: AuditLog, options: AdminOptions): void {
+    setupAdminEndpoints(fastify, this.presenceService, auditLog, options);
   }
   /**
    * Register WebSocket server
    */
   registerWebSocketServer(wss: WSServer): void {
     // ✅ PHASE 1: Inject presenceService for TTL refresh
-    this.wsServer = new WebSocketServer(wss, this.broadcastService, this.presenceService);
+    this.wsServer = new WebSocketServer(
+      wss,
+      this.broadcastService,
+      this.presenceService,
+      this.customerRegistry,
+      this.sessionTokens,
+      this.config.wsAuthTimeout,
+      this.config.wsMinProtocolVersion
+    );
   }
   /**
    * Start EMA calculation for a customer
    */
   startEMACalculation(customerId: string): void {
     this.emaService.startCalculation(customerId, async (ema, count) => {
-      // Broadcast updated metrics
-      await this.broadcastService.broadcastMetrics(customerId, count, ema);
+      // Broadcast updated metrics (+ breakdown when enabled; a failed read never blocks the update)
+      let breakdown: PresenceBreakdown | undefined;
+      if (this.config.metricsBreakdown) {
+        try {
+          breakdown = await this.presenceService.getBreakdown(customerId);
+        } catch (error) {
+          console.error(`[ActiveUsers] Breakdown read failed for ${customerId}:`, error);
+        }
+      }
+      let users: UniqueUsers | undefined;
+      try {
+        users = await this.presenceService.getUniqueUsers(customerId);
+      } catch (error) {
+        console.error(`[ActiveUsers] Unique users read failed for ${customerId}:`, error);
+      }
+      await this.broadcastService.broadcastMetrics(customerId, count, ema, breakdown, users);
     });
   }
+  /**
+   * Start automatic EMA scheduling
+   * Discovers customers with live sessions and runs their EMA on exactly one instance
+   */
+  startEMAScheduler(): void {
+    if (this.emaScheduler || !this.config.emaAutoSchedule) return;
+    this.emaScheduler = new EMAScheduler(
+      this.redis,
+      {
+        discoveryInterval: this.config.emaDiscoveryInterval,
+        idleTimeout: this.config.emaIdleTimeout,
+      },
+      {
+        start: (customerId) => this.startEMACalculation(customerId),
+        stop: (customerId) => this.stopEMACalculation(customerId),
+      }
+    );
+    this.emaScheduler.start();
+  }
   /**
    * Stop EMA calculation for a customer
    */
@@ -99,7 +205,13 @@ export class ActiveUsersServer {
    * Cleanup
    */
   async destroy(): Promise<void> {
+    // Release EMA locks first so another instance takes over immediately
+    if (this.emaScheduler) {
+      await this.emaScheduler.stop();
+      this.emaScheduler = null;
+    }
     this.emaService.destroy();
+    setWebSocketClientCountSource(null);
     this.broadcastService.destroy();
     this.rateLimiter.destroy();
     if (this.wsServer) {
@@ -108,6 +220,12 @@ export class ActiveUsersServer {
     // Cleanup Redis adapter (subscribers)
     await this.redis.destroy();
   }
+  /**
+   * Redis health check (readiness probe)
+   */
+  async ping(): Promise<boolean> {
+    return this.redis.ping();
+  }
   /**
    * Get rate limiter (for custom configuration)
    */
@@ -125,7 +243,7 @@ export class ActiveUsersServer {
     return {
       subscribers: this.redis.getSubscriberCount(),
       wsClients: this.broadcastService.getTotalClientCount(),
-      emaIntervals: 0, // EMA service doesn't expose this yet
+      emaIntervals: this.emaService.getRunningCount(),
     };
   }
 }
@@ -1,24 +1,50 @@
 /**
  * Broadcast Service
- * Broadcasts metrics updates via WebSocket and Redis Pub/Sub
+ * Broadcasts metrics updates via WebSocket, stream listeners (SSE) and Redis Pub/Sub
+ *
+ * Cross-instance fan-out:
+ * - EMA for a customer runs on one node; its update is delivered locally and published
+ *   to `metrics:{customerId}` tagged with this node's id
+ * - A node subscribes to a customer's channel while it has at least one local subscriber
+ *   (WebSocket client or stream listener) and unsubscribes when the last one leaves
+ * - Received updates are delivered to local subscribers; a node's own messages are skipped
+ *
+ * WebSocket clients only get the optional payloads their protocol capabilities allow
  */
+import { randomUUID } from 'crypto';
 import { RedisAdapter } from '../adapters/redis.js';
 import type { MetricsUpdate } from '../../types/Messages.js';
+import type { PresenceBreakdown, UniqueUsers } from '../../types/ActiveUser.js';
+import type { ProtocolCapability } from '../../types/Protocol.js';
+export type MetricsListener = (metrics: MetricsUpdate) => void;
+// Pub/Sub message: origin lets the publishing node skip its own (already delivered) update
+interface MetricsEnvelope {
+  origin: string;
+  data: MetricsUpdate;
+}
+// Recent updates kept per customer for SSE Last-Event-ID resume (30s tick → ~25 min)
+const RECENT_METRICS_LIMIT = 50;
 export class BroadcastService {
   private redis: RedisAdapter;
+  private instanceId: string = randomUUID();
   private wsClients: Map<string, Set<any>> = new Map(); // customerId -> Set<WebSocket>
+  private clientCapabilities: WeakMap<any, ProtocolCapability[]> = new WeakMap(); // WebSocket -> negotiated capabilities
+  private listeners: Map<string, Set<MetricsListener>> = new Map(); // customerId -> stream listeners
+  private recentMetrics: Map<string, MetricsUpdate[]> = new Map(); // customerId -> last updates (oldest first)
   constructor(redis: RedisAdapter) {
     this.redis = redis;
   }
   /**
-   * Register WebSocket client
+   * Register WebSocket client (no capabilities = legacy v1 message shapes)
    */
-  registerClient(customerId: string, ws: any): void {
+  registerClient(customerId: string, ws: any, capabilities: ProtocolCapability[] = []): void {
+    this.clientCapabilities.set(ws, capabilities);
     if (!this.wsClients.has(customerId)) {
       this.wsClients.set(customerId, new Set());
     }
     this.wsClients.get(customerId)!.add(ws);
-      }
+    this.syncSubscription(customerId);
+  }
   /**
    * Unregister WebSocket client
    */
@@ -30,21 +56,105 @@ export class BroadcastService {
         this.wsClients.delete(customerId);
       }
     }
+    this.syncSubscription(customerId);
+  }
+  /**
+   * Register a metrics listener (SSE streams), returns the unsubscribe function
+   */
+  addListener(customerId: string, listener: MetricsListener): () => void {
+    if (!this.listeners.has(customerId)) {
+      this.listeners.set(customerId, new Set());
+    }
+    this.listeners.get(customerId)!.add(listener);
+    this.syncSubscription(customerId);
+    return () => {
+      const listeners = this.listeners.get(customerId);
+      if (listeners) {
+        listeners.delete(listener);
+        if (listeners.size === 0) {
+          this.listeners.delete(customerId);
+        }
       }
+      this.syncSubscription(customerId);
+    };
+  }
+  /**
+   * Updates newer than `since` (timestamp), oldest first
+   * `complete` is false when the buffer is empty or no longer reaches back to `since` (gap → send a snapshot)
+   */
+  getMetricsSince(customerId: string, since: number): { updates: MetricsUpdate[]; complete: boolean } {
+    const recent = this.recentMetrics.get(customerId) ?? [];
+    const updates = recent.filter((update) => update.timestamp > since);
+    const oldest = recent[0];
+    // Buffer full and its oldest entry is already newer than `since` → something was evicted
+    const complete = !!oldest && (recent.length < RECENT_METRICS_LIMIT || oldest.timestamp <= since);
+    return { updates, complete };
+  }
   /**
    * Broadcast metrics update to all clients
    */
-  async broadcastMetrics(customerId: string, count: number, ema: number): Promise<void> {
+  async broadcastMetrics(
+    customerId: string,
+    count: number,
+    ema: number,
+    breakdown?: PresenceBreakdown,
+    users?: UniqueUsers
+  ): Promise<void> {
     const metricsUpdate: MetricsUpdate = {
       customerId,
       timestamp: Date.now(),
       count,
       ema,
+      ...(breakdown && { breakdown }),
+      ...users,
     };
-    // Broadcast via WebSocket
-    await this.broadcastViaWebSocket(customerId, metricsUpdate);
-    // Broadcast via Redis Pub/Sub (for multi-server setup)
-    await this.broadcastViaPubSub(customerId, metricsUpdate);
+    // Deliver to this node's subscribers
+    await this.deliverLocally(customerId, metricsUpdate);
+    // Broadcast via Redis Pub/Sub (subscribers on other nodes)
+    try {
+      await this.broadcastViaPubSub(customerId, metricsUpdate);
+    } catch (error) {
+      console.error(`[Broadcast] Publish failed for ${customerId}:`, error);
+    }
+  }
+  /**
+   * Deliver an update to local WebSocket clients and stream listeners
+   */
+  private async deliverLocally(customerId: string, metrics: MetricsUpdate): Promise<void> {
+    await this.broadcastViaWebSocket(customerId, metrics);
+    // Notify stream listeners (SSE) and keep for resume
+    this.notifyListeners(customerId, metrics);
+  }
+  /**
+   * Pub/Sub message from any node
+   */
+  private async handleRemoteMetrics(customerId: string, envelope: MetricsEnvelope): Promise<void> {
+    if (!envelope?.data || envelope.origin === this.instanceId) return;
+    await this.deliverLocally(customerId, envelope.data);
+  }
+  /**
+   * Keep the channel subscription in line with local subscribers
+   * subscribe/unsubscribe are idempotent in the adapter, so repeated calls are safe
+   */
+  private syncSubscription(customerId: string): void {
+    if (this.hasLocalSubscribers(customerId)) {
+      this.redis
+        .subscribeToMetrics(customerId, (envelope: MetricsEnvelope) => {
+          this.handleRemoteMetrics(customerId, envelope).catch((error) => {
+            console.error(`[Broadcast] Remote delivery failed for ${customerId}:`, error);
+          });
+        })
+        .catch((error) => {
+          console.error(`[Broadcast] Subscribe failed for ${customerId}:`, error);
+        });
+    } else {
+      this.redis.unsubscribeFromMetrics(customerId).catch((error) => {
+        console.error(`[Broadcast] Unsubscribe failed for ${customerId}:`, error);
+      });
+    }
+  }
+  private hasLocalSubscribers(customerId: string): boolean {
+    return this.getClientCount(customerId) > 0 || this.getListenerCount(customerId) > 0;
   }
   /**
    * Broadcast via WebSocket
@@ -56,17 +166,45 @@ export class BroadcastService {
       type: 'metrics:update',
       data: metrics,
     });
+    // Downgraded copy for clients without metrics_breakdown (serialized once, on demand)
+    let legacyMessage: string | null = metrics.breakdown ? null : message;
     clients.forEach((ws) => {
-      if (ws.readyState === 1) { // WebSocket.OPEN
+      if (ws.readyState !== 1) return; // WebSocket.OPEN
+      if (this.clientCapabilities.get(ws)?.includes('metrics_breakdown')) {
         ws.send(message);
+        return;
+      }
+      if (legacyMessage === null) {
+        const { breakdown, ...rest } = metrics;
+        legacyMessage = JSON.stringify({ type: 'metrics:update', data: rest });
       }
+      ws.send(legacyMessage);
     });
+  }
+  /**
+   * Notify stream listeners - one failing listener must not block the others
+   */
+  private notifyListeners(customerId: string, metrics: MetricsUpdate): void {
+    const recent = this.recentMetrics.get(customerId) ?? [];
+    recent.push(metrics);
+    if (recent.length > RECENT_METRICS_LIMIT) {
+      recent.shift();
+    }
+    this.recentMetrics.set(customerId, recent);
+    this.listeners.get(customerId)?.forEach((listener) => {
+      try {
+        listener(metrics);
+      } catch (error) {
+        console.error(`[Broadcast] Listener error for ${customerId}:`, error);
       }
+    });
+  }
   /**
    * Broadcast via Redis Pub/Sub
    */
   private async broadcastViaPubSub(customerId: string, metrics: MetricsUpdate): Promise<void> {
-    await this.redis.publishMetrics(customerId, metrics);
+    const envelope: MetricsEnvelope = { origin: this.instanceId, data: metrics };
+    await this.redis.publishMetrics(customerId, envelope);
   }
   /**
    * Get client count for customer
@@ -74,6 +212,15 @@ export class BroadcastService {
   getClientCount(customerId: string): number {
     return this.wsClients.get(customerId)?.size ?? 0;
   }
+  /**
+   * Get stream listener count for customer
+   */
+  getListenerCount(customerId: string): number {
+    return this.listeners.get(customerId)?.size ?? 0;
+  }
+  getInstanceId(): string {
+    return this.instanceId;
+  }
   /**
    * Get total client count
    */
@@ -89,5 +236,7 @@ export class BroadcastService {
    */
   destroy(): void {
     this.wsClients.clear();
+    this.listeners.clear();
+    this.recentMetrics.clear();
   }
 }
@@ -0,0 +1,139 @@
+/**
+ * EMA Scheduler
+ * Runs EMA calculation for every customer with live sessions - one node per customer
+ *
+ * Every discovery tick:
+ * - Customers with presence keys are marked active
+ * - For each active (or recently active) customer, try to acquire/renew `ema_lock:{customerId}`
+ *   → lock held: start calculation locally (if not running)
+ *   → lock held by another instance: stop local calculation
+ * - Customers idle longer than idleTimeout are stopped and their lock released
+ *
+ * Locks expire after 3 discovery ticks, so a crashed node's customers are picked up
+ * by another instance automatically.
+ */
+import { randomUUID } from 'crypto';
+import { RedisAdapter } from '../adapters/redis.js';
+
+export interface EMASchedulerOptions {
+  discoveryInterval: number; // ms
+  idleTimeout: number;       // ms
+}
+
+export interface EMASchedulerHandlers {
+  start: (customerId: string) => void;
+  stop: (customerId: string) => void;
+}
+
+export class EMAScheduler {
+  private redis: RedisAdapter;
+  private options: EMASchedulerOptions;
+  private handlers: EMASchedulerHandlers;
+  private instanceId: string = randomUUID();
+  private owned: Set<string> = new Set(); // Customers this instance computes
+  private lastActive: Map<string, number> = new Map(); // customerId -> last time sessions were seen
+  private timer: NodeJS.Timeout | null = null;
+  private running = false; // Guards against overlapping ticks
+
+  constructor(redis: RedisAdapter, options: EMASchedulerOptions, handlers: EMASchedulerHandlers) {
+    this.redis = redis;
+    this.options = options;
+    this.handlers = handlers;
+  }
+
+  /**
+   * Start periodic discovery (first tick runs immediately)
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.tick();
+    }, this.options.discoveryInterval);
+    this.tick();
+  }
+
+  /**
+   * Stop discovery, stop all local calculations and release locks
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    for (const customerId of Array.from(this.owned)) {
+      await this.release(customerId);
+    }
+    this.lastActive.clear();
+  }
+
+  /**
+   * One discovery + lock round (public for tests)
+   */
+  async tick(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      const now = Date.now();
+      const activeCustomers = await this.redis.getActiveCustomerIds();
+      for (const customerId of activeCustomers) {
+        this.lastActive.set(customerId, now);
+      }
+
+      for (const [customerId, lastActive] of Array.from(this.lastActive.entries())) {
+        // Idle: keep ticking for idleTimeout so EMA decays, then stop
+        if (now - lastActive > this.options.idleTimeout) {
+          this.lastActive.delete(customerId);
+          await this.release(customerId);
+          continue;
+        }
+        await this.claim(customerId);
+      }
+    } catch (error) {
+      console.error('[EMAScheduler] Discovery failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Customers computed by this instance
+   */
+  getOwnedCustomers(): string[] {
+    return Array.from(this.owned);
+  }
+
+  getInstanceId(): string {
+    return this.instanceId;
+  }
+
+  private async claim(customerId: string): Promise<void> {
+    const acquired = await this.redis.acquireLock(
+      this.getLockKey(customerId),
+      this.instanceId,
+      this.options.discoveryInterval * 3
+    );
+    if (acquired && !this.owned.has(customerId)) {
+      this.owned.add(customerId);
+      this.handlers.start(customerId);
+    } else if (!acquired && this.owned.has(customerId)) {
+      // Lock expired and another node took over (e.g. after a Redis hiccup)
+      this.owned.delete(customerId);
+      this.handlers.stop(customerId);
+    }
+  }
+
+  private async release(customerId: string): Promise<void> {
+    if (!this.owned.has(customerId)) return;
+    this.owned.delete(customerId);
+    this.handlers.stop(customerId);
+    try {
+      await this.redis.releaseLock(this.getLockKey(customerId), this.instanceId);
+    } catch (error) {
+      console.error(`[EMAScheduler] Failed to release lock for ${customerId}:`, error);
+    }
+  }
+
+  private getLockKey(customerId: string): string {
+    return `ema_lock:${customerId}`;
+  }
+}
@@ -3,15 +3,24 @@
  * Server-side canonical EMA calculation
  */
 import { RedisAdapter } from '../adapters/redis.js';
+import type { HistoryService } from './history.service.js';
+import { metrics } from '../../../../core/observability/metrics.js';
 export class EMAService {
   private redis: RedisAdapter;
   private alpha: number;
   private updateInterval: number;
+  private history: HistoryService | null;
   private intervals: Map<string, NodeJS.Timeout> = new Map();
-  constructor(redis: RedisAdapter, alpha: number = 0.2, updateInterval: number = 30000) {
+  constructor(
+    redis: RedisAdapter,
+    alpha: number = 0.2,
+    updateInterval: number = 30000,
+    history: HistoryService | null = null
+  ) {
     this.redis = redis;
     this.alpha = alpha;
     this.updateInterval = updateInterval;
+    this.history = history;
   }
   /**
    * Start EMA calculation for a customer
@@ -32,22 +41,35 @@ export class EMAService {
     customerId: string,
     onUpdate: (ema: number, count: number) => void
   ): Promise<void> {
+    const endTimer = metrics.emaDuration.startTimer();
     try {
-      // Get current active count
-      const currentCount = await this.redis.getActiveCount(customerId);
-      // Get previous EMA
-      const previousEMA = await this.redis.getEMA(customerId);
-      // Calculate new EMA
+      let currentCount: number;
       let newEMA: number;
-      if (previousEMA === null) {
-        // First calculation
-        newEMA = currentCount;
-      } else {
-        // EMA formula: EMA_t = α * current + (1-α) * EMA_{t-1}
-        newEMA = this.alpha * currentCount + (1 - this.alpha) * previousEMA;
+      // Timed in finally: failed Redis calls are measured too
+      try {
+        // Get current active count
+        currentCount = await this.redis.getActiveCount(customerId);
+        // Get previous EMA
+        const previousEMA = await this.redis.getEMA(customerId);
+        // Calculate new EMA
+        if (previousEMA === null) {
+          // First calculation
+          newEMA = currentCount;
+        } else {
+          // EMA formula: EMA_t = α * current + (1-α) * EMA_{t-1}
+          newEMA = this.alpha * currentCount + (1 - this.alpha) * previousEMA;
+        }
+        // Store new EMA
+        await this.redis.setEMA(customerId, newEMA);
+        // Persist tick in the time series (history failure must not stop EMA updates)
+        if (this.history) {
+          await this.history.record(customerId, currentCount, newEMA).catch((error) => {
+            console.error(`[EMA] History write failed for ${customerId}:`, error);
+          });
+        }
+      } finally {
+        endTimer();
       }
-      // Store new EMA
-      await this.redis.setEMA(customerId, newEMA);
       // Notify callback
       onUpdate(newEMA, currentCount);
     } catch (error) {
@@ -71,6 +93,18 @@ export class EMAService {
     const ema = await this.redis.getEMA(customerId);
     return ema ?? 0;
   }
+  /**
+   * Number of customers with a running calculation
+   */
+  getRunningCount(): number {
+    return this.intervals.size;
+  }
+  /**
+   * Tick interval (ms)
+   */
+  getUpdateInterval(): number {
+    return this.updateInterval;
+  }
   /**
    * Update alpha value
    */
@@ -0,0 +1,129 @@
+/**
+ * History Service
+ * Per-customer time series of raw active count + EMA (one point per EMA tick)
+ */
+import { RedisAdapter } from '../adapters/redis.js';
+import { TimeWindowManager } from '../utils/time.js';
+import type {
+  ActiveUserHistoryBucket,
+  ActiveUserHistoryPoint,
+  HistoryResolution,
+} from '../../types/index.js';
+
+export const HISTORY_BUCKET_SIZES: Record<Exclude<HistoryResolution, 'raw'>, number> = {
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+
+// Upper bound on returned points (protects Redis and the client)
+export const MAX_HISTORY_POINTS = 5000;
+
+export class HistoryService {
+  private redis: RedisAdapter;
+  private retentionMs: number;
+
+  constructor(redis: RedisAdapter, retentionDays: number = 7) {
+    this.redis = redis;
+    this.retentionMs = retentionDays * 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Record one EMA tick
+   */
+  async record(customerId: string, count: number, ema: number, timestamp: number = Date.now()): Promise<void> {
+    await this.redis.appendHistory(
+      customerId,
+      { timestamp, count, ema: Math.round(ema * 100) / 100 },
+      this.retentionMs
+    );
+  }
+
+  /**
+   * Query history, downsampled to the requested resolution
+   */
+  async getHistory(
+    customerId: string,
+    from: number,
+    to: number,
+    resolution: HistoryResolution
+  ): Promise<ActiveUserHistoryBucket[]> {
+    const points = await this.redis.getHistory(customerId, from, to);
+    if (resolution === 'raw') {
+      return points.slice(-MAX_HISTORY_POINTS).map((point) => ({
+        timestamp: point.timestamp,
+        count: point.count,
+        minCount: point.count,
+        maxCount: point.count,
+        ema: point.ema,
+        samples: 1,
+      }));
+    }
+    return downsample(points, HISTORY_BUCKET_SIZES[resolution]);
+  }
+
+  /**
+   * Pick a resolution for a range (used when the client does not ask for one)
+   * ≤ 6h → minute, ≤ 7d → hour, otherwise day
+   */
+  static defaultResolution(from: number, to: number): HistoryResolution {
+    const range = to - from;
+    if (range <= 6 * HISTORY_BUCKET_SIZES.hour) return 'minute';
+    if (range <= 7 * HISTORY_BUCKET_SIZES.day) return 'hour';
+    return 'day';
+  }
+
+  /**
+   * Number of buckets a query would produce (raw = estimated from tick interval)
+   */
+  static estimatePoints(from: number, to: number, resolution: HistoryResolution, tickMs: number): number {
+    const bucketSize = resolution === 'raw' ? tickMs : HISTORY_BUCKET_SIZES[resolution];
+    return Math.ceil((to - from) / bucketSize);
+  }
+
+  getRetentionMs(): number {
+    return this.retentionMs;
+  }
+}
+
+/**
+ * Aggregate points into fixed-size buckets (bucket start = roundToBucket)
+ */
+export function downsample(points: ActiveUserHistoryPoint[], bucketSize: number): ActiveUserHistoryBucket[] {
+  const buckets: Map<number, { sumCount: number; sumEma: number; min: number; max: number; samples: number }> = new Map();
+
+  for (const point of points) {
+    const bucketStart = TimeWindowManager.roundToBucket(point.timestamp, bucketSize);
+    const bucket = buckets.get(bucketStart);
+    if (!bucket) {
+      buckets.set(bucketStart, {
+        sumCount: point.count,
+        sumEma: point.ema,
+        min: point.count,
+        max: point.count,
+        samples: 1,
+      });
+      continue;
+    }
+    bucket.sumCount += point.count;
+    bucket.sumEma += point.ema;
+    bucket.min = Math.min(bucket.min, point.count);
+    bucket.max = Math.max(bucket.max, point.count);
+    bucket.samples++;
+  }
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([timestamp, bucket]) => ({
+      timestamp,
+      count: round2(bucket.sumCount / bucket.samples),
+      minCount: bucket.min,
+      maxCount: bucket.max,
+      ema: round2(bucket.sumEma / bucket.samples),
+      samples: bucket.samples,
+    }));
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -4,9 +4,12 @@
  */
 import { RedisAdapter } from '../adapters/redis.js';
 import type { JoinPayload, BeatPayload, LeavePayload } from '../../types/Messages.js';
-import type { PresenceData } from '../../types/ActiveUser.js';
+import type { PresenceData, PagePresence, PresenceBreakdown, UniqueUsers } from '../../types/ActiveUser.js';
+import type { UserTraits } from '../../types/Messages.js';
 import { formatTimestamp, getRelativeTime } from '../utils/timestamp.js';
+import { sanitizePagePath, sanitizePageTitle } from '../utils/page.js';
 import { PlatformDetector } from '../utils/platform-detector.js';
+import { metrics } from '../../../../core/observability/metrics.js';
 export class PresenceService {
   private redis: RedisAdapter;
   private disconnectTimers: Map<string, NodeJS.Timeout> = new Map(); // 🆕 Shared timer map (DEPRECATED - will be removed)
@@ -78,6 +81,7 @@ export class PresenceService {
     // ✅ CRITICAL FIX: If some fields are missing (e.g., from TTL refresh in polling mode),
     // preserve existing values from Redis
     const existing = await this.redis.getPresence(payload.customerId, payload.sessionId);
+    const pagePath = sanitizePagePath(payload.page_path);
     
     const presenceData: PresenceData = {
       customerId: payload.customerId,
@@ -94,12 +98,19 @@ export class PresenceService {
       total_backgroundTab_quantity: payload.total_backgroundTab_quantity !== undefined ? payload.total_backgroundTab_quantity : existing?.total_backgroundTab_quantity,
       // Session Mode - preserve existing if not provided, default to 'active'
       session_mode: sessionMode,
+      // Current page - a new path replaces the title too (old title belongs to the old page)
+      page_path: pagePath || existing?.page_path,
+      page_title: pagePath ? sanitizePageTitle(payload.page_title) : existing?.page_title,
+      // Identified user - traits belong to the user they were sent with
+      userId: payload.userId || existing?.userId,
+      userTraits: payload.userId ? payload.userTraits : existing?.userTraits,
       // Timestamps
       createdAt: existing?.createdAt || formatTimestamp(now),
       updatedAt: formatTimestamp(now),
       lastActivity: 'just now',
     };
     await this.redis.setPresence(presenceData);
+    metrics.presenceEvents.inc({ event: 'join' });
     
     // Simple Redis operations - no ZSET needed
     
@@ -109,7 +120,9 @@ export class PresenceService {
     const tabInfo = presenceData.total_tab_quantity ? ` | Tabs: ${presenceData.total_tab_quantity} (${presenceData.total_backgroundTab_quantity} bg)` : '';
     const sessionModeInfo = presenceData.session_mode ? ` | Mode: ${presenceData.session_mode}` : '';
     const platformInfo = ` | Platform: ${platform} (${presenceData.platform}/${presenceData.browser}/${presenceData.device})`;
-    console.log(`[Presence] ✅ JOIN | ${payload.sessionId.substring(0, 8)} | ${sessionTime}${desktopModeWarning}${tabInfo}${sessionModeInfo}${platformInfo}`);
+    const pageInfo = presenceData.page_path ? ` | Page: ${presenceData.page_path}` : '';
+    const userInfo = presenceData.userId ? ' | Identified' : '';
+    console.log(`[Presence] ✅ JOIN | ${payload.sessionId.substring(0, 8)} | ${sessionTime}${desktopModeWarning}${tabInfo}${sessionModeInfo}${platformInfo}${pageInfo}${userInfo}`);
   }
   /**
    * Handle heartbeat (beat)
@@ -156,6 +169,7 @@ export class PresenceService {
       
       const beatTime = formatTimestamp(now);
     }
+    metrics.presenceEvents.inc({ event: 'beat' });
   }
   /**
    * Handle user leave
@@ -180,6 +194,7 @@ export class PresenceService {
     
     // Direct removal - no ZSET needed
     await this.redis.removePresence(payload.customerId, payload.sessionId);
+    metrics.presenceEvents.inc({ event: 'leave' });
     
     console.log(`[Presence] ✅ Session removed from Redis successfully`);
     
@@ -187,18 +202,43 @@ export class PresenceService {
   }
   /**
    * 🆕 Refresh TTL for active user (WebSocket heartbeat)
+   * Also applies session_mode / current page (SPA navigation) / identified user changes
    */
-  async refreshTTL(customerId: string, sessionId: string, tabId: string, sessionMode?: 'active' | 'passive_active'): Promise<void> {
-    // Update session_mode if provided
-    if (sessionMode) {
+  async refreshTTL(
+    customerId: string,
+    sessionId: string,
+    tabId: string,
+    sessionMode?: 'active' | 'passive_active',
+    page?: { path?: string | undefined; title?: string | undefined },
+    user?: { id?: string | undefined; traits?: UserTraits | undefined }
+  ): Promise<void> {
+    const pagePath = sanitizePagePath(page?.path);
+    if (sessionMode || pagePath || user?.id) {
       const existing = await this.redis.getPresence(customerId, sessionId);
-      if (existing && existing.session_mode !== sessionMode) {
-        const updatedData: PresenceData = {
-          ...existing,
-          session_mode: sessionMode,
-          updatedAt: formatTimestamp(Date.now()),
-        };
-        await this.redis.updatePresence(updatedData);
+      if (existing) {
+        const updatedData: PresenceData = { ...existing };
+        let changed = false;
+        if (sessionMode && existing.session_mode !== sessionMode) {
+          updatedData.session_mode = sessionMode;
+          changed = true;
+        }
+        if (pagePath) {
+          const pageTitle = sanitizePageTitle(page?.title);
+          if (existing.page_path !== pagePath || existing.page_title !== pageTitle) {
+            updatedData.page_path = pagePath;
+            updatedData.page_title = pageTitle;
+            changed = true;
+          }
+        }
+        if (user?.id && (existing.userId !== user.id || JSON.stringify(existing.userTraits) !== JSON.stringify(user.traits))) {
+          updatedData.userId = user.id;
+          updatedData.userTraits = user.traits;
+          changed = true;
+        }
+        if (changed) {
+          updatedData.updatedAt = formatTimestamp(Date.now());
+          await this.redis.updatePresence(updatedData);
+        }
       }
     }
     
@@ -210,6 +250,17 @@ export class PresenceService {
   async getActiveCount(customerId: string): Promise<number> {
     return await this.redis.getActiveCount(customerId);
   }
+  /**
+   * 🆕 Live people - sessions of one identified user count once, anonymous sessions once each
+   * Counters are maintained on join / leave like the breakdown (no session scan)
+   */
+  async getUniqueUsers(customerId: string): Promise<UniqueUsers> {
+    const { users, sessions, active } = await this.redis.getUserCounts(customerId);
+    return {
+      uniqueUsers: Math.max(users, active - sessions + users),
+      identifiedUsers: users,
+    };
+  }
   /**
    * 🆕 Get presence data for a session
    * Used for device/platform detection in WebSocket
@@ -229,6 +280,55 @@ export class PresenceService {
   async getActiveSessions(customerId: string): Promise<string[]> {
     return await this.redis.getActiveSessions(customerId);
   }
+  /**
+   * 🆕 Live sessions with their presence data (admin inspection)
+   * total = all live sessions, sessions = first `limit` of them
+   */
+  async listSessions(customerId: string, limit: number): Promise<{ total: number; sessions: PresenceData[] }> {
+    const sessionIds = await this.redis.getActiveSessions(customerId);
+    const sessions = await this.redis.getPresenceMany(customerId, sessionIds.slice(0, limit));
+    return { total: sessionIds.length, sessions };
+  }
+  /**
+   * 🆕 Remove every live session of a customer (admin flush) - returns removed count
+   * Sessions are removed one by one so indexes and breakdown counters stay consistent
+   */
+  async flushCustomer(customerId: string): Promise<number> {
+    const sessionIds = await this.redis.getActiveSessions(customerId);
+    for (const sessionId of sessionIds) {
+      this.cancelDisconnectTimer(customerId, sessionId, true);
+      await this.redis.removePresence(customerId, sessionId);
+    }
+    return sessionIds.length;
+  }
+  /**
+   * 🆕 Live visitors per page (most visited first)
+   * total = all live sessions, including ones that have not reported a page
+   */
+  async getTopPages(customerId: string, limit: number = 10): Promise<{ total: number; pages: PagePresence[] }> {
+    const sessionIds = await this.redis.getActiveSessions(customerId);
+    const presences = await this.redis.getPresenceMany(customerId, sessionIds);
+    const pages: Map<string, PagePresence> = new Map();
+    for (const presence of presences) {
+      if (!presence.page_path) continue;
+      const page = pages.get(presence.page_path);
+      if (page) {
+        page.visitors++;
+        page.title = page.title || presence.page_title;
+      } else {
+        pages.set(presence.page_path, { path: presence.page_path, title: presence.page_title, visitors: 1 });
+      }
+    }
+    const sorted = Array.from(pages.values()).sort((a, b) => b.visitors - a.visitors || a.path.localeCompare(b.path));
+    return { total: presences.length, pages: sorted.slice(0, limit) };
+  }
+  /**
+   * 🆕 Live sessions per platform / browser / device / session_mode
+   * Counters are maintained on join / leave / mode change, not computed per request
+   */
+  async getBreakdown(customerId: string): Promise<PresenceBreakdown> {
+    return await this.redis.getBreakdown(customerId);
+  }
   /**
    * 🆕 Start stale session cleanup job
    * Runs every 5 minutes and removes sessions with no activity for 15+ minutes
@@ -243,16 +343,20 @@ export class PresenceService {
   }
   /**
    * 🆕 Run stale session cleanup
-   * Checks all presence keys and removes those inactive for 15+ minutes
+   * Prunes expired index entries, then removes indexed sessions inactive for 15+ minutes
    */
   private async runStaleSessionCleanup(): Promise<void> {
     try {
             const staleThreshold = 15 * 60 * 1000; // 15 minutes in milliseconds
       const now = Date.now();
-      // Get all presence keys
+      // Drop expired sessions from the per-customer indexes
+      const expired = await this.redis.cleanupExpiredSessions();
+      metrics.expiredIndexEntriesRemoved.inc(expired);
+      // Get all presence keys (from the indexes)
       const allKeys = await this.redis.getAllPresenceKeys();
       if (allKeys.length === 0) {
-                return;
+        metrics.staleCleanupRuns.inc({ status: 'success' });
+        return;
       }
             let staleCount = 0;
       for (const key of allKeys) {
@@ -304,10 +408,10 @@ export class PresenceService {
           console.error(`[Presence] Error checking key ${key}:`, error);
         }
       }
-      if (staleCount > 0) {
-      } else {
-              }
+      metrics.staleSessionsRemoved.inc(staleCount);
+      metrics.staleCleanupRuns.inc({ status: 'success' });
     } catch (error) {
+      metrics.staleCleanupRuns.inc({ status: 'error' });
       console.error('[Presence] Error during stale session cleanup:', error);
     }
   }
@@ -0,0 +1,173 @@
+/**
+ * Admin API
+ * Operator routes to inspect and evict live sessions (replaces the redis-pretty-view /
+ * check-redis-active-users scripts)
+ *
+ *   GET    /admin/active-users/:customerId/sessions               → sessions + PresenceData
+ *   GET    /admin/active-users/:customerId/sessions/:sessionId    → one session + remaining TTL
+ *   DELETE /admin/active-users/:customerId/sessions/:sessionId    → force-remove a session
+ *   DELETE /admin/active-users/:customerId/sessions               → flush the customer
+ *
+ * - Authenticated with the admin API key: `Authorization: Bearer <ADMIN_API_KEY>`
+ * - Every mutation is written to the audit log (actor from `X-Admin-Actor`, default 'admin')
+ * - Evicted visitors whose page is still open re-join with their next TTL refresh / poll
+ */
+import { createHash, timingSafeEqual } from 'crypto';
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { PresenceService } from '../services/presence.service.js';
+import type { AuditLog } from '../../../audit/index.js';
+
+export interface AdminOptions {
+  apiKey: string;
+}
+
+interface SessionParams {
+  customerId: string;
+  sessionId: string;
+}
+
+const DEFAULT_SESSIONS_LIMIT = 100;
+const MAX_SESSIONS_LIMIT = 1000;
+const MAX_ACTOR_LENGTH = 64;
+
+/**
+ * Constant-time key comparison (hashed first, so lengths always match)
+ */
+function keysMatch(expected: string, received: string): boolean {
+  const a = createHash('sha256').update(expected).digest();
+  const b = createHash('sha256').update(received).digest();
+  return timingSafeEqual(a, b);
+}
+
+/**
+ * Operator name recorded in the audit log
+ */
+function getActor(request: FastifyRequest): string {
+  const header = request.headers['x-admin-actor'];
+  const actor = (Array.isArray(header) ? header[0] : header)?.trim();
+  return actor ? actor.substring(0, MAX_ACTOR_LENGTH) : 'admin';
+}
+
+export function setupAdminEndpoints(
+  fastify: FastifyInstance,
+  presenceService: PresenceService,
+  auditLog: AuditLog,
+  options: AdminOptions
+): void {
+  /**
+   * Admin auth - runs for the routes registered in this plugin only
+   */
+  fastify.register(async (admin) => {
+    admin.addHook('onRequest', async (request: FastifyRequest, reply: FastifyReply) => {
+      const header = request.headers.authorization;
+      const apiKey = header?.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+      if (!apiKey) {
+        return reply.code(401).send({
+          error: 'Unauthorized',
+          message: 'Admin API key required (Authorization: Bearer <key>)',
+          code: 'ADMIN_KEY_REQUIRED',
+        });
+      }
+      if (!keysMatch(options.apiKey, apiKey)) {
+        console.warn(`[Admin] ⛔ Invalid admin key from ${request.ip} on ${request.method} ${request.url}`);
+        return reply.code(403).send({
+          error: 'Forbidden',
+          message: 'Invalid admin API key',
+          code: 'INVALID_ADMIN_KEY',
+        });
+      }
+    });
+
+    /**
+     * GET /admin/active-users/:customerId/sessions?limit=100
+     */
+    admin.get<{ Params: { customerId: string }; Querystring: { limit?: string } }>(
+      '/admin/active-users/:customerId/sessions',
+      async (request, reply) => {
+        try {
+          const { customerId } = request.params;
+          const limit = request.query.limit ? Number(request.query.limit) : DEFAULT_SESSIONS_LIMIT;
+          if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SESSIONS_LIMIT) {
+            return reply.code(400).send({ error: `limit must be an integer between 1 and ${MAX_SESSIONS_LIMIT}` });
+          }
+          const { total, sessions } = await presenceService.listSessions(customerId, limit);
+          return reply.code(200).send({ customerId, timestamp: Date.now(), total, sessions });
+        } catch (error) {
+          console.error('[Admin] List sessions error:', error);
+          return reply.code(500).send({ error: 'Internal server error' });
+        }
+      }
+    );
+
+    /**
+     * GET /admin/active-users/:customerId/sessions/:sessionId
+     */
+    admin.get<{ Params: SessionParams }>(
+      '/admin/active-users/:customerId/sessions/:sessionId',
+      async (request, reply) => {
+        try {
+          const { customerId, sessionId } = request.params;
+          const presence = await presenceService.getPresence(customerId, sessionId);
+          if (!presence) {
+            return reply.code(404).send({ error: 'Session not found' });
+          }
+          // -1 = no TTL, -2 = expired between the two reads
+          const ttl = await presenceService.getKeyTTL(customerId, sessionId);
+          return reply.code(200).send({ customerId, sessionId, ttl, presence });
+        } catch (error) {
+          console.error('[Admin] Get session error:', error);
+          return reply.code(500).send({ error: 'Internal server error' });
+        }
+      }
+    );
+
+    /**
+     * DELETE /admin/active-users/:customerId/sessions/:sessionId
+     */
+    admin.delete<{ Params: SessionParams }>(
+      '/admin/active-users/:customerId/sessions/:sessionId',
+      async (request, reply) => {
+        const { customerId, sessionId } = request.params;
+        const audit = { action: 'presence.session.remove', actor: getActor(request), ip: request.ip, customerId, target: sessionId };
+        try {
+          const presence = await presenceService.getPresence(customerId, sessionId);
+          if (!presence) {
+            await auditLog.record({ ...audit, outcome: 'not_found', details: {} });
+            return reply.code(404).send({ error: 'Session not found' });
+          }
+          await presenceService.removePresence(customerId, sessionId);
+          await auditLog.record({
+            ...audit,
+            outcome: 'success',
+            details: { platform: presence.platform ?? null, createdAt: presence.createdAt, updatedAt: presence.updatedAt },
+          });
+          return reply.code(200).send({ success: true, customerId, sessionId });
+        } catch (error) {
+          console.error('[Admin] Remove session error:', error);
+          await auditLog.record({ ...audit, outcome: 'error', details: { error: String(error) } });
+          return reply.code(500).send({ error: 'Internal server error' });
+        }
+      }
+    );
+
+    /**
+     * DELETE /admin/active-users/:customerId/sessions
+     */
+    admin.delete<{ Params: { customerId: string } }>(
+      '/admin/active-users/:customerId/sessions',
+      async (request, reply) => {
+        const { customerId } = request.params;
+        const audit = { action: 'presence.customer.flush', actor: getActor(request), ip: request.ip, customerId, target: null };
+        try {
+          const removed = await presenceService.flushCustomer(customerId);
+          await auditLog.record({ ...audit, outcome: 'success', details: { removed } });
+          return reply.code(200).send({ success: true, customerId, removed });
+        } catch (error) {
+          console.error('[Admin] Flush customer error:', error);
+          await auditLog.record({ ...audit, outcome: 'error', details: { error: String(error) } });
+          return reply.code(500).send({ error: 'Internal server error' });
+        }
+      }
+    );
+  });
+}
@@ -5,10 +5,25 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { PresenceService } from '../services/presence.service.js';
 import { EMAService } from '../services/ema.service.js';
-import { MultiTierRateLimiter } from '../utils/rate-limit.js';
-import type { JoinPayload, LeavePayload } from '../../types/Messages.js';
+import { HistoryService, MAX_HISTORY_POINTS } from '../services/history.service.js';
+import { MultiTierRateLimiter, mostRestrictiveTier, setRateLimitHeaders } from '../utils/rate-limit.js';
+import { SessionTokenService } from '../utils/session-token.js';
+import { checkActiveUsersLimit } from '../utils/plan-limits.js';
+import { parsePayload, presenceErrorHandler, sendValidationError, validatePayload } from '../utils/validation.js';
+import { PRESENCE_LIMITS, joinPayloadSchema, leavePayloadSchema } from '@universal-tracking/schemas';
+import type {
+  JoinPayload,
+  JoinResponse,
+  LeavePayload,
+  HistoryResponse,
+  PagesResponse,
+  BreakdownResponse,
+} from '../../types/Messages.js';
+import type { HistoryResolution } from '../../types/ActiveUser.js';
+import type { CustomerRegistry } from '../../../customers/index.js';
 /**
  * Rate limit checker helper
+ * Headers always describe the tier that decided: the blocking one, or the closest to its limit
  */
 async function checkRateLimit(
   request: FastifyRequest,
@@ -17,51 +32,131 @@ async function checkRateLimit(
 ): Promise<boolean> {
   const rateLimitResult = await rateLimiter.checkAll(request);
   if (!rateLimitResult.allowed) {
-    const limit = rateLimitResult.limits[rateLimitResult.blockedBy!];
-    const retryAfter = Math.ceil((limit.resetTime - Date.now()) / 1000);
-    reply.header('X-RateLimit-Limit', limit.limit.toString());
-    reply.header('X-RateLimit-Remaining', '0');
-    reply.header('X-RateLimit-Reset', new Date(limit.resetTime).toISOString());
-    reply.header('Retry-After', retryAfter.toString());
+    const blockedBy = rateLimitResult.blockedBy!;
+    const limit = rateLimitResult.limits[blockedBy]!;
+    const retryAfter = Math.max(1, Math.ceil((limit.resetTime - Date.now()) / 1000));
+    setRateLimitHeaders(reply, limit, blockedBy);
     reply.code(429).send({
       error: 'Too Many Requests',
-      message: `Rate limit exceeded (${rateLimitResult.blockedBy}). Try again in ${retryAfter} seconds.`,
-      blockedBy: rateLimitResult.blockedBy,
+      message: `Rate limit exceeded (${blockedBy}). Try again in ${retryAfter} seconds.`,
+      blockedBy,
+      retryAfter,
     });
     return false; // Rate limit exceeded
   }
   // Add rate limit headers for successful requests
-  const customerLimit = rateLimitResult.limits['customer'];
-  reply.header('X-RateLimit-Limit', customerLimit.limit.toString());
-  reply.header('X-RateLimit-Remaining', customerLimit.remaining.toString());
-  reply.header('X-RateLimit-Reset', new Date(customerLimit.resetTime).toISOString());
+  const scope = mostRestrictiveTier(rateLimitResult.limits);
+  if (scope) {
+    setRateLimitHeaders(reply, rateLimitResult.limits[scope]!, scope);
+  }
   return true; // Rate limit OK
 }
+interface HistoryQuery {
+  customerId: string;
+  from?: string;
+  to?: string;
+  resolution?: string;
+}
+interface PagesQuery {
+  customerId: string;
+  limit?: string;
+}
+const DEFAULT_PAGES_LIMIT = 10;
+const MAX_PAGES_LIMIT = 100;
+/**
+ * Customer check helper - rejects unknown/disabled customers and foreign origins
+ * No registry configured = every customerId is accepted
+ */
+async function checkCustomer(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  customerRegistry: CustomerRegistry | null,
+  customerId: string
+): Promise<boolean> {
+  if (!customerRegistry) {
+    return true;
+  }
+  const access = await customerRegistry.authorize(customerId, request.headers.origin);
+  if (!access.allowed) {
+    reply.code(access.statusCode).send({
+      error: access.statusCode === 503 ? 'Service Unavailable' : 'Forbidden',
+      message: access.message,
+      code: access.code,
+    });
+    return false; // Customer rejected
+  }
+  return true; // Customer OK
+}
+/**
+ * Plan limit helper - new sessions are rejected once the plan's live session cap is reached
+ * Runs after checkCustomer (the customer lookup is a cache hit)
+ */
+async function checkPlanLimits(
+  reply: FastifyReply,
+  presenceService: PresenceService,
+  customerRegistry: CustomerRegistry | null,
+  customerId: string,
+  sessionId: string
+): Promise<boolean> {
+  const customer = customerRegistry ? await customerRegistry.get(customerId) : null;
+  if (!customer) {
+    return true;
+  }
+  const rejection = await checkActiveUsersLimit(presenceService, customer, sessionId);
+  if (rejection) {
+    reply.code(429).header('Retry-After', '60').send({
+      error: 'Too Many Requests',
+      message: rejection.message,
+      code: rejection.code,
+      retryAfter: 60,
+    });
+    return false; // Plan limit reached
+  }
+  return true; // Plan limit OK
+}
 export function setupRESTEndpoints(
   fastify: FastifyInstance,
   presenceService: PresenceService,
   emaService: EMAService,
-  rateLimiter: MultiTierRateLimiter
+  rateLimiter: MultiTierRateLimiter,
+  customerRegistry: CustomerRegistry | null = null,
+  historyService: HistoryService | null = null,
+  sessionTokens: SessionTokenService | null = null
 ): void {
   /**
    * POST /presence/join
    * User joins (new session)
    */
-  fastify.post<{ Body: JoinPayload }>(
+  fastify.post<{ Body: unknown }>(
     '/presence/join',
-    async (request: FastifyRequest<{ Body: JoinPayload }>, reply: FastifyReply) => {
+    { bodyLimit: PRESENCE_LIMITS.maxBodyBytes, errorHandler: presenceErrorHandler },
+    async (request: FastifyRequest<{ Body: unknown }>, reply: FastifyReply) => {
       try {
         // Rate limit check
         if (!(await checkRateLimit(request, reply, rateLimiter))) {
           return; // Rate limit exceeded, response already sent
         }
-        const payload = request.body;
-        // Validate
-        if (!payload.customerId || !payload.sessionId || !payload.tabId) {
-          return reply.code(400).send({ error: 'Missing required fields' });
+        // Validate against the shared schema
+        const validation = validatePayload(joinPayloadSchema, request.body, 'join payload');
+        if (!validation.success) {
+          return sendValidationError(reply, validation);
+        }
+        const payload: JoinPayload = validation.data;
+        if (!(await checkCustomer(request, reply, customerRegistry, payload.customerId))) {
+          return; // Customer rejected, response already sent
+        }
+        if (!(await checkPlanLimits(reply, presenceService, customerRegistry, payload.customerId, payload.sessionId))) {
+          return; // Plan limit reached, response already sent
         }
         await presenceService.handleJoin(payload);
-        return reply.code(200).send({ success: true });
+        // Session token for the WebSocket handshake (bound to this customer + session)
+        const response: JoinResponse = { success: true };
+        if (sessionTokens) {
+          const { token, expiresAt } = sessionTokens.issue(payload.customerId, payload.sessionId);
+          response.wsToken = token;
+          response.wsTokenExpiresAt = expiresAt;
+        }
+        return reply.code(200).send(response);
       } catch (error) {
         console.error('[REST] Join error:', error);
         return reply.code(500).send({ error: 'Internal server error' });
@@ -73,9 +168,10 @@ export function setupRESTEndpoints(
    * User leaves (session ends)
    * Supports both application/json and text/plain content types
    */
-  fastify.post<{ Body: LeavePayload | string }>(
+  fastify.post<{ Body: unknown }>(
     '/presence/leave',
-    async (request: FastifyRequest<{ Body: LeavePayload | string }>, reply: FastifyReply) => {
+    { bodyLimit: PRESENCE_LIMITS.maxBodyBytes, errorHandler: presenceErrorHandler },
+    async (request: FastifyRequest<{ Body: unknown }>, reply: FastifyReply) => {
       try {
         // Rate limit check
         if (!(await checkRateLimit(request, reply, rateLimiter))) {
@@ -96,49 +192,36 @@ export function setupRESTEndpoints(
           }
         }
 
-        let payload: LeavePayload | null = null;
-        
-        // Handle different content types with robust parsing
-        try {
-          if (request.headers['content-type']?.includes('text/plain')) {
-            // Parse text/plain body as JSON
-            const bodyStr = typeof request.body === 'string' ? request.body : String(request.body || '');
-            if (bodyStr) {
-              payload = JSON.parse(bodyStr);
-            }
-          } else {
-            // Standard application/json
-            payload = request.body as LeavePayload;
-          }
-        } catch (error) {
-          console.warn('[REST] Leave body parse failed:', error);
-          payload = null;
+        // Empty body (dismissed beacon) → 204, anything else must match the schema
+        // text/plain (sendBeacon) bodies arrive as strings
+        const body = request.body;
+        if (body === undefined || body === null || body === '') {
+          console.warn('[REST] Leave without body');
+          return reply.code(204).send();
         }
-
-        // Extract identifiers
-        const customerId = payload?.customerId;
-        const sessionId = payload?.sessionId;
-        const tabId = payload?.tabId;
-
-        // Log for debugging
-
-        if (customerId && sessionId && tabId) {
-          // Normal flow - delete the session
-          const deleted = await presenceService.handleLeave(payload!);
-          if (deleted) {
-            return reply.code(200).send({ success: true });
-          } else {
-            // Session not found - set tombstone
-            const redis = presenceService.getRedisClient();
-            const tombstoneKey = `LEAVE_TOMBSTONE:presence:${customerId}:${sessionId}:${tabId}`;
-            await redis.set(tombstoneKey, Date.now().toString());
-            await redis.expire(tombstoneKey, 30);
-            return reply.code(200).send({ success: true });
-          }
+        const validation =
+          typeof body === 'string'
+            ? parsePayload(leavePayloadSchema, body, 'leave payload')
+            : validatePayload(leavePayloadSchema, body, 'leave payload');
+        if (!validation.success) {
+          return sendValidationError(reply, validation);
+        }
+        const payload: LeavePayload = validation.data;
+        const { customerId, sessionId, tabId } = payload;
+        if (!(await checkCustomer(request, reply, customerRegistry, customerId))) {
+          return; // Customer rejected, response already sent
+        }
+        // Normal flow - delete the session
+        const deleted = await presenceService.handleLeave(payload);
+        if (deleted) {
+          return reply.code(200).send({ success: true });
         } else {
-          // Missing identifiers - return 204 (dismissal-safe)
-          console.warn('[REST] Leave missing identifiers:', { customerId, sessionId, tabId });
-          return reply.code(204).send();
+          // Session not found - set tombstone
+          const redis = presenceService.getRedisClient();
+          const tombstoneKey = `LEAVE_TOMBSTONE:presence:${customerId}:${sessionId}:${tabId}`;
+          await redis.set(tombstoneKey, Date.now().toString());
+          await redis.expire(tombstoneKey, 30);
+          return reply.code(200).send({ success: true });
         }
       } catch (error) {
         console.error('[REST] Leave error:', error);
@@ -162,13 +245,18 @@ export function setupRESTEndpoints(
         if (!customerId) {
           return reply.code(400).send({ error: 'customerId required' });
         }
+        if (!(await checkCustomer(request, reply, customerRegistry, customerId))) {
+          return; // Customer rejected, response already sent
+        }
         const count = await presenceService.getActiveCount(customerId);
         const ema = await emaService.getEMA(customerId);
+        const users = await presenceService.getUniqueUsers(customerId);
         return reply.code(200).send({
           timestamp: Date.now(),
           count,
           ema,
           customerId,
+          ...users,
         });
       } catch (error) {
         console.error('[REST] Metrics error:', error);
@@ -176,4 +264,111 @@ export function setupRESTEndpoints(
       }
     }
   );
+  /**
+   * GET /active-users/history?customerId=xxx&from=ms&to=ms&resolution=raw|minute|hour|day
+   * Historical count + EMA series (default: last hour, resolution picked from range)
+   */
+  fastify.get<{ Querystring: HistoryQuery }>(
+    '/active-users/history',
+    async (request: FastifyRequest<{ Querystring: HistoryQuery }>, reply: FastifyReply) => {
+      try {
+        // Rate limit check
+        if (!(await checkRateLimit(request, reply, rateLimiter))) {
+          return; // Rate limit exceeded, response already sent
+        }
+        if (!historyService) {
+          return reply.code(404).send({ error: 'History not enabled' });
+        }
+        const { customerId } = request.query;
+        if (!customerId) {
+          return reply.code(400).send({ error: 'customerId required' });
+        }
+        const to = request.query.to ? Number(request.query.to) : Date.now();
+        const from = request.query.from ? Number(request.query.from) : to - 60 * 60 * 1000;
+        if (!Number.isFinite(from) || !Number.isFinite(to) || from >= to) {
+          return reply.code(400).send({ error: 'from/to must be timestamps (ms) with from < to' });
+        }
+        const resolution = (request.query.resolution || HistoryService.defaultResolution(from, to)) as HistoryResolution;
+        if (!['raw', 'minute', 'hour', 'day'].includes(resolution)) {
+          return reply.code(400).send({ error: 'resolution must be one of raw, minute, hour, day' });
+        }
+        if (HistoryService.estimatePoints(from, to, resolution, emaService.getUpdateInterval()) > MAX_HISTORY_POINTS) {
+          return reply.code(400).send({
+            error: `Range too large for '${resolution}' resolution (max ${MAX_HISTORY_POINTS} points)`,
+          });
+        }
+        if (!(await checkCustomer(request, reply, customerRegistry, customerId))) {
+          return; // Customer rejected, response already sent
+        }
+        const points = await historyService.getHistory(customerId, from, to, resolution);
+        const response: HistoryResponse = { customerId, from, to, resolution, points };
+        return reply.code(200).send(response);
+      } catch (error) {
+        console.error('[REST] History error:', error);
+        return reply.code(500).send({ error: 'Internal server error' });
+      }
+    }
+  );
+  /**
+   * GET /active-users/pages?customerId=xxx&limit=10
+   * Live visitors per page (top N, most visited first)
+   */
+  fastify.get<{ Querystring: PagesQuery }>(
+    '/active-users/pages',
+    async (request: FastifyRequest<{ Querystring: PagesQuery }>, reply: FastifyReply) => {
+      try {
+        // Rate limit check
+        if (!(await checkRateLimit(request, reply, rateLimiter))) {
+          return; // Rate limit exceeded, response already sent
+        }
+        const { customerId } = request.query;
+        if (!customerId) {
+          return reply.code(400).send({ error: 'customerId required' });
+        }
+        const limit = request.query.limit ? Number(request.query.limit) : DEFAULT_PAGES_LIMIT;
+        if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGES_LIMIT) {
+          return reply.code(400).send({ error: `limit must be an integer between 1 and ${MAX_PAGES_LIMIT}` });
+        }
+        if (!(await checkCustomer(request, reply, customerRegistry, customerId))) {
+          return; // Customer rejected, response already sent
+        }
+        const { total, pages } = await presenceService.getTopPages(customerId, limit);
+        const response: PagesResponse = { customerId, timestamp: Date.now(), total, pages };
+        return reply.code(200).send(response);
+      } catch (error) {
+        console.error('[REST] Pages error:', error);
+        return reply.code(500).send({ error: 'Internal server error' });
+      }
+    }
+  );
+  /**
+   * GET /active-users/breakdown?customerId=xxx
+   * Live sessions per platform / browser / device / session_mode
+   */
+  fastify.get<{ Querystring: { customerId: string } }>(
+    '/active-users/breakdown',
+    async (request: FastifyRequest<{ Querystring: { customerId: string } }>, reply: FastifyReply) => {
+      try {
+        // Rate limit check
+        if (!(await checkRateLimit(request, reply, rateLimiter))) {
+          return; // Rate limit exceeded, response already sent
+        }
+        const { customerId } = request.query;
+        if (!customerId) {
+          return reply.code(400).send({ error: 'customerId required' });
+        }
+        if (!(await checkCustomer(request, reply, customerRegistry, customerId))) {
+          return; // Customer rejected, response already sent
+        }
+        // Breakdown first: it prunes expired sessions, so the count matches the counters
+        const breakdown = await presenceService.getBreakdown(customerId);
+        const count = await presenceService.getActiveCount(customerId);
+        const response: BreakdownResponse = { customerId, timestamp: Date.now(), count, breakdown };
+        return reply.code(200).send(response);
+      } catch (error) {
+        console.error('[REST] Breakdown error:', error);
+        return reply.code(500).send({ error: 'Internal server error' });
+      }
+    }
+  );
 }
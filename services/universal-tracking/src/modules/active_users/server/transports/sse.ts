@@ -0,0 +1,241 @@
+/**
+ * Server-Sent Events
+ * Live metrics stream for dashboards: GET /active-users/stream?customerId=xxx
+ *
+ * - Authenticated with the customer's API key (not the visitor SDK path):
+ *   `Authorization: Bearer <apiKey>`, or `?token=<streamToken>` for EventSource (cannot set
+ *   headers) - a short-lived token from POST /active-users/stream/token, never the API key
+ * - Events: `connected` (SSEEvent), `metrics:update` (MetricsUpdate, id = update timestamp)
+ * - Heartbeat comments keep proxies from closing idle connections
+ * - Last-Event-ID (header or `lastEventId` query) replays missed updates, or sends a
+ *   snapshot when the gap is older than the replay buffer
+ */
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import type { SSEEvent } from '@universal-tracking/types';
+import { BroadcastService } from '../services/broadcast.service.js';
+import { PresenceService } from '../services/presence.service.js';
+import { EMAService } from '../services/ema.service.js';
+import type { MetricsUpdate } from '../../types/Messages.js';
+import type { CustomerRegistry } from '../../../customers/index.js';
+import { StreamTokenService } from '../utils/stream-token.js';
+import { JwtError } from '../../../../core/security/jwt.js';
+
+export interface SSEOptions {
+  heartbeatInterval: number;    // ms
+  maxStreamsPerCustomer: number;
+}
+
+interface StreamQuery {
+  customerId?: string;
+  token?: string;
+  lastEventId?: string;
+}
+
+/**
+ * Format one SSE frame
+ */
+export function formatSSE(event: string, data: unknown, id?: string | number): string {
+  const idLine = id !== undefined ? `id: ${id}\n` : '';
+  return `${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+interface AuthFailure {
+  statusCode: number;
+  body: { error: string; message: string; code: string };
+}
+
+/**
+ * API key from the Authorization header (never from the URL)
+ */
+function getApiKey(request: FastifyRequest): string | undefined {
+  const header = request.headers.authorization;
+  if (header?.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length).trim();
+  }
+  return undefined;
+}
+
+/**
+ * Check that the Bearer API key belongs to the customer - null when it does
+ */
+async function checkApiKey(
+  customerRegistry: CustomerRegistry,
+  apiKey: string | undefined,
+  customerId: string
+): Promise<AuthFailure | null> {
+  if (!apiKey) {
+    return {
+      statusCode: 401,
+      body: { error: 'Unauthorized', message: 'API key required (Authorization: Bearer <key>)', code: 'API_KEY_REQUIRED' },
+    };
+  }
+  try {
+    const customer = await customerRegistry.findByApiKey(apiKey);
+    if (!customer || customer.id !== customerId) {
+      return {
+        statusCode: 403,
+        body: { error: 'Forbidden', message: 'API key is not valid for this customer', code: 'INVALID_API_KEY' },
+      };
+    }
+    return null;
+  } catch (error) {
+    console.error('[SSE] API key lookup failed:', error);
+    return {
+      statusCode: 503,
+      body: { error: 'Service Unavailable', message: 'Customer registry unavailable', code: 'REGISTRY_UNAVAILABLE' },
+    };
+  }
+}
+
+/**
+ * Check a stream token from the URL - null when it is valid for the customer
+ */
+function checkStreamToken(
+  streamTokens: StreamTokenService | null,
+  token: string,
+  customerId: string
+): AuthFailure | null {
+  if (!streamTokens) {
+    return {
+      statusCode: 401,
+      body: { error: 'Unauthorized', message: 'Stream tokens are disabled - use Authorization: Bearer <key>', code: 'API_KEY_REQUIRED' },
+    };
+  }
+  try {
+    if (streamTokens.verify(token).customerId === customerId) {
+      return null;
+    }
+  } catch (error) {
+    if (error instanceof JwtError && error.code === 'EXPIRED') {
+      return {
+        statusCode: 401,
+        body: { error: 'Unauthorized', message: 'Stream token expired (request a new one)', code: 'STREAM_TOKEN_EXPIRED' },
+      };
+    }
+  }
+  return {
+    statusCode: 401,
+    body: { error: 'Unauthorized', message: 'Invalid stream token', code: 'INVALID_STREAM_TOKEN' },
+  };
+}
+
+export function setupSSEEndpoint(
+  fastify: FastifyInstance,
+  broadcastService: BroadcastService,
+  presenceService: PresenceService,
+  emaService: EMAService,
+  customerRegistry: CustomerRegistry | null,
+  options: SSEOptions,
+  streamTokens: StreamTokenService | null = null
+): void {
+  const openStreams: Set<any> = new Set();
+  // Open streams would keep server.close() waiting - end them before shutdown
+  fastify.addHook('preClose', async () => {
+    openStreams.forEach((res) => res.end());
+    openStreams.clear();
+  });
+  /**
+   * POST /active-users/stream/token { customerId } - Authorization: Bearer <apiKey>
+   * Short-lived token for the EventSource URL
+   */
+  if (streamTokens) {
+    fastify.post<{ Body: { customerId?: string } }>('/active-users/stream/token', async (request, reply) => {
+      const customerId = request.body?.customerId;
+      if (!customerId || typeof customerId !== 'string') {
+        return reply.code(400).send({ error: 'customerId required' });
+      }
+      if (customerRegistry) {
+        const failure = await checkApiKey(customerRegistry, getApiKey(request), customerId);
+        if (failure) {
+          return reply.code(failure.statusCode).send(failure.body);
+        }
+      }
+      return reply.header('Cache-Control', 'no-store').send(streamTokens.issue(customerId));
+    });
+  }
+  /**
+   * GET /active-users/stream?customerId=xxx
+   */
+  fastify.get<{ Querystring: StreamQuery }>(
+    '/active-users/stream',
+    async (request: FastifyRequest<{ Querystring: StreamQuery }>, reply: FastifyReply) => {
+      const { customerId } = request.query;
+      if (!customerId) {
+        return reply.code(400).send({ error: 'customerId required' });
+      }
+      // Dashboard auth - API key (header) or stream token (URL) must belong to the requested customer
+      // No registry configured = every customerId is accepted
+      if (customerRegistry) {
+        const apiKey = getApiKey(request);
+        const failure = !apiKey && request.query.token
+          ? checkStreamToken(streamTokens, request.query.token, customerId)
+          : await checkApiKey(customerRegistry, apiKey, customerId);
+        if (failure) {
+          return reply.code(failure.statusCode).send(failure.body);
+        }
+      }
+      if (broadcastService.getListenerCount(customerId) >= options.maxStreamsPerCustomer) {
+        return reply.code(429).send({
+          error: 'Too Many Requests',
+          message: `Maximum ${options.maxStreamsPerCustomer} streams per customer`,
+        });
+      }
+
+      // Take over the raw response (keep headers set by hooks, e.g. CORS)
+      reply.hijack();
+      const res = reply.raw;
+      res.writeHead(200, {
+        ...(reply.getHeaders() as Record<string, string>),
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no', // nginx: do not buffer the stream
+      });
+      res.write(`retry: 5000\n\n`);
+      openStreams.add(res);
+
+      let lastSentId = 0;
+      const send = (update: MetricsUpdate) => {
+        // Replay and live updates can overlap - never send an id twice
+        if (update.timestamp <= lastSentId) return;
+        lastSentId = update.timestamp;
+        res.write(formatSSE('metrics:update', update, update.timestamp));
+      };
+      // Subscribe before reading the snapshot so no update is lost in between
+      const unsubscribe = broadcastService.addListener(customerId, send);
+      const heartbeat = setInterval(() => {
+        res.write(`: heartbeat ${Date.now()}\n\n`);
+      }, options.heartbeatInterval);
+      res.on('close', () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        openStreams.delete(res);
+        console.log(`[SSE] ⏹️ Stream closed for ${customerId}`);
+      });
+
+      const connected: SSEEvent = { type: 'connected', data: { customerId }, timestamp: Date.now() };
+      res.write(formatSSE('connected', connected));
+      console.log(`[SSE] 📡 Stream opened for ${customerId}`);
+
+      try {
+        const lastEventId = Number(request.headers['last-event-id'] ?? request.query.lastEventId);
+        if (Number.isFinite(lastEventId) && lastEventId > 0) {
+          const { updates, complete } = broadcastService.getMetricsSince(customerId, lastEventId);
+          if (complete && updates.length > 0) {
+            updates.forEach(send);
+            return;
+          }
+        }
+        // Fresh connection, nothing missed or resume gap → current snapshot
+        const count = await presenceService.getActiveCount(customerId);
+        const ema = await emaService.getEMA(customerId);
+        const users = await presenceService.getUniqueUsers(customerId);
+        send({ customerId, timestamp: Date.now(), count, ema, ...users });
+      } catch (error) {
+        console.error('[SSE] Snapshot error:', error);
+        const event: SSEEvent = { type: 'error', data: { message: 'Snapshot unavailable' }, timestamp: Date.now() };
+        res.write(formatSSE('error', event));
+      }
+    }
+  );
+}
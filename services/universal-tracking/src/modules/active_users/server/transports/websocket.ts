@@ -1,37 +1,100 @@
 /**
  * WebSocket Server
  * Handles WebSocket connections for real-time metrics
+ *
+ * Handshake (when session tokens are enabled):
+ * - The `auth` message (or the upgrade URL, `?token=`) must carry the session token
+ *   returned by POST /presence/join; it has to match the customerId + sessionId sent
+ * - The customer and the page origin are checked against the registry
+ * - Sessions that are not live yet are refused once the plan's max active users is reached
+ * - Sockets that don't authenticate within wsAuthTimeout are closed
+ *
+ * Protocol (types/Protocol.ts):
+ * - `auth` carries the client's protocol version + capabilities (missing = legacy v1)
+ * - Older than wsMinProtocolVersion → PROTOCOL_UNSUPPORTED error, close 4426
+ * - Otherwise the negotiated version/capabilities are echoed in `hello` (v2+) and decide
+ *   which optional payloads the client gets; v1 clients get the legacy message shapes
  */
 import type { WebSocketServer as WSServer } from 'ws';
 import { BroadcastService } from '../services/broadcast.service.js';
 import { PresenceService } from '../services/presence.service.js';
 import { getCurrentTimestamp } from '../utils/timestamp.js';
+import { SessionTokenService } from '../utils/session-token.js';
+import { negotiateProtocol, isProtocolRejection } from '../utils/protocol.js';
+import { checkActiveUsersLimit } from '../utils/plan-limits.js';
+import { parsePayload } from '../utils/validation.js';
+import { clientMessageSchema } from '@universal-tracking/schemas';
+import { JwtError } from '../../../../core/security/jwt.js';
+import { LEGACY_PROTOCOL_VERSION, MIN_PROTOCOL_VERSION, type NegotiatedProtocol } from '../../types/Protocol.js';
 import type { ClientMessage, ServerMessage } from '../../types/Messages.js';
+import type { CustomerRegistry } from '../../../customers/index.js';
 interface ClientInfo {
   customerId: string;
   sessionId?: string;
   tabId?: string;
   device?: string; // 🆕 mobile, tablet, desktop
   platform?: string; // 🆕 ios, android, windows, etc.
+  protocol: NegotiatedProtocol;
+}
+// Application close codes (4000-4999): the client may retry after re-joining
+export const WS_CLOSE_UNAUTHORIZED = 4401;
+export const WS_CLOSE_AUTH_TIMEOUT = 4408;
+// Client protocol too old - the SDK reloads itself instead of reconnecting
+export const WS_CLOSE_PROTOCOL_UNSUPPORTED = 4426;
+/**
+ * Token from the upgrade request URL (`/ws/active-users?token=...`)
+ */
+function getUpgradeToken(req: any): string | undefined {
+  if (typeof req?.url !== 'string') return undefined;
+  try {
+    return new URL(req.url, 'http://localhost').searchParams.get('token') ?? undefined;
+  } catch {
+    return undefined;
+  }
 }
 export class WebSocketServer {
   private wss: WSServer;
   private broadcast: BroadcastService;
   private presence: PresenceService;
+  private customerRegistry: CustomerRegistry | null;
+  private sessionTokens: SessionTokenService | null;
+  private authTimeout: number;
+  private minProtocolVersion: number;
   private clientCustomerMap: WeakMap<any, string> = new WeakMap();
   private clientInfoMap: WeakMap<any, ClientInfo> = new WeakMap(); // 🆕 Session tracking
   private activeCustomers: Map<string, Set<any>> = new Map(); // 🆕 Track active connections per customer
-  constructor(wss: WSServer, broadcastService: BroadcastService, presenceService: PresenceService) {
+  constructor(
+    wss: WSServer,
+    broadcastService: BroadcastService,
+    presenceService: PresenceService,
+    customerRegistry: CustomerRegistry | null = null,
+    sessionTokens: SessionTokenService | null = null,
+    authTimeout: number = 10000,
+    minProtocolVersion: number = MIN_PROTOCOL_VERSION
+  ) {
     this.wss = wss;
     this.broadcast = broadcastService;
     this.presence = presenceService;
+    this.customerRegistry = customerRegistry;
+    this.sessionTokens = sessionTokens;
+    this.authTimeout = authTimeout;
+    this.minProtocolVersion = minProtocolVersion;
     this.setupServer();
   }
   private setupServer(): void {
-    this.wss.on('connection', (ws: any) => {
+    this.wss.on('connection', (ws: any, req: any) => {
+      const origin: string | undefined = req?.headers?.origin;
+      const upgradeToken = getUpgradeToken(req);
       console.log('[WebSocket] 🔌 New connection established');
       let customerId: string | null = null;
       let missedPongCount = 0;
+      // Unauthenticated sockets don't get to hold a connection open
+      const authTimer = setTimeout(() => {
+        if (!customerId && ws.readyState === 1) {
+          console.warn(`[WebSocket] ⏱️ No auth within ${this.authTimeout}ms, closing`);
+          ws.close(WS_CLOSE_AUTH_TIMEOUT, 'AUTH_TIMEOUT');
+        }
+      }, this.authTimeout);
       // ✅ PHASE 1: Server-side ping mechanism (25s interval)
       const pingInterval = setInterval(() => {
         if (ws.readyState === 1) { // OPEN state
@@ -58,12 +121,73 @@ export class WebSocketServer {
       // Handle incoming messages
       ws.on('message', async (data: any) => {
         try {
-          const message: ClientMessage = JSON.parse(data.toString());
+          // Every frame is checked against the shared schema (size, JSON, shape)
+          const parsed = parsePayload(clientMessageSchema, data.toString(), 'message');
+          if (!parsed.success) {
+            console.warn(`[WebSocket] ⚠️ Rejected message from ${customerId || 'unauthorized'}: ${parsed.code}`);
+            const invalid: ServerMessage = { type: 'error', message: parsed.message, code: parsed.code };
+            ws.send(JSON.stringify(invalid));
+            return;
+          }
+          const message: ClientMessage = parsed.data;
           switch (message.type) {
             case 'auth':
+              if (customerId) {
+                return; // Already authenticated - a socket serves one session
+              }
+              // Protocol first: an outdated SDK can't satisfy the rest of the handshake anyway
+              const protocol = negotiateProtocol(message.version, message.capabilities, this.minProtocolVersion);
+              if (isProtocolRejection(protocol)) {
+                console.warn(`[WebSocket] ⛔ Auth rejected for ${message.customerId}: ${protocol.code} (v${message.version ?? LEGACY_PROTOCOL_VERSION})`);
+                const rejected: ServerMessage = {
+                  type: 'error',
+                  message: protocol.message,
+                  code: protocol.code,
+                  minVersion: protocol.minVersion,
+                  maxVersion: protocol.maxVersion,
+                };
+                ws.send(JSON.stringify(rejected));
+                ws.close(WS_CLOSE_PROTOCOL_UNSUPPORTED, protocol.code);
+                return;
+              }
+              // Session token must match the claimed customer + session
+              if (this.sessionTokens) {
+                const rejection = this.checkSessionToken(message.token ?? upgradeToken, message.customerId, message.sessionId);
+                if (rejection) {
+                  console.warn(`[WebSocket] ⛔ Auth rejected for ${message.customerId}: ${rejection.code}`);
+                  const rejected: ServerMessage = { type: 'error', message: rejection.message, code: rejection.code };
+                  ws.send(JSON.stringify(rejected));
+                  ws.close(WS_CLOSE_UNAUTHORIZED, rejection.code);
+                  return;
+                }
+              }
+              // Reject unknown/disabled customers and foreign origins before registering anything
+              if (this.customerRegistry) {
+                const access = await this.customerRegistry.authorize(message.customerId, origin);
+                if (!access.allowed) {
+                  console.warn(`[WebSocket] ⛔ Auth rejected for ${message.customerId}: ${access.code}`);
+                  const rejected: ServerMessage = {
+                    type: 'error',
+                    message: access.message,
+                    code: access.code,
+                  };
+                  ws.send(JSON.stringify(rejected));
+                  ws.close(1008, access.code); // 1008 = policy violation
+                  return;
+                }
+                const limit = await checkActiveUsersLimit(this.presence, access.customer, message.sessionId);
+                if (limit) {
+                  console.warn(`[WebSocket] ⛔ Auth rejected for ${message.customerId}: ${limit.code}`);
+                  const rejected: ServerMessage = { type: 'error', message: limit.message, code: limit.code };
+                  ws.send(JSON.stringify(rejected));
+                  ws.close(1008, limit.code);
+                  return;
+                }
+              }
               // Authenticate and register client
+              clearTimeout(authTimer);
               customerId = message.customerId;
-              console.log(`[WebSocket] 🔐 Auth received from ${message.sessionId?.substring(0, 8)} (customer: ${customerId})`);
+              console.log(`[WebSocket] 🔐 Auth received from ${message.sessionId?.substring(0, 8)} (customer: ${customerId}, protocol: v${protocol.version})`);
               this.clientCustomerMap.set(ws, customerId);
               // 🆕 CRITICAL: Get device/platform info from Redis
               // This is needed for platform-aware disconnect handling
@@ -75,6 +199,7 @@ export class WebSocketServer {
                 tabId: message.tabId,
                 device: presenceData?.device || 'unknown', // mobile, tablet, desktop
                 platform: presenceData?.platform || 'unknown', // ios, android, windows, etc.
+                protocol,
               };
               this.clientInfoMap.set(ws, clientInfo);
               // 🆕 CRITICAL: Cancel any pending disconnect timer for this session
@@ -85,12 +210,16 @@ export class WebSocketServer {
                 this.activeCustomers.set(customerId, new Set());
               }
               this.activeCustomers.get(customerId)!.add(ws);
-              this.broadcast.registerClient(customerId, ws);
-              // Send hello
+              this.broadcast.registerClient(customerId, ws, protocol.capabilities);
+              // Send hello (v1 clients get the legacy shape)
               const hello: ServerMessage = {
                 type: 'hello',
                 timestamp: Date.now(),
                 sessionId: message.sessionId,
+                ...(protocol.version > LEGACY_PROTOCOL_VERSION && {
+                  version: protocol.version,
+                  capabilities: protocol.capabilities,
+                }),
               };
               ws.send(JSON.stringify(hello));
               break;
@@ -103,14 +232,21 @@ export class WebSocketServer {
               ws.send(JSON.stringify(pong));
               break;
             case 'ttl_refresh':
-              // ✅ Handle TTL refresh with session_mode
-              if (customerId) {
+              // ✅ Handle TTL refresh with session_mode (only for the authenticated session)
+              const info = this.clientInfoMap.get(ws);
+              if (customerId && message.customerId === customerId && message.sessionId === info?.sessionId) {
                 console.log(`[WebSocket] 🔄 TTL refresh from ${message.sessionId?.substring(0, 8)} (mode: ${message.session_mode})`);
                 await this.presence.refreshTTL(
                   message.customerId,
                   message.sessionId,
                   message.tabId,
-                  message.session_mode
+                  message.session_mode,
+                  info.protocol.capabilities.includes('page_presence')
+                    ? { path: message.page_path, title: message.page_title }
+                    : undefined,
+                  info.protocol.capabilities.includes('user_identity')
+                    ? { id: message.userId, traits: message.userTraits }
+                    : undefined
                 );
               }
               break;
@@ -119,7 +255,7 @@ export class WebSocketServer {
           console.error('[WebSocket] Message handling error:', error);
           const errorMessage: ServerMessage = {
             type: 'error',
-            message: 'Invalid message format',
+            message: 'Message handling failed',
           };
           ws.send(JSON.stringify(errorMessage));
         }
@@ -127,6 +263,7 @@ export class WebSocketServer {
       // Handle disconnection
       ws.on('close', () => {
         // ✅ PHASE 1: Clean up intervals
+        clearTimeout(authTimer);
         clearInterval(pingInterval);
         clearInterval(pongCheckInterval);
         if (customerId) {
@@ -154,6 +291,31 @@ export class WebSocketServer {
       });
     });
   }
+  /**
+   * Validate a session token against the claimed customer + session
+   * Returns the rejection (code + message) or null when the token is valid
+   */
+  private checkSessionToken(
+    token: string | undefined,
+    customerId: string,
+    sessionId: string
+  ): { code: string; message: string } | null {
+    if (!token) {
+      return { code: 'TOKEN_REQUIRED', message: 'Session token required (join first)' };
+    }
+    try {
+      const claims = this.sessionTokens!.verify(token);
+      if (claims.customerId !== customerId || claims.sessionId !== sessionId) {
+        return { code: 'TOKEN_MISMATCH', message: 'Session token does not match this session' };
+      }
+      return null;
+    } catch (error) {
+      if (error instanceof JwtError && error.code === 'EXPIRED') {
+        return { code: 'TOKEN_EXPIRED', message: 'Session token expired (join again)' };
+      }
+      return { code: 'INVALID_TOKEN', message: 'Invalid session token' };
+    }
+  }
   /**
    * Get server instance
    */
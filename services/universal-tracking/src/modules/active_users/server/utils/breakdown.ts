@@ -0,0 +1,59 @@
+/**
+ * Breakdown Utils
+ * Maps presence data to breakdown counter tags (`dimension:value`) and back
+ *
+ * Tags are stored per session so a counter can be decremented exactly once
+ * (leave, stale cleanup or TTL expiry), whatever the session looks like by then.
+ */
+import type { BreakdownDimension, PresenceBreakdown, PresenceData } from '../../types/ActiveUser.js';
+
+export const BREAKDOWN_DIMENSIONS: BreakdownDimension[] = ['platform', 'browser', 'device', 'session_mode'];
+export const BREAKDOWN_TAG_SEPARATOR = '|';
+const MAX_VALUE_LENGTH = 32;
+
+/**
+ * Client-reported values are bounded (charset + length) so one visitor cannot blow up the counters
+ */
+function normalizeValue(value: unknown): string {
+  if (typeof value !== 'string') return 'unknown';
+  const clean = value.trim().toLowerCase().replace(/[^a-z0-9_.-]/g, '_').substring(0, MAX_VALUE_LENGTH);
+  return clean || 'unknown';
+}
+
+/**
+ * Counter tags for one session, e.g. ['platform:desktop', 'browser:chrome', ...]
+ */
+export function getBreakdownTags(presence: PresenceData): string[] {
+  const tags = BREAKDOWN_DIMENSIONS.map((dimension) => {
+    const value = dimension === 'session_mode' ? presence.session_mode || 'active' : presence[dimension];
+    return `${dimension}:${normalizeValue(value)}`;
+  });
+  if (presence.desktop_mode) {
+    tags.push('desktop_mode:1');
+  }
+  return tags;
+}
+
+export function emptyBreakdown(): PresenceBreakdown {
+  return { platform: {}, browser: {}, device: {}, session_mode: {}, desktop_mode: 0 };
+}
+
+/**
+ * Counter hash (tag → count) → PresenceBreakdown
+ */
+export function parseBreakdown(counters: Record<string, string>): PresenceBreakdown {
+  const breakdown = emptyBreakdown();
+  for (const [tag, raw] of Object.entries(counters)) {
+    const count = Number(raw);
+    if (!Number.isFinite(count) || count <= 0) continue;
+    const separator = tag.indexOf(':');
+    const dimension = tag.substring(0, separator);
+    const value = tag.substring(separator + 1);
+    if (dimension === 'desktop_mode') {
+      breakdown.desktop_mode += count;
+    } else if ((BREAKDOWN_DIMENSIONS as string[]).includes(dimension)) {
+      breakdown[dimension as BreakdownDimension][value] = count;
+    }
+  }
+  return breakdown;
+}
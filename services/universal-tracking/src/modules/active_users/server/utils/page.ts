@@ -0,0 +1,30 @@
+/**
+ * Page Utils
+ * Normalizes page info sent by the SDK before it is stored in presence
+ */
+export const MAX_PAGE_PATH_LENGTH = 512;
+export const MAX_PAGE_TITLE_LENGTH = 200;
+
+/**
+ * Path only - query string and hash are dropped (may carry tokens/PII and split page counts)
+ * Returns undefined for missing or invalid input
+ */
+export function sanitizePagePath(path: unknown): string | undefined {
+  if (typeof path !== 'string') return undefined;
+  let clean = path.trim().split(/[?#]/)[0] ?? '';
+  if (!clean) return undefined;
+  if (!clean.startsWith('/')) {
+    clean = `/${clean}`;
+  }
+  // Collapse trailing slash so '/pricing' and '/pricing/' are one page
+  if (clean.length > 1 && clean.endsWith('/')) {
+    clean = clean.replace(/\/+$/, '') || '/';
+  }
+  return clean.substring(0, MAX_PAGE_PATH_LENGTH);
+}
+
+export function sanitizePageTitle(title: unknown): string | undefined {
+  if (typeof title !== 'string') return undefined;
+  const clean = title.replace(/\s+/g, ' ').trim();
+  return clean ? clean.substring(0, MAX_PAGE_TITLE_LENGTH) : undefined;
+}
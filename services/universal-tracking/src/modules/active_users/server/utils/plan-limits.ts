@@ -0,0 +1,38 @@
+/**
+ * Plan Limits
+ * Live session cap from the customer's plan (customers.max_active_users)
+ *
+ * Sessions that are already live always pass, so a full site keeps its current
+ * visitors (re-joins, WebSocket reconnects) and only new sessions are turned away.
+ * The count is read before the session is stored: concurrent joins may overshoot
+ * the cap by a few sessions.
+ */
+import type { PresenceService } from '../services/presence.service.js';
+import type { Customer } from '../../../customers/index.js';
+export interface PlanLimitRejection {
+  code: 'ACTIVE_USERS_LIMIT';
+  message: string;
+}
+/**
+ * null = session may be live; rejection = the plan's live session cap is reached
+ */
+export async function checkActiveUsersLimit(
+  presence: Pick<PresenceService, 'getPresence' | 'getActiveCount'>,
+  customer: Customer,
+  sessionId: string
+): Promise<PlanLimitRejection | null> {
+  const max = customer.limits.maxActiveUsers;
+  if (max === null) {
+    return null;
+  }
+  if (await presence.getPresence(customer.id, sessionId)) {
+    return null; // Already counted
+  }
+  if ((await presence.getActiveCount(customer.id)) < max) {
+    return null;
+  }
+  return {
+    code: 'ACTIVE_USERS_LIMIT',
+    message: `Active users limit of the plan reached (${max})`,
+  };
+}
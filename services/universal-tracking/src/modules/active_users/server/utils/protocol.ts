@@ -0,0 +1,49 @@
+/**
+ * Protocol Negotiation
+ * Picks the protocol a WebSocket client is served with (see types/Protocol.ts)
+ */
+import {
+  LEGACY_PROTOCOL_VERSION,
+  PROTOCOL_CAPABILITIES,
+  PROTOCOL_VERSION,
+  type NegotiatedProtocol,
+  type ProtocolCapability,
+} from '../../types/Protocol.js';
+export interface ProtocolRejection {
+  code: 'PROTOCOL_UNSUPPORTED';
+  message: string;
+  minVersion: number;
+  maxVersion: number;
+}
+/**
+ * Negotiate version + capabilities for a client
+ * - Older than minVersion → rejection (the SDK reloads itself)
+ * - Newer than the server → served at the server version (rolling deploys)
+ * - Capabilities = intersection; unknown names are dropped
+ */
+export function negotiateProtocol(
+  clientVersion: unknown,
+  clientCapabilities: unknown,
+  minVersion: number
+): NegotiatedProtocol | ProtocolRejection {
+  const requested =
+    typeof clientVersion === 'number' && Number.isInteger(clientVersion) && clientVersion > 0
+      ? clientVersion
+      : LEGACY_PROTOCOL_VERSION;
+  if (requested < minVersion) {
+    return {
+      code: 'PROTOCOL_UNSUPPORTED',
+      message: `Protocol v${requested} is no longer supported (v${minVersion}-v${PROTOCOL_VERSION})`,
+      minVersion,
+      maxVersion: PROTOCOL_VERSION,
+    };
+  }
+  const announced = Array.isArray(clientCapabilities) ? clientCapabilities : [];
+  return {
+    version: Math.min(requested, PROTOCOL_VERSION),
+    capabilities: PROTOCOL_CAPABILITIES.filter((capability: ProtocolCapability) => announced.includes(capability)),
+  };
+}
+export function isProtocolRejection(result: NegotiatedProtocol | ProtocolRejection): result is ProtocolRejection {
+  return 'code' in result;
+}
@@ -2,16 +2,35 @@
  * Rate Limiter
  * Protects server from excessive requests and DDoS attacks
  */
-interface RateLimitConfig {
+import { metrics } from '../../../../core/observability/metrics.js';
+export interface RateLimitConfig {
   windowMs: number;        // Zaman penceresi (ms)
   maxRequests: number;     // Maksimum istek sayısı
   keyGenerator?: (req: any) => string; // Key oluşturucu
+  // Key bazlı limit (ör. müşterinin planı) - null → maxRequests
+  maxRequestsFor?: (req: any) => number | null | Promise<number | null>;
+  keyPrefix?: string;      // Redis key prefix (tier adı) - sadece RedisRateLimiter
 }
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetTime: number;
+}
+/**
+ * Ortak limiter arayüzü (in-memory veya Redis)
+ */
+export interface Limiter {
+  check(request: any): Promise<RateLimitResult>;
+  reset(key: string): void | Promise<void>;
+  destroy(): void;
+}
+export type RateLimitBackend = 'memory' | 'redis';
 interface RateLimitEntry {
   count: number;
   resetTime: number;
 }
-export class RateLimiter {
+export class RateLimiter implements Limiter {
   private config: RateLimitConfig;
   private store: Map<string, RateLimitEntry> = new Map();
   private cleanupInterval: NodeJS.Timeout | null = null;
@@ -20,6 +39,7 @@ export class RateLimiter {
       windowMs: config.windowMs || 60000, // Default: 1 dakika
       maxRequests: config.maxRequests || 100,
       keyGenerator: config.keyGenerator || ((req) => req.ip),
+      ...(config.maxRequestsFor && { maxRequestsFor: config.maxRequestsFor }),
     };
     // Otomatik cleanup (her 5 dakikada bir)
     this.startCleanup();
@@ -27,13 +47,9 @@ export class RateLimiter {
   /**
    * İstek limit kontrolü
    */
-  async check(request: any): Promise<{
-    allowed: boolean;
-    limit: number;
-    remaining: number;
-    resetTime: number;
-  }> {
+  async check(request: any): Promise<RateLimitResult> {
     const key = this.config.keyGenerator!(request);
+    const maxRequests = await resolveMaxRequests(this.config, request);
     const now = Date.now();
     // Mevcut entry'yi al veya yeni oluştur
     let entry = this.store.get(key);
@@ -48,11 +64,11 @@ export class RateLimiter {
     // İstek sayısını artır
     entry.count++;
     // Limit kontrolü
-    const allowed = entry.count <= this.config.maxRequests;
-    const remaining = Math.max(0, this.config.maxRequests - entry.count);
+    const allowed = entry.count <= maxRequests;
+    const remaining = Math.max(0, maxRequests - entry.count);
     return {
       allowed,
-      limit: this.config.maxRequests,
+      limit: maxRequests,
       remaining,
       resetTime: entry.resetTime,
     };
@@ -110,17 +126,52 @@ export class RateLimiter {
     };
   }
 }
+/**
+ * İstek için geçerli limit (maxRequestsFor yoksa / null dönerse / hata verirse maxRequests)
+ */
+async function resolveMaxRequests(config: RateLimitConfig, request: any): Promise<number> {
+  if (!config.maxRequestsFor) {
+    return config.maxRequests;
+  }
+  try {
+    const limit = await config.maxRequestsFor(request);
+    return limit !== null && limit > 0 ? limit : config.maxRequests;
+  } catch (error) {
+    console.error('[RateLimit] Per-key limit lookup failed, using default:', error);
+    return config.maxRequests;
+  }
+}
 /**
  * Multi-tier Rate Limiter
  * Farklı seviyeler için farklı limitler
+ * backend: 'memory' (process-local) veya 'redis' (tüm replikalar ortak sayaç)
  */
 export class MultiTierRateLimiter {
-  private limiters: Map<string, RateLimiter> = new Map();
+  private limiters: Map<string, Limiter> = new Map();
+  private backend: RateLimitBackend;
+  private redis: any;
+  constructor(options: { backend?: RateLimitBackend; redis?: any } = {}) {
+    this.backend = options.backend ?? 'memory';
+    this.redis = options.redis ?? null;
+    if (this.backend === 'redis' && !this.redis) {
+      throw new Error('Redis rate limit backend requires a Redis client');
+    }
+  }
   /**
-   * Limiter ekle
+   * Limiter ekle (backend'e göre in-memory veya Redis)
    */
   addLimiter(name: string, config: RateLimitConfig): void {
-    this.limiters.set(name, new RateLimiter(config));
+    const limiter = this.backend === 'redis'
+      ? new RedisRateLimiter(this.redis, { keyPrefix: name, ...config })
+      : new RateLimiter(config);
+    this.use(name, limiter);
+  }
+  /**
+   * Hazır bir limiter ekle (özel implementasyonlar için)
+   */
+  use(name: string, limiter: Limiter): void {
+    this.limiters.get(name)?.destroy();
+    this.limiters.set(name, limiter);
   }
   /**
    * Tüm limitleri kontrol et
@@ -128,13 +179,14 @@ export class MultiTierRateLimiter {
   async checkAll(request: any): Promise<{
     allowed: boolean;
     blockedBy?: string;
-    limits: Record<string, any>;
+    limits: Record<string, RateLimitResult>;
   }> {
-    const limits: Record<string, any> = {};
+    const limits: Record<string, RateLimitResult> = {};
     for (const [name, limiter] of this.limiters.entries()) {
       const result = await limiter.check(request);
       limits[name] = result;
       if (!result.allowed) {
+        metrics.rateLimitRejections.inc({ tier: name });
         return {
           allowed: false,
           blockedBy: name,
@@ -150,9 +202,15 @@ export class MultiTierRateLimiter {
   /**
    * Belirli bir limiter'ı al
    */
-  getLimiter(name: string): RateLimiter | undefined {
+  getLimiter(name: string): Limiter | undefined {
     return this.limiters.get(name);
   }
+  /**
+   * Aktif backend
+   */
+  getBackend(): RateLimitBackend {
+    return this.backend;
+  }
   /**
    * Tüm limiter'ları temizle
    */
@@ -163,67 +221,131 @@ export class MultiTierRateLimiter {
     this.limiters.clear();
   }
 }
+/**
+ * Rate limit header'larını yaz
+ * RateLimit-* (IETF draft, Reset = saniye) + eski X-RateLimit-* (Reset = ISO tarih)
+ * scope: limiti belirleyen tier (ip / customer)
+ */
+export function setRateLimitHeaders(reply: any, result: RateLimitResult, scope: string): void {
+  const resetSeconds = Math.max(0, Math.ceil((result.resetTime - Date.now()) / 1000));
+  reply.header('RateLimit-Limit', result.limit.toString());
+  reply.header('RateLimit-Remaining', result.remaining.toString());
+  reply.header('RateLimit-Reset', resetSeconds.toString());
+  reply.header('X-RateLimit-Limit', result.limit.toString());
+  reply.header('X-RateLimit-Remaining', result.remaining.toString());
+  reply.header('X-RateLimit-Reset', new Date(result.resetTime).toISOString());
+  reply.header('X-RateLimit-Scope', scope);
+  if (!result.allowed) {
+    reply.header('Retry-After', Math.max(1, resetSeconds).toString());
+  }
+}
+/**
+ * En kısıtlayıcı tier (en az kalan hak) - başarılı isteklerde header'lar bunu gösterir
+ */
+export function mostRestrictiveTier(limits: Record<string, RateLimitResult>): string | undefined {
+  let selected: string | undefined;
+  for (const [name, result] of Object.entries(limits)) {
+    if (!selected || result.remaining < limits[selected]!.remaining) {
+      selected = name;
+    }
+  }
+  return selected;
+}
 /**
  * Fastify için rate limit middleware
  */
-export function createRateLimitMiddleware(limiter: RateLimiter) {
+export function createRateLimitMiddleware(limiter: Limiter, scope: string = 'default') {
   return async (request: any, reply: any) => {
     const result = await limiter.check(request);
     // Rate limit headers ekle
-    reply.header('X-RateLimit-Limit', result.limit.toString());
-    reply.header('X-RateLimit-Remaining', result.remaining.toString());
-    reply.header('X-RateLimit-Reset', new Date(result.resetTime).toISOString());
+    setRateLimitHeaders(reply, result, scope);
     if (!result.allowed) {
-      const retryAfter = Math.ceil((result.resetTime - Date.now()) / 1000);
-      reply.header('Retry-After', retryAfter.toString());
+      metrics.rateLimitRejections.inc({ tier: scope });
+      const retryAfter = Math.max(1, Math.ceil((result.resetTime - Date.now()) / 1000));
       return reply.code(429).send({
         error: 'Too Many Requests',
         message: `Rate limit exceeded. Try again in ${retryAfter} seconds.`,
         limit: result.limit,
         resetTime: result.resetTime,
+        retryAfter,
+        blockedBy: scope,
       });
     }
   };
 }
+// Sliding window log - KEYS: window zset | ARGV: windowMs, maxRequests, member suffix
+// Zaman Redis sunucusundan alınır (TIME) → replikalar arası saat farkı önemsiz
+const SLIDING_WINDOW_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local window = tonumber(ARGV[1])
+local max = tonumber(ARGV[2])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count < max then
+  redis.call('ZADD', KEYS[1], now, now .. '-' .. ARGV[3])
+  count = count + 1
+  allowed = 1
+end
+redis.call('PEXPIRE', KEYS[1], window)
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+local reset = now + window
+if oldest[2] then
+  reset = tonumber(oldest[2]) + window
+end
+return { allowed, count, reset }
+`;
 /**
  * Redis tabanlı Rate Limiter (distributed systems için)
+ * Atomik sliding window (tek Lua script) - sayaçlar tüm replikalarda ortak
+ * Redis erişilemezse fail-open: istek geçer, hata loglanır
  */
-export class RedisRateLimiter {
+export class RedisRateLimiter implements Limiter {
   private redis: any;
   private config: RateLimitConfig;
   constructor(redisClient: any, config: RateLimitConfig) {
     this.redis = redisClient;
-    this.config = config;
+    this.config = {
+      ...config,
+      keyGenerator: config.keyGenerator || ((req) => req.ip),
+    };
   }
-  async check(request: any): Promise<{
-    allowed: boolean;
-    limit: number;
-    remaining: number;
-    resetTime: number;
-  }> {
-    const key = `ratelimit:${this.config.keyGenerator!(request)}`;
-    const now = Date.now();
-    const windowMs = this.config.windowMs;
-    const maxRequests = this.config.maxRequests;
-    // Redis'te sayacı artır
-    const count = await this.redis.incr(key);
-    // İlk istek ise TTL set et
-    if (count === 1) {
-      await this.redis.pexpire(key, windowMs);
+  async check(request: any): Promise<RateLimitResult> {
+    const key = this.getKey(this.config.keyGenerator!(request));
+    const maxRequests = await resolveMaxRequests(this.config, request);
+    try {
+      const [allowed, count, resetTime] = await this.redis.eval(SLIDING_WINDOW_SCRIPT, {
+        keys: [key],
+        arguments: [
+          this.config.windowMs.toString(),
+          maxRequests.toString(),
+          Math.random().toString(36).slice(2, 10),
+        ],
+      });
+      return {
+        allowed: Number(allowed) === 1,
+        limit: maxRequests,
+        remaining: Math.max(0, maxRequests - Number(count)),
+        resetTime: Number(resetTime),
+      };
+    } catch (error) {
+      console.error(`[RateLimit] Redis check failed for ${key}, allowing request:`, error);
+      return {
+        allowed: true,
+        limit: maxRequests,
+        remaining: maxRequests,
+        resetTime: Date.now() + this.config.windowMs,
+      };
     }
-    // TTL al
-    const ttl = await this.redis.pttl(key);
-    const resetTime = now + ttl;
-    const allowed = count <= maxRequests;
-    const remaining = Math.max(0, maxRequests - count);
-    return {
-      allowed,
-      limit: maxRequests,
-      remaining,
-      resetTime,
-    };
   }
   async reset(key: string): Promise<void> {
-    await this.redis.del(`ratelimit:${key}`);
+    await this.redis.del(this.getKey(key));
+  }
+  destroy(): void {
+    // Redis client paylaşımlı - kapatma sahibinin işi
+  }
+  private getKey(key: string): string {
+    return this.config.keyPrefix ? `ratelimit:${this.config.keyPrefix}:${key}` : `ratelimit:${key}`;
   }
 }
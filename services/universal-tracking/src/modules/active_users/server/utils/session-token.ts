@@ -0,0 +1,43 @@
+/**
+ * Session Tokens
+ * Short-lived JWTs issued by POST /presence/join, required by the WebSocket `auth` step
+ *
+ * A token binds one sessionId to one customerId, so a socket can only register (and
+ * refresh) the session that actually joined through the customer/origin checks.
+ */
+import { JwtError, signJwt, verifyJwt } from '../../../../core/security/jwt.js';
+
+const AUDIENCE = 'active-users-ws';
+
+export interface SessionTokenClaims {
+  customerId: string;
+  sessionId: string;
+  expiresAt: number; // ms
+}
+
+export class SessionTokenService {
+  private secret: string;
+  private ttlSeconds: number;
+
+  constructor(secret: string, ttlSeconds: number = 900) {
+    this.secret = secret;
+    this.ttlSeconds = ttlSeconds;
+  }
+
+  issue(customerId: string, sessionId: string): { token: string; expiresAt: number } {
+    const now = Date.now();
+    const token = signJwt({ sub: sessionId, cid: customerId, aud: AUDIENCE }, this.secret, this.ttlSeconds, now);
+    return { token, expiresAt: (Math.floor(now / 1000) + this.ttlSeconds) * 1000 };
+  }
+
+  /**
+   * Throws JwtError (MALFORMED / BAD_SIGNATURE / EXPIRED / WRONG_AUDIENCE)
+   */
+  verify(token: string): SessionTokenClaims {
+    const claims = verifyJwt(token, this.secret, AUDIENCE);
+    if (typeof claims.sub !== 'string' || typeof claims.cid !== 'string') {
+      throw new JwtError('MALFORMED', 'Token is missing session claims');
+    }
+    return { customerId: claims.cid, sessionId: claims.sub, expiresAt: (claims.exp ?? 0) * 1000 };
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Stream Tokens
+ * Short-lived JWTs for the SSE dashboard stream, issued by POST /active-users/stream/token
+ *
+ * EventSource cannot send headers, so the stream URL carries a token - this one instead
+ * of the long-lived API key, which would otherwise end up in access/proxy logs and
+ * browser history. A token is scoped to one customer's stream and nothing else.
+ */
+import { JwtError, signJwt, verifyJwt } from '../../../../core/security/jwt.js';
+
+const AUDIENCE = 'active-users-sse';
+
+export interface StreamTokenClaims {
+  customerId: string;
+  expiresAt: number; // ms
+}
+
+export class StreamTokenService {
+  private secret: string;
+  private ttlSeconds: number;
+
+  constructor(secret: string, ttlSeconds: number = 300) {
+    this.secret = secret;
+    this.ttlSeconds = ttlSeconds;
+  }
+
+  issue(customerId: string): { token: string; expiresAt: number } {
+    const now = Date.now();
+    const token = signJwt({ sub: customerId, aud: AUDIENCE }, this.secret, this.ttlSeconds, now);
+    return { token, expiresAt: (Math.floor(now / 1000) + this.ttlSeconds) * 1000 };
+  }
+
+  /**
+   * Throws JwtError (MALFORMED / BAD_SIGNATURE / EXPIRED / WRONG_AUDIENCE)
+   */
+  verify(token: string): StreamTokenClaims {
+    const claims = verifyJwt(token, this.secret, AUDIENCE);
+    if (typeof claims.sub !== 'string') {
+      throw new JwtError('MALFORMED', 'Token is missing the customer claim');
+    }
+    return { customerId: claims.sub, expiresAt: (claims.exp ?? 0) * 1000 };
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Presence Payload Validation
+ * Runs the shared schemas (packages/schemas) at the REST and WebSocket boundaries
+ */
+import type { ZodIssue, ZodType, ZodTypeDef } from 'zod';
+import type { FastifyError, FastifyReply, FastifyRequest } from 'fastify';
+import { PRESENCE_LIMITS } from '@universal-tracking/schemas';
+export type PayloadErrorCode = 'INVALID_JSON' | 'INVALID_PAYLOAD' | 'PAYLOAD_TOO_LARGE';
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; code: PayloadErrorCode; message: string; details: string[] };
+/**
+ * Validate an already parsed body
+ */
+export function validatePayload<T>(
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  input: unknown,
+  label: string
+): ValidationResult<T> {
+  const result = schema.safeParse(input);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    code: 'INVALID_PAYLOAD',
+    message: `Invalid ${label}`,
+    details: result.error.issues.map(formatIssue),
+  };
+}
+/**
+ * Parse + validate a raw text frame (WebSocket message, text/plain beacon)
+ */
+export function parsePayload<T>(
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  raw: string,
+  label: string
+): ValidationResult<T> {
+  if (Buffer.byteLength(raw) > PRESENCE_LIMITS.maxBodyBytes) {
+    return {
+      success: false,
+      code: 'PAYLOAD_TOO_LARGE',
+      message: `${label} exceeds ${PRESENCE_LIMITS.maxBodyBytes} bytes`,
+      details: [],
+    };
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { success: false, code: 'INVALID_JSON', message: `${label} is not valid JSON`, details: [] };
+  }
+  return validatePayload(schema, parsed, label);
+}
+/**
+ * Send a validation failure (400 / 413) in the API error shape
+ */
+export function sendValidationError(
+  reply: FastifyReply,
+  result: Extract<ValidationResult<unknown>, { success: false }>
+): FastifyReply {
+  const statusCode = result.code === 'PAYLOAD_TOO_LARGE' ? 413 : 400;
+  return reply.code(statusCode).send({
+    error: statusCode === 413 ? 'Payload Too Large' : 'Bad Request',
+    message: result.message,
+    code: result.code,
+    ...(result.details.length > 0 && { details: result.details }),
+  });
+}
+/**
+ * Route error handler for presence endpoints
+ * Body limit / JSON parse failures happen before the handler - answer them with the same codes
+ */
+export function presenceErrorHandler(error: FastifyError, _request: FastifyRequest, reply: FastifyReply): void {
+  if (error.code === 'FST_ERR_CTP_BODY_TOO_LARGE') {
+    sendValidationError(reply, {
+      success: false,
+      code: 'PAYLOAD_TOO_LARGE',
+      message: `Body exceeds ${PRESENCE_LIMITS.maxBodyBytes} bytes`,
+      details: [],
+    });
+    return;
+  }
+  if (error instanceof SyntaxError || error.code === 'FST_ERR_CTP_INVALID_JSON_BODY' || error.code === 'FST_ERR_CTP_EMPTY_JSON_BODY') {
+    sendValidationError(reply, { success: false, code: 'INVALID_JSON', message: 'Body is not valid JSON', details: [] });
+    return;
+  }
+  reply.send(error);
+}
+function formatIssue(issue: ZodIssue): string {
+  const path = issue.path.length > 0 ? issue.path.join('.') : '(root)';
+  return `${path}: ${issue.message}`;
+}
@@ -1,6 +1,7 @@
 /**
  * Active User Type Definitions
  */
+import type { UserTraits } from '@universal-tracking/schemas';
 export interface ActiveUser {
   customerId: string;
   sessionId: string;
@@ -27,6 +28,12 @@ export interface PresenceData {
   total_backgroundTab_quantity?: number | undefined;
   // Session Mode
   session_mode?: 'active' | 'passive_active' | undefined;
+  // Current page (updated on SPA route changes)
+  page_path?: string | undefined;
+  page_title?: string | undefined;
+  // Identified user (identify() in the SDK) - kept until another user is identified
+  userId?: string | undefined;
+  userTraits?: UserTraits | undefined;
   // Timestamps (Hybrid Format - Human Readable)
   createdAt: string;
   updatedAt: string;
@@ -38,4 +45,41 @@ export interface ActiveUserMetrics {
   count: number;
   ema: number;
   raw?: number;
+  uniqueUsers?: number;
+  identifiedUsers?: number;
+}
+// Historical time series (one point per EMA tick)
+export interface ActiveUserHistoryPoint {
+  timestamp: number;
+  count: number;
+  ema: number;
+}
+export type HistoryResolution = 'raw' | 'minute' | 'hour' | 'day';
+export interface ActiveUserHistoryBucket {
+  timestamp: number; // Bucket start (ms)
+  count: number;     // Average raw count in bucket
+  minCount: number;
+  maxCount: number;
+  ema: number;       // Average EMA in bucket
+  samples: number;   // Ticks in bucket
+}
+// Live visitors per page (GET /active-users/pages)
+export interface PagePresence {
+  path: string;
+  title?: string | undefined;
+  visitors: number;
+}
+// Live sessions per device dimension (GET /active-users/breakdown, metrics:update.breakdown)
+export type BreakdownDimension = 'platform' | 'browser' | 'device' | 'session_mode';
+export interface PresenceBreakdown {
+  platform: Record<string, number>;
+  browser: Record<string, number>;
+  device: Record<string, number>;
+  session_mode: Record<string, number>;
+  desktop_mode: number; // Sessions with desktop mode (UA spoofing) detected
+}
+// Live people: all sessions of one identified user count once (phone + laptop = 1)
+export interface UniqueUsers {
+  uniqueUsers: number;     // Identified users + anonymous sessions
+  identifiedUsers: number; // Distinct identified users
 }
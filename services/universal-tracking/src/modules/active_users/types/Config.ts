@@ -5,6 +5,8 @@ export interface ClientConfig {
   customerId: string;
   apiUrl: string;
   debug?: boolean;
+  // ✅ HMAC request signing (per-site key injected by /active-users-sdk.js)
+  signingKey?: string;
   // ✅ TTL Refresh settings
   ttlRefreshInterval?: number; // default: 120000ms (2 minutes) - Active mode WebSocket
   ttlRefreshIntervalPassive?: number; // default: 5400000ms (90 minutes) - Passive_Active mode Polling
@@ -17,6 +19,8 @@ export interface ClientConfig {
   pollingIntervalPassive?: number; // default: 5400000ms (90 minutes) - Passive_Active mode
   enableWebSocket?: boolean; // default: true
   enablePolling?: boolean; // default: true
+  // Offline queue (join/leave retried after network failures)
+  offlineQueueTTL?: number; // default: 600000ms - matches the server presence TTL, older entries are dropped
 }
 export interface ServerConfig {
   redis: {
@@ -30,11 +34,28 @@ export interface ServerConfig {
   // EMA settings
   emaAlpha?: number; // default: 0.2
   emaUpdateInterval?: number; // default: 30000ms (30 seconds)
+  emaAutoSchedule?: boolean; // default: true - discover customers and run EMA automatically
+  emaDiscoveryInterval?: number; // default: 30000ms - customer discovery + lock renewal
+  emaIdleTimeout?: number; // default: 300000ms (5 minutes) - stop EMA after no sessions
+  // History (per-tick count + EMA time series)
+  historyRetentionDays?: number; // default: 7
   // ✅ PHASE 3: WebSocket settings (ping/pong configuration)
   websocketPort?: number;
   enableWebSocket?: boolean;
   wsPingInterval?: number; // default: 25000ms (25 seconds)
   wsPongTimeout?: number; // default: 2 (missed pongs before disconnect)
+  wsAuthTimeout?: number; // default: 10000ms - unauthenticated sockets are closed after this
+  wsMinProtocolVersion?: number; // default: 1 - older SDKs are rejected with PROTOCOL_UNSUPPORTED
+  // Session tokens (issued by join, required by WebSocket auth) - unset = tokens disabled
+  sessionTokenSecret?: string;
+  sessionTokenTTL?: number; // default: 900s (15 minutes)
+  // SSE dashboard stream (GET /active-users/stream)
+  sseHeartbeatInterval?: number; // default: 15000ms
+  sseMaxStreamsPerCustomer?: number; // default: 20
+  sseTokenTTL?: number; // default: 300s - stream tokens (`?token=`), signed with sessionTokenSecret
+  // Include the platform/browser/device breakdown in metrics:update (WebSocket + SSE)
+  metricsBreakdown?: boolean; // default: false - WebSocket clients are visitors
   // Rate limiting
   maxRequestsPerMinute?: number;
+  rateLimitBackend?: 'memory' | 'redis'; // default: 'redis' - shared counters across replicas
 }
@@ -0,0 +1,22 @@
+/**
+ * Client Event Types
+ * Lifecycle events of ActiveUsersClient, subscribed with `client.on(event, handler)`
+ */
+import type { ActiveUserMetrics } from './ActiveUser.js';
+export type ClientConnectionMode = 'websocket' | 'polling' | 'disconnected';
+// removed = passive session dropped from Redis (desktop, long inactivity)
+export type ClientSessionMode = 'active' | 'passive_active' | 'removed';
+export interface RateLimitEvent {
+  endpoint: 'join' | 'leave' | 'metrics';
+  retryAfterMs: number;    // Delay the SDK waits before calling again (Retry-After + jitter)
+  scope: string | null;    // X-RateLimit-Scope (ip / customer / session) when the server sends it
+}
+export interface ActiveUsersEventMap {
+  'metrics:update': ActiveUserMetrics;
+  'leader:change': { isLeader: boolean };
+  'session_mode:change': { mode: ClientSessionMode; previous: ClientSessionMode };
+  'connection:change': { mode: ClientConnectionMode; previous: ClientConnectionMode };
+  'rate_limit': RateLimitEvent;
+}
+export type ActiveUsersEvent = keyof ActiveUsersEventMap;
+export type ActiveUsersEventHandler<E extends ActiveUsersEvent> = (payload: ActiveUsersEventMap[E]) => void;
@@ -1,16 +1,28 @@
 /**
  * WebSocket and API Message Types
  */
-// WebSocket messages from client to server
-export type ClientMessage = 
-  | { type: 'auth'; customerId: string; sessionId: string; tabId: string }
-  | { type: 'ping'; timestamp: number }
-  | { type: 'ttl_refresh'; customerId: string; sessionId: string; tabId: string; timestamp: number; session_mode?: 'active' | 'passive_active' };
+import type { ActiveUserHistoryBucket, HistoryResolution, PagePresence, PresenceBreakdown } from './ActiveUser.js';
+import type { ProtocolCapability } from './Protocol.js';
+// Client → server messages and REST payloads are inferred from the shared schemas
+// (packages/schemas) that the server validates against
+export type { ClientMessage, JoinPayload, BeatPayload, LeavePayload, UserTraits } from '@universal-tracking/schemas';
 // WebSocket messages from server to client
 export type ServerMessage =
-  | { type: 'hello'; timestamp: number; sessionId: string }
+  | {
+      type: 'hello';
+      timestamp: number;
+      sessionId: string;
+      version?: number;                      // Negotiated protocol (v2+ clients only)
+      capabilities?: ProtocolCapability[];
+    }
   | { type: 'metrics:update'; data: MetricsUpdate }
-  | { type: 'error'; message: string; code?: string }
+  | {
+      type: 'error';
+      message: string;
+      code?: string;
+      minVersion?: number;                   // PROTOCOL_UNSUPPORTED: versions the server accepts
+      maxVersion?: number;
+    }
   | { type: 'pong'; timestamp: number };
 export interface MetricsUpdate {
   customerId: string;
@@ -18,41 +30,40 @@ export interface MetricsUpdate {
   count: number;
   ema: number;
   change?: number;
+  breakdown?: PresenceBreakdown; // Only when the server enables metricsBreakdown
+  uniqueUsers?: number;          // Sessions of one identified user count once
+  identifiedUsers?: number;
 }
-// REST API payloads
-export interface JoinPayload {
-  customerId: string;
-  sessionId: string;
-  tabId: string;
+// REST API responses
+export interface JoinResponse {
+  success: true;
+  wsToken?: string;          // Session token for the WebSocket `auth` message
+  wsTokenExpiresAt?: number; // ms
+}
+export interface MetricsResponse {
   timestamp: number;
-  platform?: string | undefined;
-  browser?: string | undefined;
-  device?: string | undefined;
-  userAgent?: string | undefined;
-  desktop_mode?: boolean | undefined;
-  total_tab_quantity?: number | undefined;
-  total_backgroundTab_quantity?: number | undefined;
-  session_mode?: 'active' | 'passive_active' | undefined;
+  count: number;
+  ema: number;
+  customerId: string;
+  uniqueUsers?: number;
+  identifiedUsers?: number;
 }
-export interface BeatPayload {
+export interface HistoryResponse {
   customerId: string;
-  sessionId: string;
-  tabId: string;
-  timestamp: number;
-  userAgent?: string;
+  from: number;
+  to: number;
+  resolution: HistoryResolution;
+  points: ActiveUserHistoryBucket[];
 }
-export interface LeavePayload {
+export interface PagesResponse {
   customerId: string;
-  sessionId: string;
-  tabId: string;
   timestamp: number;
-  userAgent?: string;
-  mode?: 'final' | 'pending';
-  reason?: 'external' | 'tabclose' | 'unknown';
+  total: number; // Live sessions (including ones without a page)
+  pages: PagePresence[];
 }
-export interface MetricsResponse {
-  timestamp: number;
-  count: number;
-  ema: number;
+export interface BreakdownResponse {
   customerId: string;
+  timestamp: number;
+  count: number; // Live sessions
+  breakdown: PresenceBreakdown;
 }
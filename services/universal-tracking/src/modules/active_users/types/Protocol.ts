@@ -0,0 +1,24 @@
+/**
+ * WebSocket Protocol Version
+ * Shared by the server and the SDK bundle - bump PROTOCOL_VERSION on breaking message changes
+ *
+ * - v1: legacy SDKs (auth without `version`) - no negotiation, no optional payloads
+ * - v2: `version` + `capabilities` in auth / hello
+ */
+export const PROTOCOL_VERSION = 2;
+// Oldest client protocol the server still serves (downgraded to its capabilities)
+export const MIN_PROTOCOL_VERSION = 1;
+// Version assumed when the auth message carries none
+export const LEGACY_PROTOCOL_VERSION = 1;
+/**
+ * Optional protocol features, enabled only when both sides announce them
+ * - metrics_breakdown: metrics:update may carry `breakdown`
+ * - page_presence: ttl_refresh page_path / page_title are applied
+ * - user_identity: ttl_refresh userId / userTraits are applied
+ */
+export type ProtocolCapability = 'metrics_breakdown' | 'page_presence' | 'user_identity';
+export const PROTOCOL_CAPABILITIES: readonly ProtocolCapability[] = ['metrics_breakdown', 'page_presence', 'user_identity'];
+export interface NegotiatedProtocol {
+  version: number;
+  capabilities: ProtocolCapability[];
+}
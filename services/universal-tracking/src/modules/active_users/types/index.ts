@@ -2,16 +2,43 @@
  * Active Users Module - Type Definitions
  */
 // Active User types
-export type { ActiveUser, ActiveUserMetrics, PresenceData } from './ActiveUser';
+export type {
+  ActiveUser,
+  ActiveUserMetrics,
+  PresenceData,
+  ActiveUserHistoryPoint,
+  ActiveUserHistoryBucket,
+  HistoryResolution,
+  PagePresence,
+  BreakdownDimension,
+  PresenceBreakdown,
+  UniqueUsers,
+} from './ActiveUser';
 // Config types
 export type { ClientConfig, ServerConfig } from './Config';
+// Client event types
+export type {
+  ActiveUsersEvent,
+  ActiveUsersEventMap,
+  ActiveUsersEventHandler,
+  ClientConnectionMode,
+  ClientSessionMode,
+  RateLimitEvent,
+} from './Events';
+// Protocol types
+export type { ProtocolCapability, NegotiatedProtocol } from './Protocol';
 // Message types
 export type {
   ClientMessage,
   ServerMessage,
   MetricsUpdate,
   JoinPayload,
+  JoinResponse,
   BeatPayload,
   LeavePayload,
+  UserTraits,
   MetricsResponse,
+  HistoryResponse,
+  PagesResponse,
+  BreakdownResponse,
 } from './Messages';
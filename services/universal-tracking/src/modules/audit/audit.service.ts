@@ -0,0 +1,31 @@
+/**
+ * Audit Log
+ * Records every admin mutation to the structured logger and the audit store
+ *
+ * The logger line is written first, so an entry is never lost silently: when the
+ * store is unreachable the failure is logged next to it and the caller carries on
+ * (the mutation already happened - failing the request would hide that).
+ */
+import { logger } from '../../core/observability/logger.js';
+import type { AuditEntry, AuditStore } from './store.js';
+
+export class AuditLog {
+  private store: AuditStore | null;
+
+  constructor(store: AuditStore | null = null) {
+    this.store = store;
+  }
+
+  async record(entry: Omit<AuditEntry, 'timestamp'>): Promise<AuditEntry> {
+    const full: AuditEntry = { ...entry, timestamp: Date.now() };
+    logger.info({ audit: full }, `[Audit] ${full.action} ${full.customerId}${full.target ? `/${full.target}` : ''} by ${full.actor} → ${full.outcome}`);
+    if (this.store) {
+      try {
+        await this.store.append(full);
+      } catch (error) {
+        logger.error({ err: error, audit: full }, `[Audit] Failed to persist entry to ${this.store.name}`);
+      }
+    }
+    return full;
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * Audit Module
+ * Audit trail for operator actions (admin API)
+ */
+export { AuditLog } from './audit.service.js';
+export { PostgresAuditStore, MemoryAuditStore } from './store.js';
+export type { AuditEntry, AuditOutcome, AuditStore } from './store.js';
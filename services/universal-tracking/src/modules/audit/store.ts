@@ -0,0 +1,78 @@
+/**
+ * Audit Stores
+ * Durable destinations for admin audit entries
+ */
+import type pg from 'pg';
+
+export type AuditOutcome = 'success' | 'not_found' | 'error';
+
+export interface AuditEntry {
+  action: string;               // e.g. 'presence.session.remove'
+  actor: string;                // Operator (X-Admin-Actor header) or 'admin'
+  ip: string;
+  customerId: string;
+  target: string | null;        // Affected session id (null = whole customer)
+  outcome: AuditOutcome;
+  details: Record<string, unknown>;
+  timestamp: number;            // ms
+}
+
+export interface AuditStore {
+  readonly name: string;
+  append(entry: AuditEntry): Promise<void>;
+}
+
+/**
+ * PostgreSQL Store
+ * Appends to the `admin_audit_log` table (see core/database/migrations.ts)
+ */
+export class PostgresAuditStore implements AuditStore {
+  readonly name = 'postgres';
+  private pool: pg.Pool;
+
+  constructor(pool: pg.Pool) {
+    this.pool = pool;
+  }
+
+  async append(entry: AuditEntry): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO admin_audit_log (action, actor, ip, customer_id, target, outcome, details, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, to_timestamp($8 / 1000.0))`,
+      [
+        entry.action,
+        entry.actor,
+        entry.ip,
+        entry.customerId,
+        entry.target,
+        entry.outcome,
+        JSON.stringify(entry.details),
+        entry.timestamp,
+      ]
+    );
+  }
+}
+
+/**
+ * Memory Store
+ * Keeps entries in memory (tests and local debugging)
+ */
+export class MemoryAuditStore implements AuditStore {
+  readonly name = 'memory';
+  private entries: AuditEntry[] = [];
+  private maxEntries: number;
+
+  constructor(maxEntries: number = 1000) {
+    this.maxEntries = maxEntries;
+  }
+
+  async append(entry: AuditEntry): Promise<void> {
+    this.entries.push(entry);
+    if (this.entries.length > this.maxEntries) {
+      this.entries.shift();
+    }
+  }
+
+  getEntries(): AuditEntry[] {
+    return [...this.entries];
+  }
+}
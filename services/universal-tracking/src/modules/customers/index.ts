@@ -0,0 +1,8 @@
+/**
+ * Customers Module
+ * Customer/site registry (allowed origins, API keys, plan limits)
+ */
+export { CustomerRegistry, hashApiKey, isOriginAllowed } from './registry.service.js';
+export type { CustomerAccessCode, CustomerAccessResult } from './registry.service.js';
+export { PostgresCustomerStore, MemoryCustomerStore } from './store.js';
+export type { Customer, CustomerStatus, CustomerStore, PlanLimits } from './store.js';
@@ -0,0 +1,183 @@
+/**
+ * Customer Registry
+ * Resolves customer ids sent by clients against the store, with a short-lived cache
+ *
+ * Every presence call goes through here, so lookups are cached (misses too, for a
+ * shorter time). When the store is unreachable, an expired cache entry is reused
+ * instead of failing the request.
+ *
+ * Both caches are bounded LRUs: ids come from clients, so random `customer_id`s
+ * must not grow memory. Misses have their own, smaller cache and can never push
+ * real customers out.
+ */
+import { createHash } from 'crypto';
+import type { Customer, CustomerStore } from './store.js';
+
+export type CustomerAccessCode =
+  | 'MISSING_CUSTOMER_ID'
+  | 'UNKNOWN_CUSTOMER'
+  | 'CUSTOMER_DISABLED'
+  | 'ORIGIN_NOT_ALLOWED'
+  | 'REGISTRY_UNAVAILABLE';
+
+export type CustomerAccessResult =
+  | { allowed: true; customer: Customer }
+  | { allowed: false; code: CustomerAccessCode; message: string; statusCode: number };
+
+interface CacheEntry {
+  customer: Customer | null;
+  expiresAt: number;
+}
+
+/**
+ * Hash an API key for storage / lookup (sha256 hex)
+ */
+export function hashApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex');
+}
+
+export class CustomerRegistry {
+  private store: CustomerStore;
+  private cacheTtlMs: number;
+  private negativeCacheTtlMs: number;
+  private maxEntries: number;
+  private maxNegativeEntries: number;
+  // Map iteration order = LRU order (oldest first)
+  private cache: Map<string, CacheEntry> = new Map();
+  private negativeCache: Map<string, CacheEntry> = new Map();
+
+  constructor(
+    store: CustomerStore,
+    cacheTtlMs: number = 60000,
+    negativeCacheTtlMs: number = 10000,
+    maxEntries: number = 10000,
+    maxNegativeEntries: number = 1000
+  ) {
+    this.store = store;
+    this.cacheTtlMs = cacheTtlMs;
+    this.negativeCacheTtlMs = negativeCacheTtlMs;
+    this.maxEntries = Math.max(1, maxEntries);
+    this.maxNegativeEntries = Math.max(0, maxNegativeEntries);
+  }
+
+  /**
+   * Look up a customer (cached)
+   * Throws only when the store fails and nothing is cached
+   */
+  async get(customerId: string): Promise<Customer | null> {
+    const now = Date.now();
+    const cached = this.cache.get(customerId) ?? this.negativeCache.get(customerId);
+    if (cached && cached.expiresAt > now) {
+      // Hit → most recently used
+      const cache = cached.customer ? this.cache : this.negativeCache;
+      cache.delete(customerId);
+      cache.set(customerId, cached);
+      return cached.customer;
+    }
+
+    try {
+      const customer = await this.store.findById(customerId);
+      if (customer) {
+        this.negativeCache.delete(customerId);
+        this.remember(this.cache, customerId, { customer, expiresAt: now + this.cacheTtlMs }, this.maxEntries);
+      } else {
+        this.cache.delete(customerId);
+        this.remember(this.negativeCache, customerId, { customer: null, expiresAt: now + this.negativeCacheTtlMs }, this.maxNegativeEntries);
+      }
+      return customer;
+    } catch (error) {
+      if (cached) {
+        console.warn(`[Customers] Store '${this.store.name}' lookup failed, using stale entry for ${customerId}`);
+        return cached.customer;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Check that a customer exists, is active and accepts the request origin
+   * Requests without an Origin header (server-side, some beacons) skip the origin check
+   */
+  async authorize(customerId: string | undefined, origin?: string): Promise<CustomerAccessResult> {
+    if (!customerId) {
+      return deny('MISSING_CUSTOMER_ID', 'customerId required', 400);
+    }
+
+    let customer: Customer | null;
+    try {
+      customer = await this.get(customerId);
+    } catch (error) {
+      console.error(`[Customers] Lookup failed for ${customerId}:`, error);
+      return deny('REGISTRY_UNAVAILABLE', 'Customer registry temporarily unavailable', 503);
+    }
+
+    if (!customer) {
+      return deny('UNKNOWN_CUSTOMER', `Unknown customer '${customerId}'`, 403);
+    }
+    if (customer.status !== 'active') {
+      return deny('CUSTOMER_DISABLED', `Customer '${customerId}' is disabled`, 403);
+    }
+    if (origin && !isOriginAllowed(customer.allowedOrigins, origin)) {
+      return deny('ORIGIN_NOT_ALLOWED', `Origin '${origin}' is not allowed for this customer`, 403);
+    }
+    return { allowed: true, customer };
+  }
+
+  /**
+   * Resolve the customer owning an API key (server-to-server calls)
+   */
+  async findByApiKey(apiKey: string): Promise<Customer | null> {
+    const customer = await this.store.findByApiKeyHash(hashApiKey(apiKey));
+    return customer && customer.status === 'active' ? customer : null;
+  }
+
+  /**
+   * Drop a cached entry (after the customer record changed)
+   */
+  invalidate(customerId?: string): void {
+    if (customerId) {
+      this.cache.delete(customerId);
+      this.negativeCache.delete(customerId);
+    } else {
+      this.cache.clear();
+      this.negativeCache.clear();
+    }
+  }
+
+  getCacheSize(): { customers: number; misses: number } {
+    return { customers: this.cache.size, misses: this.negativeCache.size };
+  }
+
+  /**
+   * Insert as most recently used, evicting the oldest entries above `limit`
+   */
+  private remember(cache: Map<string, CacheEntry>, customerId: string, entry: CacheEntry, limit: number): void {
+    cache.delete(customerId);
+    cache.set(customerId, entry);
+    while (cache.size > limit) {
+      const oldest = cache.keys().next().value;
+      if (oldest === undefined) break;
+      cache.delete(oldest);
+    }
+  }
+}
+
+/**
+ * Origin match - exact origin or wildcard subdomain ('https://*.example.com')
+ */
+export function isOriginAllowed(allowedOrigins: string[], origin: string): boolean {
+  if (allowedOrigins.length === 0) {
+    return true;
+  }
+  return allowedOrigins.some((allowed) => {
+    if (allowed === '*' || allowed === origin) return true;
+    const wildcard = allowed.match(/^(https?:\/\/)\*\.(.+)$/);
+    if (!wildcard) return false;
+    const [, scheme, domain] = wildcard;
+    return origin.startsWith(scheme!) && origin.slice(scheme!.length).endsWith(`.${domain}`);
+  });
+}
+
+function deny(code: CustomerAccessCode, message: string, statusCode: number): CustomerAccessResult {
+  return { allowed: false, code, message, statusCode };
+}
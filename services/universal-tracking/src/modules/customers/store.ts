@@ -0,0 +1,120 @@
+/**
+ * Customer Stores
+ * Lookup backends for the customer/site registry
+ */
+import type pg from 'pg';
+
+export type CustomerStatus = 'active' | 'disabled';
+
+export interface PlanLimits {
+  maxActiveUsers: number | null;       // null = unlimited
+  maxRequestsPerMinute: number | null; // null = server default
+}
+
+export interface Customer {
+  id: string;                // Public customer/site id (SDK customer_id, presence keys)
+  name: string;
+  status: CustomerStatus;
+  allowedOrigins: string[];  // Empty = any origin
+  apiKeyHash: string | null; // sha256(apiKey) hex - raw keys are never stored
+  plan: string;
+  limits: PlanLimits;
+}
+
+export interface CustomerStore {
+  readonly name: string;
+  findById(id: string): Promise<Customer | null>;
+  findByApiKeyHash(apiKeyHash: string): Promise<Customer | null>;
+}
+
+interface CustomerRow {
+  id: string;
+  name: string;
+  status: CustomerStatus;
+  allowed_origins: string[] | null;
+  api_key_hash: string | null;
+  plan: string;
+  max_active_users: number | null;
+  max_requests_per_minute: number | null;
+}
+
+const CUSTOMER_COLUMNS = `
+  id, name, status, allowed_origins, api_key_hash, plan,
+  max_active_users, max_requests_per_minute
+`;
+
+/**
+ * PostgreSQL Store
+ * Reads the `customers` table (see core/database/migrations.ts)
+ */
+export class PostgresCustomerStore implements CustomerStore {
+  readonly name = 'postgres';
+  private pool: pg.Pool;
+
+  constructor(pool: pg.Pool) {
+    this.pool = pool;
+  }
+
+  async findById(id: string): Promise<Customer | null> {
+    const { rows } = await this.pool.query<CustomerRow>(
+      `SELECT ${CUSTOMER_COLUMNS} FROM customers WHERE id = $1`,
+      [id]
+    );
+    return rows[0] ? toCustomer(rows[0]) : null;
+  }
+
+  async findByApiKeyHash(apiKeyHash: string): Promise<Customer | null> {
+    const { rows } = await this.pool.query<CustomerRow>(
+      `SELECT ${CUSTOMER_COLUMNS} FROM customers WHERE api_key_hash = $1`,
+      [apiKeyHash]
+    );
+    return rows[0] ? toCustomer(rows[0]) : null;
+  }
+}
+
+/**
+ * Memory Store
+ * Static customer list (tests and local debugging)
+ */
+export class MemoryCustomerStore implements CustomerStore {
+  readonly name = 'memory';
+  private customers: Map<string, Customer> = new Map();
+
+  constructor(customers: Customer[] = []) {
+    customers.forEach((customer) => this.upsert(customer));
+  }
+
+  async findById(id: string): Promise<Customer | null> {
+    return this.customers.get(id) ?? null;
+  }
+
+  async findByApiKeyHash(apiKeyHash: string): Promise<Customer | null> {
+    for (const customer of this.customers.values()) {
+      if (customer.apiKeyHash === apiKeyHash) return customer;
+    }
+    return null;
+  }
+
+  upsert(customer: Customer): void {
+    this.customers.set(customer.id, customer);
+  }
+
+  remove(id: string): void {
+    this.customers.delete(id);
+  }
+}
+
+function toCustomer(row: CustomerRow): Customer {
+  return {
+    id: row.id,
+    name: row.name,
+    status: row.status,
+    allowedOrigins: row.allowed_origins ?? [],
+    apiKeyHash: row.api_key_hash,
+    plan: row.plan,
+    limits: {
+      maxActiveUsers: row.max_active_users,
+      maxRequestsPerMinute: row.max_requests_per_minute,
+    },
+  };
+}
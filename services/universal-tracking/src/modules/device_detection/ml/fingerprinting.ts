@@ -23,6 +23,9 @@ const fingerprintDatabase = new Map<string, HistoricalPattern>();
 const deviceHistory = new Map<string, DeviceFingerprint[]>();
 // Fingerprint generation
 let fingerprintCounter = 0;
+// Hourly cleanup - started with the first stored fingerprint, never on import
+// (the npm SDK and tests import this module; an import-time timer kept Node alive)
+let cleanupTimer: ReturnType<typeof setInterval> | null = null;
 /**
  * Generate a unique device fingerprint
  */
@@ -73,6 +76,7 @@ export function storeFingerprint(
   if (accuracy !== undefined) {
     fingerprintData.accuracy = accuracy;
   }
+  scheduleCleanup();
   // Store in device history
   if (!deviceHistory.has(fingerprint)) {
     deviceHistory.set(fingerprint, []);
@@ -274,9 +278,16 @@ export function exportFingerprintData(): {
 export function importFingerprintData(data: {
   patterns: HistoricalPattern[];
 }): void {
+  scheduleCleanup();
   data.patterns.forEach(pattern => {
     fingerprintDatabase.set(pattern.fingerprint, pattern);
   });
 }
-// Auto-cleanup every hour
-setInterval(cleanupOldFingerprints, 60 * 60 * 1000);
+/**
+ * Start the hourly cleanup once (unref'd in Node - it must not keep the process alive)
+ */
+function scheduleCleanup(): void {
+  if (cleanupTimer !== null) return;
+  cleanupTimer = setInterval(cleanupOldFingerprints, 60 * 60 * 1000);
+  (cleanupTimer as { unref?: () => void }).unref?.();
+}
@@ -0,0 +1,175 @@
+/**
+ * ClickHouse Event Sink
+ * Buffers validated events in memory and writes them to the `events` table in batches
+ *
+ * - Flush on size (maxBatchSize rows) or on interval (flushIntervalMs)
+ * - Only one insert in flight; failed rows are put back at the head of the buffer
+ * - Backpressure: when the buffer is full, write() waits for the running flush and
+ *   throws SinkBackpressureError if there is still no room (collect returns 503)
+ */
+import type { ClickHouseClient } from '@clickhouse/client';
+import type { TrackingEvent } from '@universal-tracking/types';
+import type { EventBatch, EventSink } from './sink.js';
+import { logger } from '../../core/observability/logger.js';
+
+export interface ClickHouseSinkOptions {
+  table: string;
+  maxBatchSize: number;    // Rows per INSERT
+  flushIntervalMs: number; // Max time a row waits in the buffer
+  maxBufferSize: number;   // Hard cap on buffered rows
+}
+
+export interface ClickHouseEventRow {
+  site_id: string;
+  event_type: string;
+  event_time: string;  // DateTime64(3) - 'YYYY-MM-DD HH:MM:SS.mmm' (UTC)
+  received_at: string;
+  user_id: string;
+  session_id: string;
+  data: string;        // event.data as JSON ('{}' when absent)
+}
+
+export interface ClickHouseSinkStats {
+  buffered: number;
+  inserted: number;
+  failedFlushes: number;
+  rejected: number;    // Rows refused because of backpressure
+}
+
+const DEFAULT_OPTIONS: ClickHouseSinkOptions = {
+  table: 'events',
+  maxBatchSize: 1000,
+  flushIntervalMs: 5000,
+  maxBufferSize: 50000,
+};
+
+export class SinkBackpressureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SinkBackpressureError';
+  }
+}
+
+export class ClickHouseEventSink implements EventSink {
+  readonly name = 'clickhouse';
+  private client: ClickHouseClient;
+  private options: ClickHouseSinkOptions;
+  private buffer: ClickHouseEventRow[] = [];
+  private flushing: Promise<void> | null = null;
+  private flushTimer: NodeJS.Timeout | null = null;
+  private closed = false;
+  private stats = { inserted: 0, failedFlushes: 0, rejected: 0 };
+
+  constructor(client: ClickHouseClient, options: Partial<ClickHouseSinkOptions> = {}) {
+    this.client = client;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.flushTimer = setInterval(() => {
+      this.flush().catch(() => {
+        // Already logged in runFlush - rows stay buffered for the next tick
+      });
+    }, this.options.flushIntervalMs);
+    this.flushTimer.unref?.();
+  }
+
+  async write(batch: EventBatch): Promise<void> {
+    if (this.closed) {
+      throw new Error('ClickHouse sink is closed');
+    }
+
+    const rows = batch.events.map((event) => toRow(batch.siteId, batch.receivedAt, event));
+
+    if (this.buffer.length + rows.length > this.options.maxBufferSize) {
+      // ClickHouse is slow - give the running flush a chance to drain the buffer
+      await this.flush().catch(() => {});
+      if (this.buffer.length + rows.length > this.options.maxBufferSize) {
+        this.stats.rejected += rows.length;
+        throw new SinkBackpressureError(
+          `ClickHouse buffer full (${this.buffer.length}/${this.options.maxBufferSize} rows)`
+        );
+      }
+    }
+
+    this.buffer.push(...rows);
+
+    if (this.buffer.length >= this.options.maxBatchSize && !this.flushing) {
+      // Size-triggered flush runs in the background - the request does not wait for ClickHouse
+      this.flush().catch(() => {});
+    }
+  }
+
+  /**
+   * Flush the whole buffer (waits for an in-flight flush first)
+   */
+  async flush(): Promise<void> {
+    while (this.buffer.length > 0) {
+      if (this.flushing) {
+        await this.flushing;
+        continue;
+      }
+      this.flushing = this.runFlush();
+      try {
+        await this.flushing;
+      } finally {
+        this.flushing = null;
+      }
+    }
+  }
+
+  /**
+   * Stop the timer and flush remaining rows (graceful shutdown)
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    await this.flush();
+  }
+
+  getStats(): ClickHouseSinkStats {
+    return { buffered: this.buffer.length, ...this.stats };
+  }
+
+  private async runFlush(): Promise<void> {
+    const rows = this.buffer.splice(0, this.options.maxBatchSize);
+    try {
+      await this.client.insert({
+        table: this.options.table,
+        values: rows,
+        format: 'JSONEachRow',
+        clickhouse_settings: {
+          async_insert: 1,
+          wait_for_async_insert: 1,
+        },
+      });
+      this.stats.inserted += rows.length;
+    } catch (error) {
+      // Put rows back in order - they are retried on the next flush
+      this.buffer.unshift(...rows);
+      this.stats.failedFlushes++;
+      logger.error({ err: error, rows: rows.length }, '[ClickHouse] Event insert failed');
+      throw error;
+    }
+  }
+}
+
+function toRow(siteId: string, receivedAt: number, event: TrackingEvent): ClickHouseEventRow {
+  return {
+    site_id: siteId,
+    event_type: event.event_type,
+    event_time: toDateTime64(event.timestamp),
+    received_at: toDateTime64(receivedAt),
+    user_id: event.user_id ?? '',
+    session_id: event.session_id ?? '',
+    // Payload only - the envelope fields already have their own columns
+    data: JSON.stringify(event.data ?? {}),
+  };
+}
+
+/**
+ * ClickHouse DateTime64(3) literal in UTC ('2024-01-01 12:00:00.000')
+ */
+function toDateTime64(ms: number): string {
+  return new Date(ms).toISOString().replace('T', ' ').replace('Z', '');
+}
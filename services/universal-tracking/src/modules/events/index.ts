@@ -0,0 +1,12 @@
+/**
+ * Events Module
+ * Ingestion path for POST /api/events (CollectRequest → EventSink)
+ */
+export { EventIngestService } from './ingest.service.js';
+export type { IngestResult } from './ingest.service.js';
+export { LoggerEventSink, MemoryEventSink } from './sink.js';
+export type { EventSink, EventBatch } from './sink.js';
+export { validateCollectRequest, MAX_EVENTS_PER_REQUEST } from './validation.js';
+export type { CollectValidationResult } from './validation.js';
+export { ClickHouseEventSink, SinkBackpressureError } from './clickhouse.sink.js';
+export type { ClickHouseSinkOptions, ClickHouseSinkStats, ClickHouseEventRow } from './clickhouse.sink.js';
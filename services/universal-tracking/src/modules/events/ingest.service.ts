@@ -0,0 +1,92 @@
+/**
+ * Event Ingest Service
+ * Validates collect requests and forwards accepted events to the sink in batches
+ */
+import type { CollectRequest, CollectResponse } from '@universal-tracking/types';
+import type { EventSink } from './sink.js';
+import { validateCollectRequest, MAX_EVENTS_PER_REQUEST } from './validation.js';
+import { logger } from '../../core/observability/logger.js';
+
+export interface IngestResult {
+  statusCode: number;
+  response: CollectResponse;
+}
+
+export class EventIngestService {
+  private sink: EventSink;
+  private batchSize: number;
+
+  constructor(sink: EventSink, batchSize: number = MAX_EVENTS_PER_REQUEST) {
+    this.sink = sink;
+    this.batchSize = Math.max(1, Math.min(batchSize, MAX_EVENTS_PER_REQUEST));
+  }
+
+  /**
+   * Validate and ingest a collect request
+   * - 400: envelope invalid or no event passed validation
+   * - 200: at least one event accepted (invalid ones listed in errors)
+   * - 503: sink rejected the write
+   */
+  async ingest(body: unknown): Promise<IngestResult> {
+    const validation = validateCollectRequest(body);
+
+    if (validation.requestErrors.length > 0) {
+      return {
+        statusCode: 400,
+        response: { success: false, processed: 0, errors: validation.requestErrors },
+      };
+    }
+
+    if (validation.validEvents.length === 0) {
+      return {
+        statusCode: 400,
+        response: { success: false, processed: 0, errors: validation.eventErrors },
+      };
+    }
+
+    const request = body as CollectRequest;
+    const receivedAt = Date.now();
+    let processed = 0;
+
+    try {
+      for (let i = 0; i < validation.validEvents.length; i += this.batchSize) {
+        const events = validation.validEvents.slice(i, i + this.batchSize);
+        await this.sink.write({ siteId: request.site_id, receivedAt, events });
+        processed += events.length;
+      }
+    } catch (error) {
+      logger.error(
+        {
+          err: error,
+          sink: this.sink.name,
+          siteId: request.site_id,
+          receivedAt,
+          processed,
+          count: validation.validEvents.length,
+        },
+        '[Events] Sink write failed'
+      );
+      return {
+        statusCode: 503,
+        response: {
+          success: false,
+          processed,
+          errors: [...validation.eventErrors, 'Event storage temporarily unavailable'],
+        },
+      };
+    }
+
+    const response: CollectResponse = {
+      success: validation.eventErrors.length === 0,
+      processed,
+    };
+    if (validation.eventErrors.length > 0) {
+      response.errors = validation.eventErrors;
+    }
+    return { statusCode: 200, response };
+  }
+
+  getSink(): EventSink {
+    return this.sink;
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Event Sinks
+ * Pluggable destinations for validated tracking events
+ */
+import type { TrackingEvent } from '@universal-tracking/types';
+import { logger } from '../../core/observability/logger.js';
+
+export interface EventBatch {
+  siteId: string;
+  receivedAt: number; // Server receive time (ms)
+  events: TrackingEvent[];
+}
+
+export interface EventSink {
+  readonly name: string;
+  /**
+   * Persist a batch of already-validated events
+   * Throwing here makes the collect endpoint report a failure to the client
+   */
+  write(batch: EventBatch): Promise<void>;
+  /**
+   * Flush buffered events (optional - for buffering sinks)
+   */
+  flush?(): Promise<void>;
+  /**
+   * Release resources (called during graceful shutdown)
+   */
+  close?(): Promise<void>;
+}
+
+/**
+ * Logger Sink
+ * Default sink - writes every batch to the structured logger
+ */
+export class LoggerEventSink implements EventSink {
+  readonly name = 'logger';
+
+  async write(batch: EventBatch): Promise<void> {
+    logger.info(
+      {
+        siteId: batch.siteId,
+        receivedAt: batch.receivedAt,
+        count: batch.events.length,
+        events: batch.events,
+      },
+      '[Events] Batch received'
+    );
+  }
+}
+
+/**
+ * Memory Sink
+ * Keeps batches in memory (tests and local debugging)
+ */
+export class MemoryEventSink implements EventSink {
+  readonly name = 'memory';
+  private batches: EventBatch[] = [];
+  private maxBatches: number;
+
+  constructor(maxBatches: number = 1000) {
+    this.maxBatches = maxBatches;
+  }
+
+  async write(batch: EventBatch): Promise<void> {
+    this.batches.push(batch);
+    // Drop oldest batches to keep memory bounded
+    if (this.batches.length > this.maxBatches) {
+      this.batches.shift();
+    }
+  }
+
+  getBatches(): EventBatch[] {
+    return this.batches;
+  }
+
+  getEvents(): TrackingEvent[] {
+    return this.batches.flatMap((batch) => batch.events);
+  }
+
+  clear(): void {
+    this.batches = [];
+  }
+}
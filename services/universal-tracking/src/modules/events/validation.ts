@@ -0,0 +1,74 @@
+/**
+ * Collect Request Validation
+ * AJV validators compiled from the shared JSON schemas
+ */
+import Ajv from 'ajv';
+import type { ErrorObject, ValidateFunction } from 'ajv';
+import { collectSchema, placeholderSchema } from '@universal-tracking/schemas';
+import type { CollectRequest, TrackingEvent } from '@universal-tracking/types';
+
+const ajv = new Ajv({ allErrors: true });
+// Register event schemas first so the $ref in collectSchema resolves
+ajv.addSchema(placeholderSchema);
+const validateEnvelope = ajv.compile<CollectRequest>(collectSchema);
+const validateEvent = ajv.getSchema(placeholderSchema.$id) as ValidateFunction<TrackingEvent>;
+
+/**
+ * Max events per request (taken from the schema, not duplicated)
+ */
+export const MAX_EVENTS_PER_REQUEST: number = collectSchema.properties.events.maxItems;
+
+export interface CollectValidationResult {
+  /** Envelope-level errors (site_id, timestamp, events array shape) - whole request rejected */
+  requestErrors: string[];
+  /** Events that passed validation, in request order */
+  validEvents: TrackingEvent[];
+  /** Per-event errors, formatted as "events[i]: message" */
+  eventErrors: string[];
+}
+
+/**
+ * Validate a collect request
+ * Envelope errors reject the request; invalid events are reported individually
+ */
+export function validateCollectRequest(body: unknown): CollectValidationResult {
+  const result: CollectValidationResult = {
+    requestErrors: [],
+    validEvents: [],
+    eventErrors: [],
+  };
+
+  if (validateEnvelope(body)) {
+    result.validEvents = body.events;
+    return result;
+  }
+
+  // Split envelope errors from errors inside individual events
+  const envelopeErrors = (validateEnvelope.errors ?? []).filter(
+    (error) => !/^\/events\/\d+/.test(error.instancePath)
+  );
+  if (envelopeErrors.length > 0) {
+    result.requestErrors = envelopeErrors.map(formatError);
+    return result;
+  }
+
+  // Envelope is fine - validate events one by one for precise messages
+  const events = (body as { events: unknown[] }).events;
+  events.forEach((event, index) => {
+    if (validateEvent(event)) {
+      result.validEvents.push(event);
+    } else {
+      const messages = (validateEvent.errors ?? []).map(formatError).join(', ');
+      result.eventErrors.push(`events[${index}]: ${messages}`);
+    }
+  });
+  return result;
+}
+
+function formatError(error: ErrorObject): string {
+  const path = error.instancePath || '/';
+  if (error.keyword === 'additionalProperties') {
+    return `${path} has unknown property '${error.params.additionalProperty}'`;
+  }
+  return `${path} ${error.message ?? 'is invalid'}`;
+}
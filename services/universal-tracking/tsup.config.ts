@@ -1,5 +1,9 @@
+import { readFileSync } from 'fs';
 import { defineConfig } from 'tsup';
 
+// Service version baked into the bundle (dist/ has no fixed path back to this package.json)
+const { version } = JSON.parse(readFileSync(new URL('./package.json', import.meta.url), 'utf-8'));
+
 export default defineConfig({
   // Entry point
   entry: ['src/index.ts'],
@@ -59,6 +63,11 @@ const require = createRequire(import.meta.url);
     NODE_ENV: process.env.NODE_ENV || 'production',
   },
   
+  // Build-time constants (see src/core/config/version.ts)
+  define: {
+    __SERVICE_VERSION__: JSON.stringify(version),
+  },
+  
   // onSuccess hook
   onSuccess: async () => {
     console.log('✅ Build completed successfully!');